@@ -0,0 +1,348 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
+import ContractSymbolField from "../../components/contract-symbol-field";
+import {
+  calculateCashSecuredPut,
+  getDefaultPutFormState,
+  getResetPutFormState,
+  sanitizePutFormState,
+  type PutFormState,
+} from "../../lib/cash-secured-put";
+import { formatCurrency, formatPercent, formatPercentValue } from "../../lib/format";
+import type { OptionContract } from "../../lib/occ-symbol";
+
+const STORAGE_KEY = "optionsplanner.cashSecuredPut.inputs.v1";
+const STORAGE_DEBOUNCE_MS = 350;
+
+export default function CashSecuredPutPage() {
+  const defaultFormStateRef = useRef<PutFormState>(getDefaultPutFormState());
+  const [formState, setFormState] = useState<PutFormState>(
+    () => defaultFormStateRef.current,
+  );
+  const hasHydrated = useRef(false);
+  const skipNextSave = useRef(false);
+  const saveTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const calculations = useMemo(() => calculateCashSecuredPut(formState), [formState]);
+
+  const handleChange = (field: keyof PutFormState) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setFormState((prev) => ({
+        ...prev,
+        [field]: event.target.value,
+      }));
+    };
+
+  const handleApplyContract = ({ symbol, expirationDate, strikePrice }: OptionContract) => {
+    setFormState((prev) => ({
+      ...prev,
+      symbol,
+      expirationDate,
+      strikePrice: String(strikePrice),
+    }));
+  };
+
+  const handleReset = () => {
+    const nextState = getResetPutFormState();
+    if (typeof window !== "undefined") {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(nextState));
+    }
+    skipNextSave.current = true;
+    setFormState(nextState);
+  };
+
+  useEffect(() => {
+    const defaults = defaultFormStateRef.current;
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      hasHydrated.current = true;
+      return;
+    }
+
+    try {
+      setFormState(sanitizePutFormState(JSON.parse(stored), defaults));
+    } catch {
+      setFormState(defaults);
+    } finally {
+      hasHydrated.current = true;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasHydrated.current) {
+      return;
+    }
+
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+
+    if (saveTimeout.current) {
+      clearTimeout(saveTimeout.current);
+    }
+
+    saveTimeout.current = setTimeout(() => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(formState));
+    }, STORAGE_DEBOUNCE_MS);
+
+    return () => {
+      if (saveTimeout.current) {
+        clearTimeout(saveTimeout.current);
+      }
+    };
+  }, [formState]);
+
+  return (
+    <main className="page">
+      <section className="hero">
+        <div>
+          <p className="eyebrow">
+            <Link href="/">Options Planner</Link>
+          </p>
+          <h1>Cash-Secured Put Planner</h1>
+          <p className="lede">
+            Estimate the cash you need, the price you would pay if assigned, and the
+            return on reserved cash for a short put.
+          </p>
+        </div>
+        <div className="hero-card">
+          <h2>Strategy snapshot</h2>
+          <ul>
+            <li>Sell 1 put per 100 shares you are willing to buy.</li>
+            <li>Set aside cash to buy the shares at the strike.</li>
+            <li>Keep the premium whether or not you are assigned.</li>
+          </ul>
+        </div>
+      </section>
+
+      <section className="planner">
+        <form className="planner-form">
+          <ContractSymbolField
+            optionType="put"
+            symbol={formState.symbol}
+            expirationDate={formState.expirationDate}
+            strikePrice={formState.strikePrice}
+            onApply={handleApplyContract}
+          />
+          <div className="form-row form-row--split">
+            <div className="field">
+              <label htmlFor="symbol">Stock symbol</label>
+              <div className="input-wrap">
+                <input
+                  id="symbol"
+                  name="symbol"
+                  type="text"
+                  value={formState.symbol}
+                  onChange={handleChange("symbol")}
+                  maxLength={10}
+                  placeholder="e.g. AAPL"
+                  autoCapitalize="characters"
+                />
+              </div>
+            </div>
+            <div className="field">
+              <label htmlFor="shares">Shares to secure</label>
+              <div className="input-wrap">
+                <input
+                  id="shares"
+                  name="shares"
+                  type="number"
+                  step="100"
+                  value={formState.shares}
+                  onChange={handleChange("shares")}
+                  required
+                />
+              </div>
+            </div>
+          </div>
+          <div className="form-row form-row--split">
+            <div className="field">
+              <label htmlFor="stockPrice">Current price</label>
+              <div className="input-wrap">
+                <span>$</span>
+                <input
+                  id="stockPrice"
+                  name="stockPrice"
+                  type="number"
+                  step="0.01"
+                  value={formState.stockPrice}
+                  onChange={handleChange("stockPrice")}
+                  required
+                />
+              </div>
+            </div>
+            <div className="field">
+              <label htmlFor="strikePrice">Put strike price</label>
+              <div className="input-wrap">
+                <span>$</span>
+                <input
+                  id="strikePrice"
+                  name="strikePrice"
+                  type="number"
+                  step="0.01"
+                  value={formState.strikePrice}
+                  onChange={handleChange("strikePrice")}
+                  required
+                />
+              </div>
+            </div>
+          </div>
+          <div className="field">
+            <label htmlFor="premium">Premium received (per share)</label>
+            <div className="input-wrap">
+              <span>$</span>
+              <input
+                id="premium"
+                name="premium"
+                type="number"
+                step="0.01"
+                value={formState.premium}
+                onChange={handleChange("premium")}
+                required
+              />
+            </div>
+          </div>
+          <div className="field">
+            <label htmlFor="expirationDate">Expiration date</label>
+            <input
+              id="expirationDate"
+              name="expirationDate"
+              type="date"
+              value={formState.expirationDate}
+              onChange={handleChange("expirationDate")}
+              required
+            />
+            <p className="helper-text">
+              {calculations.daysUntilExpiration} days until expiration
+            </p>
+          </div>
+          <div className="field">
+            <label htmlFor="impliedVolatility">Implied volatility</label>
+            <input
+              className="range-input"
+              id="impliedVolatility"
+              name="impliedVolatility"
+              type="range"
+              min="5"
+              max="100"
+              step="1"
+              value={formState.impliedVolatility}
+              onChange={handleChange("impliedVolatility")}
+            />
+            <p className="helper-text helper-text--range">
+              <span>{calculations.safeImpliedVolatility.toFixed(0)}%</span>
+              <span>Higher IV can increase premium and risk</span>
+            </p>
+          </div>
+          <div className="field">
+            <label htmlFor="riskFreeRate">Risk-free rate (annual %)</label>
+            <div className="input-wrap">
+              <input
+                id="riskFreeRate"
+                name="riskFreeRate"
+                type="number"
+                step="0.05"
+                min="0"
+                value={formState.riskFreeRate}
+                onChange={handleChange("riskFreeRate")}
+              />
+              <span>%</span>
+            </div>
+          </div>
+        </form>
+        <div className="planner-controls">
+          <button className="text-button" type="button" onClick={handleReset}>
+            Reset
+          </button>
+        </div>
+
+        <div className="results" aria-live="polite">
+          <article className="result-card result-card--cost">
+            <h3>Cash reserved</h3>
+            <p>{formatCurrency(calculations.cashReserved)}</p>
+            <span>{formatCurrency(calculations.safeStrikePrice)} per share</span>
+          </article>
+          <article className="result-card result-card--income">
+            <h3>Premium collected</h3>
+            <p>{formatCurrency(calculations.premiumTotal)}</p>
+            <span>{formatCurrency(calculations.safePremium)} per share</span>
+          </article>
+          <article className="result-card result-card--neutral">
+            <h3>Effective purchase price</h3>
+            <p>{formatCurrency(calculations.effectivePurchasePrice)}</p>
+            <div className="result-card-meta">
+              <span>break even at expiration</span>
+              <span>
+                {formatPercentValue(calculations.discountToSpotPct)} below today&apos;s price
+              </span>
+            </div>
+          </article>
+          <article className="result-card result-card--return">
+            <h3>Return on cash</h3>
+            <p>{formatPercent(calculations.returnOnCash)}</p>
+            <span>{formatPercent(calculations.annualizedReturn)} annualized</span>
+          </article>
+          <article className="result-card result-card--odds">
+            <h3>Assignment odds</h3>
+            <p>{formatPercent(calculations.assignmentProbability)}</p>
+            <div className="result-card-meta">
+              <span>chance of finishing below the strike</span>
+              <span>
+                strike is {formatPercentValue(calculations.strikeBelowSpotPct)} below spot
+              </span>
+            </div>
+          </article>
+          <article className="result-card result-card--profit">
+            <h3>Probability of profit</h3>
+            <p>{formatPercent(calculations.profitProbability)}</p>
+            <span>chance of finishing above break even</span>
+          </article>
+          <article
+            className={`result-card result-card--quality-${calculations.tradeQuality.label.toLowerCase()}`}
+          >
+            <h3>Trade quality</h3>
+            <p>{calculations.tradeQuality.label}</p>
+            <span>
+              {calculations.tradeQuality.score}/100 ·{" "}
+              {calculations.tradeQualitySubtitle || "Balanced risk/reward mix"}
+            </span>
+          </article>
+        </div>
+      </section>
+
+      <section className="notes">
+        <h2>What this means</h2>
+        <div className="note-grid">
+          <div>
+            <h3>Paid to wait</h3>
+            <p>
+              The premium is yours immediately, whether the stock stays above the strike
+              or you end up buying it.
+            </p>
+          </div>
+          <div>
+            <h3>Buying at a discount</h3>
+            <p>
+              If assigned, your effective cost is the strike minus the premium, which is
+              where a covered call can take over.
+            </p>
+          </div>
+          <div>
+            <h3>Downside risk remains</h3>
+            <p>
+              Below the effective purchase price you carry the same losses as owning the
+              shares outright.
+            </p>
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -1,348 +1,105 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
-
-const formatCurrency = (value: number) =>
-  new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    maximumFractionDigits: 2,
-  }).format(value);
-
-const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
-const formatPercentValue = (value: number) => `${value.toFixed(2)}%`;
-
-type TradeQuality = {
-  score: number;
-  label: "Strong" | "Reasonable" | "Borderline" | "Weak";
-  notes: string[];
-  hasElevatedRiskWarning: boolean;
-};
-
-type TechnicalScore = {
-  score: number;
-  grade: "A" | "B" | "C" | "D" | "F";
-  notes: string[];
-};
-
-const evaluateTradeQuality = ({
-  premiumPerDayPct,
-  downsideToBreakEvenPct,
-  upsideCapPct,
-  totalReturnPct,
-  impliedVolatilityPct,
-}: {
-  premiumPerDayPct: number;
-  downsideToBreakEvenPct: number;
-  upsideCapPct: number;
-  totalReturnPct: number;
-  impliedVolatilityPct: number;
-}): TradeQuality => {
-  let score = 50;
-  const factorNotes: Array<{ impact: number; note: string }> = [];
-  let hasElevatedRiskWarning = false;
-
-  const addFactor = (impact: number, note: string) => {
-    score += impact;
-    factorNotes.push({ impact: Math.abs(impact), note });
-  };
-
-  if (premiumPerDayPct < 0.05) {
-    addFactor(-15, "Premium/day is low");
-  } else if (premiumPerDayPct < 0.12) {
-    // neutral
-  } else if (premiumPerDayPct <= 0.2) {
-    addFactor(10, "Premium/day is attractive");
-  } else {
-    addFactor(15, "Premium/day is very high");
-    hasElevatedRiskWarning = true;
-  }
-
-  if (downsideToBreakEvenPct < 2) {
-    addFactor(-20, "Thin downside cushion");
-  } else if (downsideToBreakEvenPct <= 5) {
-    // neutral
-  } else if (downsideToBreakEvenPct <= 8) {
-    addFactor(10, "Downside cushion is solid");
-  } else {
-    addFactor(15, "Downside cushion is strong");
-  }
-
-  if (upsideCapPct < 1) {
-    addFactor(-10, "Upside is very capped");
-  } else if (upsideCapPct <= 3) {
-    addFactor(-5, "Upside is capped");
-  } else if (upsideCapPct <= 7) {
-    addFactor(5, "Upside room is fair");
-  } else {
-    addFactor(10, "Upside room is healthy");
-  }
-
-  if (totalReturnPct < 8) {
-    addFactor(-10, "Max return potential is limited");
-  } else if (totalReturnPct < 12) {
-    // neutral
-  } else if (totalReturnPct <= 20) {
-    addFactor(10, "Return potential is strong");
-  } else if (totalReturnPct <= 35) {
-    addFactor(15, "Return potential is very strong");
-  } else {
-    addFactor(20, "Return potential is exceptional");
-  }
-
-  if (impliedVolatilityPct < 15) {
-    addFactor(-8, "IV is low for option income");
-  } else if (impliedVolatilityPct <= 25) {
-    // neutral
-  } else if (impliedVolatilityPct <= 45) {
-    addFactor(10, "IV supports stronger premium");
-  } else if (impliedVolatilityPct <= 65) {
-    addFactor(5, "IV is elevated");
-    hasElevatedRiskWarning = true;
-  } else {
-    addFactor(-5, "IV is extremely elevated");
-    hasElevatedRiskWarning = true;
-  }
-
-  if (totalReturnPct <= 15) {
-    // neutral
-  } else if (totalReturnPct <= 30) {
-    addFactor(5, "Return potential is decent");
-  } else if (totalReturnPct <= 50) {
-    addFactor(10, "Return potential is strong");
-  } else {
-    addFactor(15, "Return potential is exceptional");
-  }
-
-  const clampedScore = Math.max(0, Math.min(100, score));
-  const notes = factorNotes
-    .sort((a, b) => b.impact - a.impact)
-    .slice(0, 2)
-    .map((factor) => factor.note);
-  const label =
-    clampedScore >= 80
-      ? "Strong"
-      : clampedScore >= 65
-        ? "Reasonable"
-        : clampedScore >= 50
-          ? "Borderline"
-          : "Weak";
-
-  return {
-    score: clampedScore,
-    label,
-    notes,
-    hasElevatedRiskWarning,
-  };
-};
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import BacktestPanel from "../../components/backtest-panel";
+import BrokerImport from "../../components/broker-import";
+import ContractSymbolField from "../../components/contract-symbol-field";
+import MonteCarloPanel from "../../components/monte-carlo-panel";
+import OptionChain from "../../components/option-chain";
+import PayoffChart, { type PayoffMarker } from "../../components/payoff-chart";
+import PositionAlerts from "../../components/position-alerts";
+import RollCalculator from "../../components/roll-calculator";
+import StrikeSuggester from "../../components/strike-suggester";
+import TradeJournal from "../../components/trade-journal";
+import TradeQualityBreakdown from "../../components/trade-quality-breakdown";
+import {
+  SHARES_PER_CONTRACT,
+  calculateCoveredCall,
+  createDividendEvent,
+  createLadderLeg,
+  getDefaultFormState,
+  getResetFormState,
+  type FormState,
+  type FormStringField,
+  type DividendEvent,
+  type LadderLeg,
+} from "../../lib/covered-call";
+import {
+  createJournalEntry,
+  duplicateJournalEntry,
+  pickInitialEntry,
+  type JournalEntry,
+} from "../../lib/journal";
+import {
+  deleteJournalEntry,
+  loadJournalEntries,
+  saveJournalEntry,
+} from "../../lib/journal-db";
+import { MAX_STORED_ALERTS, loadAlerts, saveAlerts } from "../../lib/alert-storage";
+import {
+  evaluateAlertRules,
+  getAlertSnapshot,
+  type AlertRule,
+  type TriggeredAlert,
+} from "../../lib/alerts";
+import {
+  getNotificationStatus,
+  requestNotificationPermission,
+  showAlertNotifications,
+  type NotificationStatus,
+} from "../../lib/notifications";
+import type { OptionContract } from "../../lib/occ-symbol";
+import {
+  createPlanFile,
+  decodePlanQuery,
+  getPlanFileName,
+  getPlanUrl,
+  parsePlanFile,
+} from "../../lib/plan-transfer";
+import {
+  formatCurrency,
+  formatGreek,
+  formatPercent,
+  formatPercentValue,
+} from "../../lib/format";
+import {
+  coveredCallProfitAtExpiration,
+  coveredCallProfitBeforeExpiration,
+} from "../../lib/payoff";
+import {
+  FILL_MODE_LABELS,
+  getFillPremium,
+  isFillMode,
+  type FillMode,
+} from "../../lib/costs";
+import { computeTechnicalIndicators } from "../../lib/indicators";
+import { parsePriceHistoryCsv, type PriceBar } from "../../lib/price-history";
+import {
+  DEFAULT_SCORING_PROFILE_ID,
+  createCustomScoringProfile,
+  resolveScoringProfile,
+  type ScoringProfile,
+} from "../../lib/scoring";
+import {
+  getDefaultScoringSettings,
+  loadScoringSettings,
+  saveScoringSettings,
+  type ScoringSettings,
+} from "../../lib/scoring-storage";
+import { evaluateTechnicalScore } from "../../lib/technical-score";
+import {
+  TAX_ACCOUNT_LABELS,
+  TAX_STATUS_LABELS,
+  calculateTaxOutcome,
+  type TaxAccount,
+} from "../../lib/tax";
+import { evaluateCombinedVerdict } from "../../lib/verdict";
+import { summarizeWheel } from "../../lib/wheel";
+import { loadWheelLegs } from "../../lib/wheel-db";
 
-const STORAGE_KEY = "optionsplanner.coveredCall.inputs.v1";
 const STORAGE_DEBOUNCE_MS = 350;
 
-const computeAnnualizedReturn = ({
-  totalReturn,
-  days,
-}: {
-  totalReturn: number;
-  days: number;
-}) => (days > 0 ? totalReturn * (365 / days) : 0);
-
-const formatDateInput = (date: Date) => date.toISOString().slice(0, 10);
-
-const getDefaultFormState = () => {
-  const defaultExpiration = new Date();
-  defaultExpiration.setDate(defaultExpiration.getDate() + 30);
-
-  return {
-    symbol: "AAPL",
-    stockPrice: "95",
-    strikePrice: "105",
-    premium: "2.75",
-    dividendPerShare: "0.25",
-    dividendsExpected: "1",
-    shares: "100",
-    impliedVolatility: "30",
-    expirationDate: formatDateInput(defaultExpiration),
-    atr14: "",
-    adx14: "",
-    rsi14: "",
-    ma20: "",
-    ma50: "",
-    ma200: "",
-  };
-};
-
-type FormState = ReturnType<typeof getDefaultFormState>;
-
-const getResetFormState = () => ({
-  symbol: "",
-  stockPrice: "0",
-  strikePrice: "0",
-  premium: "0",
-  dividendPerShare: "0",
-  dividendsExpected: "0",
-  shares: "0",
-  impliedVolatility: "30",
-  expirationDate: formatDateInput(new Date()),
-  atr14: "",
-  adx14: "",
-  rsi14: "",
-  ma20: "",
-  ma50: "",
-  ma200: "",
-});
-
-const calculateDaysUntilExpiration = (expirationDate: string) => {
-  const expiration = new Date(`${expirationDate}T00:00:00`);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  if (Number.isNaN(expiration.getTime())) {
-    return 0;
-  }
-
-  const diffMs = expiration.getTime() - today.getTime();
-  return Math.max(0, Math.ceil(diffMs / (1000 * 60 * 60 * 24)));
-};
-
-const getTechnicalGrade = (score: number): TechnicalScore["grade"] => {
-  if (score >= 85) return "A";
-  if (score >= 70) return "B";
-  if (score >= 55) return "C";
-  if (score >= 40) return "D";
-  return "F";
-};
-
-const evaluateTechnicalScore = ({
-  stockPrice,
-  atr,
-  adx,
-  rsi,
-  ma20,
-  ma50,
-  ma200,
-}: {
-  stockPrice: number;
-  atr: number | null;
-  adx: number | null;
-  rsi: number | null;
-  ma20: number | null;
-  ma50: number | null;
-  ma200: number | null;
-}): TechnicalScore | null => {
-  const hasAtLeastOneMa = ma20 !== null || ma50 !== null || ma200 !== null;
-  if (rsi === null || adx === null || !hasAtLeastOneMa || stockPrice <= 0) {
-    return null;
-  }
-
-  let rsiScore = 0;
-  let adxScore = 0;
-  let maScore = 0;
-  let atrScore = 0;
-
-  let momentumNote = "";
-  if (rsi >= 45 && rsi <= 60) {
-    rsiScore = 30;
-    momentumNote = `Momentum is balanced (RSI ${rsi.toFixed(1)})`;
-  } else if (rsi > 60 && rsi <= 70) {
-    rsiScore = 22;
-    momentumNote = `Momentum is strong but getting extended (RSI ${rsi.toFixed(1)})`;
-  } else if (rsi >= 30 && rsi < 45) {
-    rsiScore = 18;
-    momentumNote = `Momentum is soft but not oversold (RSI ${rsi.toFixed(1)})`;
-  } else if (rsi > 70 && rsi <= 80) {
-    rsiScore = 12;
-    momentumNote = `Overbought risk is elevated (RSI ${rsi.toFixed(1)})`;
-  } else if (rsi >= 20 && rsi < 30) {
-    rsiScore = 14;
-    momentumNote = `Oversold bounce potential exists (RSI ${rsi.toFixed(1)})`;
-  } else if (rsi > 80) {
-    rsiScore = 6;
-    momentumNote = `Momentum is extremely overbought (RSI ${rsi.toFixed(1)})`;
-  } else {
-    rsiScore = 8;
-    momentumNote = `Momentum is deeply oversold (RSI ${rsi.toFixed(1)})`;
-  }
-
-  let trendStrengthNote = "";
-  if (adx < 15) {
-    adxScore = 6;
-    trendStrengthNote = `Trend strength is weak (ADX ${adx.toFixed(1)})`;
-  } else if (adx < 20) {
-    adxScore = 12;
-    trendStrengthNote = `Trend strength is building (ADX ${adx.toFixed(1)})`;
-  } else if (adx < 25) {
-    adxScore = 18;
-    trendStrengthNote = `Trend strength is moderate (ADX ${adx.toFixed(1)})`;
-  } else if (adx < 35) {
-    adxScore = 25;
-    trendStrengthNote = `Trend strength is strong (ADX ${adx.toFixed(1)})`;
-  } else if (adx < 45) {
-    adxScore = 22;
-    trendStrengthNote = `Trend is very strong, but late-cycle risk exists (ADX ${adx.toFixed(1)})`;
-  } else {
-    adxScore = 18;
-    trendStrengthNote = `Trend is extreme with reversal risk (ADX ${adx.toFixed(1)})`;
-  }
-
-  if (ma200 !== null) {
-    maScore += stockPrice > ma200 ? 10 : 2;
-  }
-  if (ma50 !== null) {
-    maScore += stockPrice > ma50 ? 8 : 2;
-  }
-  if (ma20 !== null) {
-    maScore += stockPrice > ma20 ? 6 : 2;
-  }
-
-  let alignmentNote: string | null = null;
-  if (ma20 !== null && ma50 !== null && ma200 !== null) {
-    if (ma20 > ma50 && ma50 > ma200) {
-      maScore += 11;
-      alignmentNote = "Moving averages are bullishly aligned (20 > 50 > 200)";
-    } else if (ma20 < ma50 && ma50 < ma200) {
-      alignmentNote = "Moving averages are bearishly aligned (20 < 50 < 200)";
-    } else {
-      maScore += 5;
-      alignmentNote = "Moving averages show mixed trend alignment";
-    }
-  }
-
-  maScore = Math.min(35, maScore);
-
-  let volatilityNote: string | null = null;
-  if (atr !== null) {
-    const atrPct = (atr / stockPrice) * 100;
-    if (atrPct < 1) {
-      atrScore = 10;
-      volatilityNote = `Volatility is stable (ATR ${atrPct.toFixed(2)}% of price)`;
-    } else if (atrPct < 2) {
-      atrScore = 8;
-      volatilityNote = `Volatility is controlled (ATR ${atrPct.toFixed(2)}% of price)`;
-    } else if (atrPct < 3.5) {
-      atrScore = 5;
-      volatilityNote = `Volatility is moderate (ATR ${atrPct.toFixed(2)}% of price)`;
-    } else if (atrPct < 5) {
-      atrScore = 3;
-      volatilityNote = `Volatility is elevated (ATR ${atrPct.toFixed(2)}% of price)`;
-    } else {
-      atrScore = 1;
-      volatilityNote = `Volatility is high (ATR ${atrPct.toFixed(2)}% of price)`;
-    }
-  }
-
-  const score = Math.max(0, Math.min(100, rsiScore + adxScore + maScore + atrScore));
-  const notes = [trendStrengthNote, momentumNote, alignmentNote, volatilityNote].filter(
-    (note): note is string => Boolean(note),
-  );
-
-  return {
-    score,
-    grade: getTechnicalGrade(score),
-    notes: notes.slice(0, 4),
-  };
-};
-
 export default function CoveredCallPage() {
   const defaultFormStateRef = useRef<FormState>(getDefaultFormState());
   const [formState, setFormState] = useState<FormState>(
@@ -352,126 +109,58 @@ export default function CoveredCallPage() {
   const skipNextSave = useRef(false);
   const saveTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [isAdvancedTechnicalsOpen, setIsAdvancedTechnicalsOpen] = useState(false);
+  const [isSuggesterOpen, setIsSuggesterOpen] = useState(false);
+  const [isChainOpen, setIsChainOpen] = useState(false);
+  const [isRollOpen, setIsRollOpen] = useState(false);
+  const [isBacktestOpen, setIsBacktestOpen] = useState(false);
+  const [isSimulationOpen, setIsSimulationOpen] = useState(false);
+  const [isQualityBreakdownOpen, setIsQualityBreakdownOpen] = useState(false);
+  const [isProtectivePutOpen, setIsProtectivePutOpen] = useState(false);
+  const [isTaxOpen, setIsTaxOpen] = useState(false);
+  const [isCostsOpen, setIsCostsOpen] = useState(false);
+  const [isBrokerImportOpen, setIsBrokerImportOpen] = useState(false);
+  const [isAlertsOpen, setIsAlertsOpen] = useState(false);
+  const [alerts, setAlerts] = useState<TriggeredAlert[]>([]);
+  const hasLoadedAlerts = useRef(false);
+  const hasCheckedSavedAlerts = useRef(false);
+  const [notificationStatus, setNotificationStatus] =
+    useState<NotificationStatus>("unsupported");
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [activeEntryId, setActiveEntryId] = useState<string | null>(null);
+  const [isJournalReady, setIsJournalReady] = useState(false);
+  const [journalError, setJournalError] = useState<string | null>(null);
+  const [journalNotice, setJournalNotice] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const persistedVersions = useRef(new Map<string, string>());
+  const [wheelBasis, setWheelBasis] = useState<number | null>(null);
+  const [priceHistory, setPriceHistory] = useState<PriceBar[]>([]);
+  const [priceHistoryStatus, setPriceHistoryStatus] = useState<string | null>(null);
+  const [priceHistoryErrors, setPriceHistoryErrors] = useState<string[]>([]);
   const [activeTechnicalTooltip, setActiveTechnicalTooltip] = useState<
     "atr14" | "adx14" | "rsi14" | null
   >(null);
 
-  const calculations = useMemo(() => {
-    const {
-      stockPrice,
-      strikePrice,
-      premium,
-      dividendPerShare,
-      dividendsExpected,
-      shares,
-      impliedVolatility,
-      expirationDate,
-    } = formState;
-    const parsedStockPrice = Number.parseFloat(stockPrice);
-    const parsedStrikePrice = Number.parseFloat(strikePrice);
-    const parsedPremium = Number.parseFloat(premium);
-    const parsedDividendPerShare = Number.parseFloat(dividendPerShare);
-    const parsedDividendsExpected = Number.parseInt(dividendsExpected, 10);
-    const parsedShares = Number.parseInt(shares, 10);
-    const parsedImpliedVolatility = Number.parseFloat(impliedVolatility);
-    const safeStockPrice = Number.isFinite(parsedStockPrice)
-      ? parsedStockPrice
-      : 0;
-    const safeStrikePrice = Number.isFinite(parsedStrikePrice)
-      ? parsedStrikePrice
-      : 0;
-    const safePremium = Number.isFinite(parsedPremium) ? parsedPremium : 0;
-    const safeDividendPerShare = Number.isFinite(parsedDividendPerShare)
-      ? parsedDividendPerShare
-      : 0;
-    const safeDividendsExpected = Number.isFinite(parsedDividendsExpected)
-      ? parsedDividendsExpected
-      : 0;
-    const safeShares = Number.isFinite(parsedShares) ? parsedShares : 0;
-    const safeImpliedVolatility = Number.isFinite(parsedImpliedVolatility)
-      ? Math.min(100, Math.max(5, parsedImpliedVolatility))
-      : 30;
-    const daysUntilExpiration = calculateDaysUntilExpiration(expirationDate);
-    const dividendPerShareTotal = safeDividendPerShare * safeDividendsExpected;
-    const grossCost = safeStockPrice * safeShares;
-    const premiumTotal = safePremium * safeShares;
-    const dividendsTotal = dividendPerShareTotal * safeShares;
-    const netCost = grossCost - premiumTotal;
-    const netCostPerShare = safeStockPrice - safePremium;
-    const maxProfitPerShare =
-      safeStrikePrice - safeStockPrice + safePremium + dividendPerShareTotal;
-    const maxProfitTotal = maxProfitPerShare * safeShares;
-    const breakevenPrice =
-      safeStockPrice - safePremium - dividendPerShareTotal;
-    const upsideCapValue = safeStrikePrice - safeStockPrice;
-    const totalReturn =
-      safeStockPrice > 0 ? maxProfitPerShare / safeStockPrice : 0;
-    const premiumPct =
-      safeStockPrice > 0 ? (safePremium / safeStockPrice) * 100 : 0;
-    const premiumPerDayPct =
-      daysUntilExpiration > 0 ? premiumPct / daysUntilExpiration : 0;
-    const upsideCapPct =
-      safeStockPrice > 0
-        ? ((safeStrikePrice - safeStockPrice) / safeStockPrice) * 100
-        : 0;
-    const downsideToBreakEvenPct =
-      safeStockPrice > 0 && Number.isFinite(breakevenPrice)
-        ? Math.max(
-            0,
-            ((safeStockPrice - breakevenPrice) / safeStockPrice) * 100,
-          )
-        : 0;
-    const annualizedReturn = computeAnnualizedReturn({
-      totalReturn,
-      days: daysUntilExpiration,
-    });
-    const tradeQuality = evaluateTradeQuality({
-      premiumPerDayPct,
-      downsideToBreakEvenPct,
-      upsideCapPct,
-      totalReturnPct: totalReturn * 100,
-      impliedVolatilityPct: safeImpliedVolatility,
-    });
-    const tradeQualitySubtitle = [
-      tradeQuality.notes[0],
-      tradeQuality.notes[1],
-      tradeQuality.hasElevatedRiskWarning
-        ? "elevated vol/event risk possible"
-        : null,
-    ]
-      .filter(Boolean)
-      .join("; ");
+  const [scoringSettings, setScoringSettings] = useState<ScoringSettings>(
+    getDefaultScoringSettings,
+  );
+  const hasLoadedScoring = useRef(false);
 
-    return {
-      safeStockPrice,
-      safeStrikePrice,
-      safePremium,
-      safeShares,
-      safeImpliedVolatility,
-      safeDividendsExpected,
-      daysUntilExpiration,
-      dividendPerShareTotal,
-      grossCost,
-      netCost,
-      netCostPerShare,
-      premiumTotal,
-      dividendsTotal,
-      maxProfitPerShare,
-      maxProfitTotal,
-      breakevenPrice,
-      premiumPct,
-      premiumPerDayPct,
-      downsideToBreakEvenPct,
-      upsideCapValue,
-      upsideCapPct,
-      totalReturn,
-      annualizedReturn,
-      tradeQuality,
-      tradeQualitySubtitle,
-    };
-  }, [formState]);
+  const scoringProfile = useMemo(
+    () => resolveScoringProfile(scoringSettings.customProfiles, scoringSettings.activeProfileId),
+    [scoringSettings],
+  );
+  const calculations = useMemo(
+    () => calculateCoveredCall(formState, scoringProfile),
+    [formState, scoringProfile],
+  );
 
-  const technicalScore = useMemo(() => {
+  const hasTradingCosts = calculations.costs.totalCosts > 0 || calculations.quote !== null;
+  const taxOutcome = useMemo(
+    () => calculateTaxOutcome(formState, calculations),
+    [calculations, formState],
+  );
+
+  const technicalInputs = useMemo(() => {
     const toNullableNumber = (value: string) => {
       if (!value.trim()) {
         return null;
@@ -480,7 +169,7 @@ export default function CoveredCallPage() {
       return Number.isFinite(parsed) ? parsed : null;
     };
 
-    return evaluateTechnicalScore({
+    return {
       stockPrice: calculations.safeStockPrice,
       atr: toNullableNumber(formState.atr14),
       adx: toNullableNumber(formState.adx14),
@@ -488,7 +177,7 @@ export default function CoveredCallPage() {
       ma20: toNullableNumber(formState.ma20),
       ma50: toNullableNumber(formState.ma50),
       ma200: toNullableNumber(formState.ma200),
-    });
+    };
   }, [
     calculations.safeStockPrice,
     formState.adx14,
@@ -499,8 +188,106 @@ export default function CoveredCallPage() {
     formState.rsi14,
   ]);
 
-  const handleChange = (field: keyof typeof formState) =>
-    (event: React.ChangeEvent<HTMLInputElement>) => {
+  const technicalScore = useMemo(() => evaluateTechnicalScore(technicalInputs), [technicalInputs]);
+  const verdict = useMemo(
+    () => evaluateCombinedVerdict(calculations, technicalInputs, technicalScore),
+    [calculations, technicalInputs, technicalScore],
+  );
+
+  const payoffPosition = useMemo(
+    () => ({
+      stockPrice: calculations.costBasisPrice,
+      calls:
+        calculations.safeShares > 0
+          ? calculations.callLots.map((lot) => ({
+              strikePrice: lot.strikePrice,
+              premium: lot.premium,
+              coverage: (lot.contracts * SHARES_PER_CONTRACT) / calculations.safeShares,
+            }))
+          : [
+              {
+                strikePrice: calculations.blendedStrikePrice,
+                premium: calculations.blendedPremium,
+                coverage: 1,
+              },
+            ],
+      dividendPerShare: calculations.dividendPerShareTotal,
+      putStrikePrice: calculations.safePutStrikePrice,
+      putCost: calculations.safePutCost,
+      putExtraDays: calculations.putDaysUntilExpiration - calculations.daysUntilExpiration,
+      entryCostPerShare:
+        calculations.safeShares > 0
+          ? calculations.costs.entryCostsTotal / calculations.safeShares
+          : 0,
+      assignmentCostPerShare:
+        calculations.safeShares > 0
+          ? calculations.costs.assignmentCostsTotal / calculations.safeShares
+          : 0,
+    }),
+    [
+      calculations.blendedPremium,
+      calculations.blendedStrikePrice,
+      calculations.callLots,
+      calculations.costBasisPrice,
+      calculations.costs,
+      calculations.daysUntilExpiration,
+      calculations.dividendPerShareTotal,
+      calculations.putDaysUntilExpiration,
+      calculations.safePutCost,
+      calculations.safePutStrikePrice,
+      calculations.safeShares,
+    ],
+  );
+
+  const getExpirationProfit = useCallback(
+    (price: number) => coveredCallProfitAtExpiration(price, payoffPosition),
+    [payoffPosition],
+  );
+
+  const getProfitBeforeExpiration = useCallback(
+    (price: number, daysRemaining: number) =>
+      coveredCallProfitBeforeExpiration(price, daysRemaining, payoffPosition, {
+        volatility: calculations.safeImpliedVolatility / 100,
+        riskFreeRate: calculations.safeRiskFreeRate / 100,
+        dividendYield: calculations.dividendYield,
+      }),
+    [
+      calculations.dividendYield,
+      calculations.safeImpliedVolatility,
+      calculations.safeRiskFreeRate,
+      payoffPosition,
+    ],
+  );
+
+  const payoffMarkers = useMemo<PayoffMarker[]>(
+    () => [
+      { id: "breakeven", label: "Break even", price: calculations.breakevenPrice },
+      ...(calculations.hasLadder
+        ? calculations.callLots.map((lot, index) => ({
+            id: `strike-${index}`,
+            kind: "strike",
+            label: `${lot.contracts}× ${formatCurrency(lot.strikePrice)}`,
+            price: lot.strikePrice,
+          }))
+        : [{ id: "strike", label: "Strike", price: calculations.safeStrikePrice }]),
+      { id: "spot", label: "Spot", price: calculations.safeStockPrice },
+      ...(calculations.hasProtectivePut
+        ? [{ id: "put", label: "Put", price: calculations.safePutStrikePrice }]
+        : []),
+    ],
+    [
+      calculations.breakevenPrice,
+      calculations.callLots,
+      calculations.hasLadder,
+      calculations.hasProtectivePut,
+      calculations.safePutStrikePrice,
+      calculations.safeStockPrice,
+      calculations.safeStrikePrice,
+    ],
+  );
+
+  const handleChange = (field: FormStringField) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
       setFormState((prev) => ({
         ...prev,
         [field]: event.target.value,
@@ -516,8 +303,8 @@ export default function CoveredCallPage() {
 
   const handleReset = () => {
     const nextState = getResetFormState();
-    if (typeof window !== "undefined") {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(nextState));
+    if (activeEntryId) {
+      updateEntry(activeEntryId, { formState: nextState });
     }
     skipNextSave.current = true;
     setFormState(nextState);
@@ -529,61 +316,86 @@ export default function CoveredCallPage() {
       return;
     }
 
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) {
-      hasHydrated.current = true;
-      return;
+    let isCancelled = false;
+    // A shared link opens as a new position; the query is cleared so a reload doesn't add it again.
+    const sharedPlan = decodePlanQuery(window.location.search, defaults);
+    if (sharedPlan) {
+      window.history.replaceState(null, "", window.location.pathname);
     }
 
-    try {
-      const parsed = JSON.parse(stored);
-      const nextState: FormState = { ...defaults };
-      const numberFields: Array<keyof Omit<FormState, "expirationDate">> = [
-        "stockPrice",
-        "strikePrice",
-        "premium",
-        "dividendPerShare",
-        "dividendsExpected",
-        "shares",
-        "impliedVolatility",
-        "atr14",
-        "adx14",
-        "rsi14",
-        "ma20",
-        "ma50",
-        "ma200",
-      ];
-
-      if (typeof parsed?.symbol === "string") {
-        nextState.symbol = parsed.symbol.toUpperCase().slice(0, 10);
-      }
-
-      numberFields.forEach((field) => {
-        const value = parsed?.[field];
-        if (typeof value === "string") {
-          nextState[field] = value;
-        } else if (typeof value === "number" && Number.isFinite(value)) {
-          nextState[field] = String(value);
+    const hydrate = async () => {
+      try {
+        const loadedEntries = await loadJournalEntries();
+        if (isCancelled) {
+          return;
         }
-      });
 
-      if (
-        typeof parsed?.expirationDate === "string" &&
-        !Number.isNaN(
-          new Date(`${parsed.expirationDate}T00:00:00`).getTime(),
-        )
-      ) {
-        nextState.expirationDate = parsed.expirationDate;
+        const sharedEntry = sharedPlan ? createJournalEntry(sharedPlan) : null;
+        const nextEntries = sharedEntry
+          ? [...loadedEntries, sharedEntry]
+          : loadedEntries.length
+            ? loadedEntries
+            : [createJournalEntry(defaults)];
+        const initialEntry = sharedEntry ?? pickInitialEntry(nextEntries) ?? nextEntries[0];
+
+        loadedEntries.forEach((entry) => {
+          persistedVersions.current.set(entry.id, entry.updatedAt);
+        });
+        setEntries(nextEntries);
+        setActiveEntryId(initialEntry.id);
+        skipNextSave.current = true;
+        setFormState(initialEntry.formState);
+        setIsJournalReady(true);
+      } catch {
+        if (!isCancelled) {
+          setJournalError("Saved positions are unavailable in this browser; changes will not persist.");
+          if (sharedPlan) {
+            skipNextSave.current = true;
+            setFormState(sharedPlan);
+          }
+        }
+      } finally {
+        hasHydrated.current = true;
       }
+    };
 
-      setFormState(nextState);
-    } catch {
-      setFormState(defaults);
-    } finally {
-      hasHydrated.current = true;
-    }
+    hydrate();
+
+    return () => {
+      isCancelled = true;
+    };
   }, []);
 
+  useEffect(() => {
+    if (!isJournalReady) {
+      return;
+    }
+
+    entries.forEach((entry) => {
+      if (persistedVersions.current.get(entry.id) === entry.updatedAt) {
+        return;
+      }
+
+      persistedVersions.current.set(entry.id, entry.updatedAt);
+      saveJournalEntry(entry).catch(() => {
+        setJournalError(`Could not save "${entry.name}".`);
+      });
+    });
+  }, [entries, isJournalReady]);
+
+  const updateEntry = useCallback(
+    (id: string, changes: Partial<Omit<JournalEntry, "id" | "createdAt">>) => {
+      setEntries((prev) =>
+        prev.map((entry) =>
+          entry.id === id
+            ? { ...entry, ...changes, updatedAt: new Date().toISOString() }
+            : entry,
+        ),
+      );
+    },
+    [],
+  );
+
   useEffect(() => {
     if (!hasHydrated.current) {
       return;
@@ -599,7 +411,9 @@ export default function CoveredCallPage() {
     }
 
     saveTimeout.current = setTimeout(() => {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(formState));
+      if (activeEntryId) {
+        updateEntry(activeEntryId, { formState });
+      }
     }, STORAGE_DEBOUNCE_MS);
 
     return () => {
@@ -607,7 +421,449 @@ export default function CoveredCallPage() {
         clearTimeout(saveTimeout.current);
       }
     };
-  }, [formState]);
+  }, [activeEntryId, formState, updateEntry]);
+
+  const activateEntry = (entry: JournalEntry) => {
+    if (activeEntryId && activeEntryId !== entry.id) {
+      updateEntry(activeEntryId, { formState });
+    }
+    setActiveEntryId(entry.id);
+    skipNextSave.current = true;
+    setFormState(entry.formState);
+  };
+
+  const handleSelectEntry = (id: string) => {
+    const entry = entries.find((item) => item.id === id);
+    if (entry && entry.id !== activeEntryId) {
+      activateEntry(entry);
+    }
+  };
+
+  const handleCreateEntry = () => {
+    const entry = createJournalEntry(getDefaultFormState());
+    setEntries((prev) => [...prev, entry]);
+    activateEntry(entry);
+  };
+
+  const handleDuplicateEntry = (id: string) => {
+    const source = entries.find((item) => item.id === id);
+    if (!source) {
+      return;
+    }
+
+    const entry = duplicateJournalEntry(
+      id === activeEntryId ? { ...source, formState } : source,
+    );
+    setEntries((prev) => [...prev, entry]);
+    activateEntry(entry);
+  };
+
+  // The active position's saved copy can lag the form by the save debounce.
+  const getLiveEntry = (entry: JournalEntry) =>
+    entry.id === activeEntryId ? { ...entry, formState } : entry;
+
+  const handleShareEntry = async (id: string) => {
+    const entry = entries.find((item) => item.id === id);
+    if (!entry) {
+      return;
+    }
+
+    const url = getPlanUrl(getLiveEntry(entry).formState, window.location);
+    try {
+      await navigator.clipboard.writeText(url);
+      setJournalNotice(`Link to "${entry.name}" copied.`);
+    } catch {
+      window.prompt("Copy this link to share the plan:", url);
+    }
+  };
+
+  const handleExportEntries = (ids: string[]) => {
+    const selected = entries.filter((entry) => ids.includes(entry.id)).map(getLiveEntry);
+    if (!selected.length) {
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(createPlanFile(selected), null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getPlanFileName(selected);
+    link.click();
+    URL.revokeObjectURL(url);
+    setJournalNotice(`Exported ${selected.length} position${selected.length === 1 ? "" : "s"}.`);
+  };
+
+  const handleImportPlans = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setImportErrors([`Could not read ${file.name}.`]);
+      setJournalNotice(null);
+      return;
+    }
+
+    const { entries: imported, errors } = parsePlanFile(text);
+    setImportErrors(errors.slice(0, 5));
+    if (!imported.length) {
+      setJournalNotice(null);
+      return;
+    }
+
+    setEntries((prev) => [...prev, ...imported]);
+    activateEntry(imported[0]);
+    setJournalNotice(
+      `Imported ${imported.length} position${imported.length === 1 ? "" : "s"} from ${file.name}.`,
+    );
+  };
+
+  const handleApplyBrokerImport = (changedEntries: JournalEntry[]) => {
+    const changedById = new Map(changedEntries.map((entry) => [entry.id, entry]));
+    setEntries((prev) => [
+      ...prev.map((entry) => changedById.get(entry.id) ?? entry),
+      ...changedEntries.filter((entry) => !prev.some((item) => item.id === entry.id)),
+    ]);
+
+    const activeChange = activeEntryId ? changedById.get(activeEntryId) : undefined;
+    if (activeChange) {
+      skipNextSave.current = true;
+      setFormState(activeChange.formState);
+    }
+  };
+
+  const handleDeleteEntry = (id: string) => {
+    const remaining = entries.filter((entry) => entry.id !== id);
+    persistedVersions.current.delete(id);
+    deleteJournalEntry(id).catch(() => {
+      setJournalError("Could not delete the position.");
+    });
+
+    if (id !== activeEntryId) {
+      setEntries(remaining);
+      return;
+    }
+
+    const nextEntry = pickInitialEntry(remaining) ?? createJournalEntry(getDefaultFormState());
+    setEntries(remaining.length ? remaining : [nextEntry]);
+    setActiveEntryId(nextEntry.id);
+    skipNextSave.current = true;
+    setFormState(nextEntry.formState);
+  };
+
+  useEffect(() => {
+    setScoringSettings(loadScoringSettings());
+  }, []);
+
+  useEffect(() => {
+    if (!hasLoadedScoring.current) {
+      hasLoadedScoring.current = true;
+      return;
+    }
+
+    saveScoringSettings(scoringSettings);
+  }, [scoringSettings]);
+
+  useEffect(() => {
+    setAlerts(loadAlerts());
+    setNotificationStatus(getNotificationStatus());
+  }, []);
+
+  useEffect(() => {
+    if (!hasLoadedAlerts.current) {
+      hasLoadedAlerts.current = true;
+      return;
+    }
+
+    saveAlerts(alerts);
+  }, [alerts]);
+
+  const addAlerts = useCallback((newAlerts: TriggeredAlert[]) => {
+    if (!newAlerts.length) {
+      return;
+    }
+
+    setAlerts((prev) => [...newAlerts, ...prev].slice(0, MAX_STORED_ALERTS));
+    showAlertNotifications(newAlerts).catch(() => {});
+  }, []);
+
+  const activeEntry = entries.find((entry) => entry.id === activeEntryId) ?? null;
+  const isActiveEntryMonitored =
+    activeEntry !== null && activeEntry.status === "open" && !activeEntry.archived;
+
+  // The active position is checked against the live form, so a new or imported price is picked up
+  // once typing settles.
+  useEffect(() => {
+    if (!activeEntry || !isActiveEntryMonitored || !activeEntry.alertRules.length) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      const result = evaluateAlertRules(
+        activeEntry.alertRules,
+        getAlertSnapshot(formState.symbol, calculations),
+        activeEntry,
+      );
+      if (result.rules !== activeEntry.alertRules) {
+        updateEntry(activeEntry.id, { alertRules: result.rules });
+      }
+      addAlerts(result.alerts);
+    }, STORAGE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [activeEntry, addAlerts, calculations, formState.symbol, isActiveEntryMonitored, updateEntry]);
+
+  // Other open positions are checked once on load, which is when days-to-expiry rules can trip.
+  useEffect(() => {
+    if (!isJournalReady || hasCheckedSavedAlerts.current) {
+      return;
+    }
+    hasCheckedSavedAlerts.current = true;
+
+    const newAlerts: TriggeredAlert[] = [];
+    entries.forEach((entry) => {
+      if (
+        entry.id === activeEntryId ||
+        entry.status !== "open" ||
+        entry.archived ||
+        !entry.alertRules.length
+      ) {
+        return;
+      }
+
+      const result = evaluateAlertRules(
+        entry.alertRules,
+        getAlertSnapshot(entry.formState.symbol, calculateCoveredCall(entry.formState)),
+        entry,
+      );
+      if (result.rules !== entry.alertRules) {
+        updateEntry(entry.id, { alertRules: result.rules });
+      }
+      newAlerts.push(...result.alerts);
+    });
+    addAlerts(newAlerts);
+  }, [activeEntryId, addAlerts, entries, isJournalReady, updateEntry]);
+
+  const handleChangeAlertRules = (alertRules: AlertRule[]) => {
+    if (activeEntryId) {
+      updateEntry(activeEntryId, { alertRules });
+    }
+  };
+
+  const handleMarkAlertsRead = () => {
+    setAlerts((prev) => prev.map((alert) => ({ ...alert, read: true })));
+  };
+
+  const handleClearAlerts = () => {
+    setAlerts([]);
+  };
+
+  const handleEnableNotifications = async () => {
+    try {
+      setNotificationStatus(await requestNotificationPermission());
+    } catch {
+      setNotificationStatus(getNotificationStatus());
+    }
+  };
+
+  const unreadAlertCount = alerts.filter((alert) => !alert.read).length;
+
+  const handleSelectScoringProfile = (activeProfileId: string) => {
+    setScoringSettings((prev) => ({ ...prev, activeProfileId }));
+  };
+
+  const handleCustomizeScoringProfile = () => {
+    const profile = createCustomScoringProfile(scoringProfile, `${scoringProfile.name} (custom)`);
+    setScoringSettings((prev) => ({
+      activeProfileId: profile.id,
+      customProfiles: [...prev.customProfiles, profile],
+    }));
+  };
+
+  const handleUpdateScoringProfile = (profile: ScoringProfile) => {
+    setScoringSettings((prev) => ({
+      ...prev,
+      customProfiles: prev.customProfiles.map((item) => (item.id === profile.id ? profile : item)),
+    }));
+  };
+
+  const handleDeleteScoringProfile = (id: string) => {
+    setScoringSettings((prev) => ({
+      activeProfileId:
+        prev.activeProfileId === id ? DEFAULT_SCORING_PROFILE_ID : prev.activeProfileId,
+      customProfiles: prev.customProfiles.filter((item) => item.id !== id),
+    }));
+  };
+
+  useEffect(() => {
+    const symbol = formState.symbol.trim();
+    if (!symbol) {
+      setWheelBasis(null);
+      return;
+    }
+
+    let isCancelled = false;
+    loadWheelLegs(symbol)
+      .then((legs) => {
+        if (!isCancelled) {
+          setWheelBasis(summarizeWheel(legs).basisBeforeOpenCall);
+        }
+      })
+      .catch(() => {
+        if (!isCancelled) {
+          setWheelBasis(null);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [formState.symbol]);
+
+  const handlePromoteChainRow = ({
+    strikePrice,
+    premium,
+    expirationDate,
+  }: Pick<FormState, "strikePrice" | "premium" | "expirationDate">) => {
+    setFormState((prev) => ({
+      ...prev,
+      strikePrice,
+      premium,
+      expirationDate,
+    }));
+  };
+
+  const handleApplySuggestion = ({
+    strikePrice,
+    premium,
+  }: Pick<FormState, "strikePrice" | "premium">) => {
+    // The quote belongs to the old strike, so the theoretical premium stands on its own.
+    setFormState((prev) => ({
+      ...prev,
+      strikePrice,
+      premium,
+      bid: "",
+      ask: "",
+      fillMode: "custom",
+    }));
+  };
+
+  const handleApplyContract = ({ symbol, expirationDate, strikePrice }: OptionContract) => {
+    setFormState((prev) => ({
+      ...prev,
+      symbol,
+      expirationDate,
+      strikePrice: String(strikePrice),
+      bid: "",
+      ask: "",
+      fillMode: "custom",
+    }));
+  };
+
+  const handleRemoveProtectivePut = () => {
+    setFormState((prev) => ({
+      ...prev,
+      putStrikePrice: "",
+      putCost: "",
+      putExpirationDate: "",
+    }));
+    setIsProtectivePutOpen(false);
+  };
+
+  const handlePremiumChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = event.target;
+    setFormState((prev) => ({ ...prev, premium: value, fillMode: "custom" }));
+  };
+
+  const handleQuoteChange =
+    (field: "bid" | "ask" | "fillMode") =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      const { value } = event.target;
+      if (field === "fillMode" && !isFillMode(value)) {
+        return;
+      }
+      setFormState((prev) => {
+        const next = { ...prev, [field]: value };
+        const fillPremium = getFillPremium(next.fillMode, next.bid, next.ask);
+        return fillPremium === null ? next : { ...next, premium: fillPremium.toFixed(2) };
+      });
+    };
+
+  const handleRemoveCosts = () => {
+    setFormState((prev) => ({
+      ...prev,
+      commissionPerContract: "",
+      commissionPerShare: "",
+      regulatoryFeePerContract: "",
+      assignmentFee: "",
+      bid: "",
+      ask: "",
+      fillMode: "custom",
+    }));
+    setIsCostsOpen(false);
+  };
+
+  const handleRemoveTaxes = () => {
+    setFormState((prev) => ({ ...prev, taxAccount: "" }));
+    setIsTaxOpen(false);
+  };
+
+  const handleAddLadderLeg = () => {
+    setFormState((prev) => ({
+      ...prev,
+      ladder: [
+        ...prev.ladder,
+        createLadderLeg({ strikePrice: prev.strikePrice, premium: prev.premium }),
+      ],
+    }));
+  };
+
+  const handleLadderChange =
+    (id: string, field: keyof Omit<LadderLeg, "id">) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const { value } = event.target;
+      setFormState((prev) => ({
+        ...prev,
+        ladder: prev.ladder.map((leg) => (leg.id === id ? { ...leg, [field]: value } : leg)),
+      }));
+    };
+
+  const handleRemoveLadderLeg = (id: string) => {
+    setFormState((prev) => ({
+      ...prev,
+      ladder: prev.ladder.filter((leg) => leg.id !== id),
+    }));
+  };
+
+  const handleAddDividend = () => {
+    setFormState((prev) => ({
+      ...prev,
+      dividends: [
+        ...prev.dividends,
+        createDividendEvent({ amount: prev.dividendPerShare !== "0" ? prev.dividendPerShare : "" }),
+      ],
+    }));
+  };
+
+  const handleDividendChange =
+    (id: string, field: keyof Omit<DividendEvent, "id">) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const { value } = event.target;
+      setFormState((prev) => ({
+        ...prev,
+        dividends: prev.dividends.map((dividend) =>
+          dividend.id === id ? { ...dividend, [field]: value } : dividend,
+        ),
+      }));
+    };
+
+  const handleRemoveDividend = (id: string) => {
+    setFormState((prev) => ({
+      ...prev,
+      dividends: prev.dividends.filter((dividend) => dividend.id !== id),
+    }));
+  };
 
   const handleResetTechnicals = () => {
     setFormState((prev) => ({
@@ -621,11 +877,57 @@ export default function CoveredCallPage() {
     }));
   };
 
+  const handleImportPriceHistory = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    input.value = "";
+    if (!file) {
+      return;
+    }
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setPriceHistoryErrors([`Could not read ${file.name}.`]);
+      setPriceHistoryStatus(null);
+      return;
+    }
+
+    const { bars, errors } = parsePriceHistoryCsv(text);
+    setPriceHistoryErrors(errors.slice(0, 5));
+    if (!bars.length) {
+      setPriceHistoryStatus(null);
+      return;
+    }
+
+    setPriceHistory(bars);
+    const indicators = computeTechnicalIndicators(bars);
+    const toFieldValue = (value: number | null) => (value === null ? "" : value.toFixed(2));
+    setFormState((prev) => ({
+      ...prev,
+      stockPrice: String(indicators.stockPrice),
+      atr14: toFieldValue(indicators.atr),
+      adx14: toFieldValue(indicators.adx),
+      rsi14: toFieldValue(indicators.rsi),
+      ma20: toFieldValue(indicators.ma20),
+      ma50: toFieldValue(indicators.ma50),
+      ma200: toFieldValue(indicators.ma200),
+    }));
+    setPriceHistoryStatus(
+      `Computed from ${bars.length} daily bars, ${bars[0].date} to ${bars[bars.length - 1].date}${
+        indicators.ma200 === null ? "; at least 200 bars are needed for the 200-day MA" : ""
+      }.`,
+    );
+  };
+
   return (
     <main className="page">
       <section className="hero">
         <div>
-          <p className="eyebrow">Options Planner</p>
+          <p className="eyebrow">
+            <Link href="/">Options Planner</Link>
+          </p>
           <h1>Covered Call Planner</h1>
           <p className="lede">
             Estimate income, breakeven, and downside buffer for a covered call trade.
@@ -634,15 +936,79 @@ export default function CoveredCallPage() {
         <div className="hero-card">
           <h2>Strategy snapshot</h2>
           <ul>
-            <li>Sell 1 call against 100 shares you own.</li>
+            <li>Sell 1 call per 100 shares you own.</li>
             <li>Collect premium today.</li>
             <li>Cap upside at the strike price.</li>
           </ul>
         </div>
       </section>
 
+      <section className="panel journal">
+        <TradeJournal
+          entries={entries}
+          activeEntryId={activeEntryId}
+          error={journalError}
+          notice={journalNotice}
+          importErrors={importErrors}
+          onSelect={handleSelectEntry}
+          onCreate={handleCreateEntry}
+          onDuplicate={handleDuplicateEntry}
+          onUpdate={updateEntry}
+          onDelete={handleDeleteEntry}
+          onShare={handleShareEntry}
+          onExport={handleExportEntries}
+          onImport={handleImportPlans}
+        />
+        <button
+          className="text-button"
+          type="button"
+          onClick={() => setIsBrokerImportOpen((prev) => !prev)}
+          aria-expanded={isBrokerImportOpen}
+          aria-controls="broker-import"
+        >
+          {isBrokerImportOpen ? "▾" : "▸"} Import broker activity
+        </button>
+        {isBrokerImportOpen ? (
+          <div id="broker-import">
+            <BrokerImport entries={entries} onApply={handleApplyBrokerImport} />
+          </div>
+        ) : null}
+        <button
+          className="text-button"
+          type="button"
+          onClick={() => setIsAlertsOpen((prev) => !prev)}
+          aria-expanded={isAlertsOpen}
+          aria-controls="position-alerts"
+        >
+          {isAlertsOpen ? "▾" : "▸"} Alerts
+          {unreadAlertCount ? ` (${unreadAlertCount} new)` : ""}
+        </button>
+        {isAlertsOpen ? (
+          <div id="position-alerts">
+            <PositionAlerts
+              entryName={activeEntry?.name ?? "this position"}
+              rules={activeEntry?.alertRules ?? []}
+              alerts={alerts}
+              notificationStatus={notificationStatus}
+              onChangeRules={handleChangeAlertRules}
+              onSelectEntry={handleSelectEntry}
+              onMarkAllRead={handleMarkAlertsRead}
+              onClearAlerts={handleClearAlerts}
+              onEnableNotifications={handleEnableNotifications}
+            />
+          </div>
+        ) : null}
+      </section>
+
       <section className="planner">
         <form className="planner-form">
+          <ContractSymbolField
+            optionType="call"
+            symbol={formState.symbol}
+            expirationDate={formState.expirationDate}
+            strikePrice={formState.strikePrice}
+            onApply={handleApplyContract}
+          />
           <div className="form-row form-row--split">
             <div className="field">
               <label htmlFor="symbol">Stock symbol</label>
@@ -666,7 +1032,7 @@ export default function CoveredCallPage() {
                   id="shares"
                   name="shares"
                   type="number"
-                  step="100"
+                  step="1"
                   value={formState.shares}
                   onChange={handleChange("shares")}
                   required
@@ -716,10 +1082,131 @@ export default function CoveredCallPage() {
                 type="number"
                 step="0.01"
                 value={formState.premium}
-                onChange={handleChange("premium")}
+                onChange={handlePremiumChange}
                 required
               />
             </div>
+            {formState.fillMode !== "custom" && calculations.quote ? (
+              <p className="helper-text">
+                {FILL_MODE_LABELS[formState.fillMode]} fill from the{" "}
+                {formatCurrency(calculations.quote.bid)} × {formatCurrency(calculations.quote.ask)}{" "}
+                quote
+              </p>
+            ) : null}
+          </div>
+          <div className="field">
+            <label htmlFor="contracts">Contracts sold at this strike</label>
+            <div className="input-wrap">
+              <input
+                id="contracts"
+                name="contracts"
+                type="number"
+                step="1"
+                min="0"
+                value={formState.contracts}
+                placeholder={`${calculations.primaryContracts} (from shares)`}
+                onChange={handleChange("contracts")}
+              />
+            </div>
+            <p className="helper-text">
+              {calculations.coveredShares} covered · {calculations.uncoveredShares} uncovered
+              shares
+            </p>
+            {calculations.contractsError ? (
+              <p className="form-errors">{calculations.contractsError}</p>
+            ) : null}
+          </div>
+          {formState.ladder.length ? (
+            <fieldset className="form-fieldset">
+              <legend>Strike ladder</legend>
+              {formState.ladder.map((leg, index) => (
+                <div key={leg.id} className="ladder-leg">
+                  <div className="field">
+                    <label htmlFor={`ladderContracts-${leg.id}`}>Contracts</label>
+                    <input
+                      id={`ladderContracts-${leg.id}`}
+                      type="number"
+                      step="1"
+                      min="0"
+                      value={leg.contracts}
+                      onChange={handleLadderChange(leg.id, "contracts")}
+                    />
+                  </div>
+                  <div className="field">
+                    <label htmlFor={`ladderStrike-${leg.id}`}>Strike</label>
+                    <div className="input-wrap">
+                      <span>$</span>
+                      <input
+                        id={`ladderStrike-${leg.id}`}
+                        type="number"
+                        step="0.5"
+                        value={leg.strikePrice}
+                        onChange={handleLadderChange(leg.id, "strikePrice")}
+                      />
+                    </div>
+                  </div>
+                  <div className="field">
+                    <label htmlFor={`ladderPremium-${leg.id}`}>Premium</label>
+                    <div className="input-wrap">
+                      <span>$</span>
+                      <input
+                        id={`ladderPremium-${leg.id}`}
+                        type="number"
+                        step="0.01"
+                        value={leg.premium}
+                        onChange={handleLadderChange(leg.id, "premium")}
+                      />
+                    </div>
+                  </div>
+                  <button
+                    className="text-button"
+                    type="button"
+                    aria-label={`Remove ladder strike ${index + 1}`}
+                    onClick={() => handleRemoveLadderLeg(leg.id)}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <p className="helper-text">
+                Blended strike {formatCurrency(calculations.blendedStrikePrice)} ·{" "}
+                {formatCurrency(calculations.blendedPremium)} average premium across{" "}
+                {calculations.contractsSold} contracts
+              </p>
+            </fieldset>
+          ) : null}
+          <button className="text-button" type="button" onClick={handleAddLadderLeg}>
+            + Ladder another strike
+          </button>
+          <div className="field">
+            <label htmlFor="adjustedBasis">Adjusted cost basis (optional)</label>
+            <div className="input-wrap">
+              <span>$</span>
+              <input
+                id="adjustedBasis"
+                name="adjustedBasis"
+                type="number"
+                step="0.01"
+                value={formState.adjustedBasis}
+                onChange={handleChange("adjustedBasis")}
+                placeholder="Uses current price"
+              />
+            </div>
+            {wheelBasis !== null ? (
+              <p className="helper-text">
+                Wheel basis for {formState.symbol.toUpperCase()} before the open call:{" "}
+                {formatCurrency(wheelBasis)}{" "}
+                <button
+                  className="text-button"
+                  type="button"
+                  onClick={() =>
+                    setFormState((prev) => ({ ...prev, adjustedBasis: wheelBasis.toFixed(2) }))
+                  }
+                >
+                  Use it
+                </button>
+              </p>
+            ) : null}
           </div>
           <div className="form-row form-row--split">
             <div className="field">
@@ -733,6 +1220,7 @@ export default function CoveredCallPage() {
                   step="0.01"
                   value={formState.dividendPerShare}
                   onChange={handleChange("dividendPerShare")}
+                  disabled={calculations.hasDividendSchedule}
                   required
                 />
               </div>
@@ -748,11 +1236,68 @@ export default function CoveredCallPage() {
                   min="0"
                   value={formState.dividendsExpected}
                   onChange={handleChange("dividendsExpected")}
+                  disabled={calculations.hasDividendSchedule}
                   required
                 />
               </div>
             </div>
           </div>
+          {formState.dividends.length ? (
+            <fieldset className="form-fieldset">
+              <legend>Ex-dividend dates</legend>
+              {formState.dividends.map((dividend, index) => (
+                <div key={dividend.id} className="dividend-event">
+                  <div className="field">
+                    <label htmlFor={`dividendExDate-${dividend.id}`}>Ex-date</label>
+                    <input
+                      id={`dividendExDate-${dividend.id}`}
+                      type="date"
+                      value={dividend.exDate}
+                      onChange={handleDividendChange(dividend.id, "exDate")}
+                    />
+                  </div>
+                  <div className="field">
+                    <label htmlFor={`dividendAmount-${dividend.id}`}>Amount</label>
+                    <div className="input-wrap">
+                      <span>$</span>
+                      <input
+                        id={`dividendAmount-${dividend.id}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={dividend.amount}
+                        onChange={handleDividendChange(dividend.id, "amount")}
+                      />
+                    </div>
+                  </div>
+                  <button
+                    className="text-button"
+                    type="button"
+                    aria-label={`Remove ex-dividend date ${index + 1}`}
+                    onClick={() => handleRemoveDividend(dividend.id)}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              {calculations.hasDividendSchedule ? (
+                <p className="helper-text">
+                  {calculations.countedDividends.length} of{" "}
+                  {calculations.countedDividends.length + calculations.ignoredDividendCount}{" "}
+                  ex-dates fall before expiration and count (
+                  {formatCurrency(calculations.dividendPerShareTotal)} per share). The schedule
+                  replaces the estimate above.
+                </p>
+              ) : (
+                <p className="helper-text">
+                  Add an ex-date and amount to replace the estimate above.
+                </p>
+              )}
+            </fieldset>
+          ) : null}
+          <button className="text-button" type="button" onClick={handleAddDividend}>
+            + Add ex-dividend date
+          </button>
           <div className="field">
             <label htmlFor="expirationDate">Expiration date</label>
             <input
@@ -767,6 +1312,288 @@ export default function CoveredCallPage() {
               {calculations.daysUntilExpiration} days until expiration
             </p>
           </div>
+          {isProtectivePutOpen || calculations.hasProtectivePut ? (
+            <fieldset className="form-fieldset">
+              <legend>Protective put</legend>
+              <div className="form-row form-row--split">
+                <div className="field">
+                  <label htmlFor="putStrikePrice">Put strike price</label>
+                  <div className="input-wrap">
+                    <span>$</span>
+                    <input
+                      id="putStrikePrice"
+                      name="putStrikePrice"
+                      type="number"
+                      step="0.01"
+                      value={formState.putStrikePrice}
+                      onChange={handleChange("putStrikePrice")}
+                    />
+                  </div>
+                </div>
+                <div className="field">
+                  <label htmlFor="putCost">Put cost (per share)</label>
+                  <div className="input-wrap">
+                    <span>$</span>
+                    <input
+                      id="putCost"
+                      name="putCost"
+                      type="number"
+                      step="0.01"
+                      value={formState.putCost}
+                      onChange={handleChange("putCost")}
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="field">
+                <label htmlFor="putExpirationDate">Put expiration date</label>
+                <input
+                  id="putExpirationDate"
+                  name="putExpirationDate"
+                  type="date"
+                  value={formState.putExpirationDate}
+                  onChange={handleChange("putExpirationDate")}
+                />
+                <p className="helper-text">
+                  {formState.putExpirationDate
+                    ? `${calculations.putDaysUntilExpiration} days until the put expires`
+                    : "Leave empty to expire with the call"}
+                </p>
+              </div>
+              <button className="text-button" type="button" onClick={handleRemoveProtectivePut}>
+                Remove put
+              </button>
+            </fieldset>
+          ) : null}
+          {isCostsOpen || hasTradingCosts ? (
+            <fieldset className="form-fieldset">
+              <legend>Costs</legend>
+              <div className="form-row form-row--split">
+                <div className="field">
+                  <label htmlFor="commissionPerContract">Commission per contract</label>
+                  <div className="input-wrap">
+                    <span>$</span>
+                    <input
+                      id="commissionPerContract"
+                      name="commissionPerContract"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formState.commissionPerContract}
+                      onChange={handleChange("commissionPerContract")}
+                    />
+                  </div>
+                </div>
+                <div className="field">
+                  <label htmlFor="commissionPerShare">Commission per share</label>
+                  <div className="input-wrap">
+                    <span>$</span>
+                    <input
+                      id="commissionPerShare"
+                      name="commissionPerShare"
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={formState.commissionPerShare}
+                      onChange={handleChange("commissionPerShare")}
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="form-row form-row--split">
+                <div className="field">
+                  <label htmlFor="regulatoryFeePerContract">Regulatory fees per contract</label>
+                  <div className="input-wrap">
+                    <span>$</span>
+                    <input
+                      id="regulatoryFeePerContract"
+                      name="regulatoryFeePerContract"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formState.regulatoryFeePerContract}
+                      onChange={handleChange("regulatoryFeePerContract")}
+                    />
+                  </div>
+                </div>
+                <div className="field">
+                  <label htmlFor="assignmentFee">Assignment fee</label>
+                  <div className="input-wrap">
+                    <span>$</span>
+                    <input
+                      id="assignmentFee"
+                      name="assignmentFee"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formState.assignmentFee}
+                      onChange={handleChange("assignmentFee")}
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="quote-fill">
+                <div className="field">
+                  <label htmlFor="bid">Call bid</label>
+                  <div className="input-wrap">
+                    <span>$</span>
+                    <input
+                      id="bid"
+                      name="bid"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formState.bid}
+                      onChange={handleQuoteChange("bid")}
+                    />
+                  </div>
+                </div>
+                <div className="field">
+                  <label htmlFor="ask">Call ask</label>
+                  <div className="input-wrap">
+                    <span>$</span>
+                    <input
+                      id="ask"
+                      name="ask"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formState.ask}
+                      onChange={handleQuoteChange("ask")}
+                    />
+                  </div>
+                </div>
+                <div className="field">
+                  <label htmlFor="fillMode">Fill at</label>
+                  <select
+                    id="fillMode"
+                    name="fillMode"
+                    value={formState.fillMode}
+                    onChange={handleQuoteChange("fillMode")}
+                  >
+                    {(Object.keys(FILL_MODE_LABELS) as FillMode[]).map((mode) => (
+                      <option key={mode} value={mode}>
+                        {FILL_MODE_LABELS[mode]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {formState.bid && formState.ask && !calculations.quote ? (
+                <p className="form-errors">The ask must be at or above the bid.</p>
+              ) : null}
+              <button className="text-button" type="button" onClick={handleRemoveCosts}>
+                Remove costs
+              </button>
+            </fieldset>
+          ) : null}
+          {isTaxOpen || taxOutcome ? (
+            <fieldset className="form-fieldset">
+              <legend>Taxes</legend>
+              <div className="form-row form-row--split">
+                <div className="field">
+                  <label htmlFor="taxAccount">Account</label>
+                  <select
+                    id="taxAccount"
+                    name="taxAccount"
+                    value={formState.taxAccount}
+                    onChange={handleChange("taxAccount")}
+                  >
+                    <option value="">Choose an account</option>
+                    {(Object.keys(TAX_ACCOUNT_LABELS) as TaxAccount[]).map((account) => (
+                      <option key={account} value={account}>
+                        {TAX_ACCOUNT_LABELS[account]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="field">
+                  <label htmlFor="sharePurchaseDate">Shares bought on</label>
+                  <input
+                    id="sharePurchaseDate"
+                    name="sharePurchaseDate"
+                    type="date"
+                    value={formState.sharePurchaseDate}
+                    onChange={handleChange("sharePurchaseDate")}
+                  />
+                </div>
+              </div>
+              <div className="field">
+                <label htmlFor="taxCostBasis">Tax cost basis (per share)</label>
+                <div className="input-wrap">
+                  <span>$</span>
+                  <input
+                    id="taxCostBasis"
+                    name="taxCostBasis"
+                    type="number"
+                    step="0.01"
+                    value={formState.taxCostBasis}
+                    onChange={handleChange("taxCostBasis")}
+                    placeholder="Uses adjusted basis or current price"
+                  />
+                </div>
+              </div>
+              {formState.taxAccount === "taxable" ? (
+                <div className="tax-rates">
+                  <div className="field">
+                    <label htmlFor="federalRate">Federal ordinary</label>
+                    <div className="input-wrap">
+                      <input
+                        id="federalRate"
+                        name="federalRate"
+                        type="number"
+                        step="1"
+                        min="0"
+                        value={formState.federalRate}
+                        onChange={handleChange("federalRate")}
+                      />
+                      <span>%</span>
+                    </div>
+                  </div>
+                  <div className="field">
+                    <label htmlFor="longTermRate">Federal long-term</label>
+                    <div className="input-wrap">
+                      <input
+                        id="longTermRate"
+                        name="longTermRate"
+                        type="number"
+                        step="1"
+                        min="0"
+                        value={formState.longTermRate}
+                        onChange={handleChange("longTermRate")}
+                      />
+                      <span>%</span>
+                    </div>
+                  </div>
+                  <div className="field">
+                    <label htmlFor="stateRate">State</label>
+                    <div className="input-wrap">
+                      <input
+                        id="stateRate"
+                        name="stateRate"
+                        type="number"
+                        step="0.5"
+                        min="0"
+                        value={formState.stateRate}
+                        onChange={handleChange("stateRate")}
+                      />
+                      <span>%</span>
+                    </div>
+                  </div>
+                </div>
+              ) : null}
+              {taxOutcome?.warnings.length ? (
+                <ul className="form-errors">
+                  {taxOutcome.warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              ) : null}
+              <button className="text-button" type="button" onClick={handleRemoveTaxes}>
+                Remove taxes
+              </button>
+            </fieldset>
+          ) : null}
           <div className="field">
             <label htmlFor="impliedVolatility">Implied volatility</label>
             <input
@@ -785,6 +1612,24 @@ export default function CoveredCallPage() {
               <span>Higher IV can increase premium and risk</span>
             </p>
           </div>
+          <div className="field">
+            <label htmlFor="riskFreeRate">Risk-free rate (annual %)</label>
+            <div className="input-wrap">
+              <input
+                id="riskFreeRate"
+                name="riskFreeRate"
+                type="number"
+                step="0.05"
+                min="0"
+                value={formState.riskFreeRate}
+                onChange={handleChange("riskFreeRate")}
+              />
+              <span>%</span>
+            </div>
+            <p className="helper-text">
+              Used with IV to price the call; dividend yield comes from the dividends above.
+            </p>
+          </div>
         </form>
         <div className="planner-controls">
           <button className="text-button" type="button" onClick={handleReset}>
@@ -799,10 +1644,105 @@ export default function CoveredCallPage() {
           >
             {isAdvancedTechnicalsOpen ? "▾" : "▸"} Advanced technicals
           </button>
+          {!calculations.hasProtectivePut ? (
+            <button
+              className="text-button"
+              type="button"
+              onClick={() => setIsProtectivePutOpen((prev) => !prev)}
+              aria-expanded={isProtectivePutOpen}
+            >
+              {isProtectivePutOpen ? "▾" : "▸"} Protective put
+            </button>
+          ) : null}
+          {!hasTradingCosts ? (
+            <button
+              className="text-button"
+              type="button"
+              onClick={() => setIsCostsOpen((prev) => !prev)}
+              aria-expanded={isCostsOpen}
+            >
+              {isCostsOpen ? "▾" : "▸"} Costs
+            </button>
+          ) : null}
+          {!taxOutcome ? (
+            <button
+              className="text-button"
+              type="button"
+              onClick={() => setIsTaxOpen((prev) => !prev)}
+              aria-expanded={isTaxOpen}
+            >
+              {isTaxOpen ? "▾" : "▸"} Taxes
+            </button>
+          ) : null}
+          <button
+            className="text-button"
+            type="button"
+            onClick={() => setIsSuggesterOpen((prev) => !prev)}
+            aria-expanded={isSuggesterOpen}
+            aria-controls="strike-suggester"
+          >
+            {isSuggesterOpen ? "▾" : "▸"} Suggest strikes
+          </button>
+          <button
+            className="text-button"
+            type="button"
+            onClick={() => setIsChainOpen((prev) => !prev)}
+            aria-expanded={isChainOpen}
+            aria-controls="option-chain"
+          >
+            {isChainOpen ? "▾" : "▸"} Compare strikes
+          </button>
+          <button
+            className="text-button"
+            type="button"
+            onClick={() => setIsRollOpen((prev) => !prev)}
+            aria-expanded={isRollOpen}
+            aria-controls="roll-calculator"
+          >
+            {isRollOpen ? "▾" : "▸"} Roll calculator
+          </button>
+          <button
+            className="text-button"
+            type="button"
+            onClick={() => setIsBacktestOpen((prev) => !prev)}
+            aria-expanded={isBacktestOpen}
+            aria-controls="backtest"
+          >
+            {isBacktestOpen ? "▾" : "▸"} Backtest
+          </button>
+          <button
+            className="text-button"
+            type="button"
+            onClick={() => setIsSimulationOpen((prev) => !prev)}
+            aria-expanded={isSimulationOpen}
+            aria-controls="monte-carlo"
+          >
+            {isSimulationOpen ? "▾" : "▸"} Monte Carlo
+          </button>
         </div>
 
         {isAdvancedTechnicalsOpen ? (
           <section id="advanced-technicals" className="advanced-technicals">
+            <div className="field">
+              <label htmlFor="priceHistory">Import price history (CSV)</label>
+              <input
+                id="priceHistory"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleImportPriceHistory}
+              />
+              <p className="helper-text">
+                {priceHistoryStatus ??
+                  "Daily OHLCV export from Yahoo Finance or your broker; fills the fields below and the current price."}
+              </p>
+              {priceHistoryErrors.length ? (
+                <ul className="form-errors">
+                  {priceHistoryErrors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
             <div className="advanced-technicals-grid">
               <div className="field">
                 <div className="label-with-tooltip">
@@ -962,14 +1902,79 @@ export default function CoveredCallPage() {
           <article className="result-card result-card--profit">
             <h3>Max profit</h3>
             <p>{formatCurrency(calculations.maxProfitTotal)}</p>
-            <span>{formatCurrency(calculations.maxProfitPerShare)} per share</span>
+            <div className="result-card-meta">
+              <span>
+                {formatCurrency(calculations.maxProfitPerShare)} per covered share
+              </span>
+              {calculations.uncoveredShares ? (
+                <span>
+                  plus uncapped upside on {calculations.uncoveredShares} uncovered shares
+                </span>
+              ) : null}
+              {calculations.earlyAssignmentDividend ? (
+                <span>
+                  {formatCurrency(calculations.earlyAssignmentProfitTotal)} if called away before
+                  the {calculations.earlyAssignmentDividend.exDate} ex-date
+                </span>
+              ) : null}
+            </div>
+          </article>
+          <article className="result-card result-card--neutral">
+            <h3>Coverage</h3>
+            <p>
+              {calculations.contractsSold} contract{calculations.contractsSold === 1 ? "" : "s"}
+            </p>
+            <div className="result-card-meta">
+              <span>
+                {calculations.coveredShares} of {calculations.safeShares} shares covered
+              </span>
+              {calculations.uncoveredShares ? (
+                <span>
+                  {calculations.uncoveredShares} uncovered: no premium,{" "}
+                  {formatCurrency(calculations.uncoveredDividendsTotal)} dividends
+                </span>
+              ) : null}
+            </div>
           </article>
           <article className="result-card result-card--neutral">
             <h3>Break even</h3>
             <p>{formatCurrency(calculations.breakevenPrice)}</p>
-            <span>
-              downside to break even: {formatPercentValue(calculations.downsideToBreakEvenPct)}
-            </span>
+            <div className="result-card-meta">
+              <span>
+                downside to break even: {formatPercentValue(calculations.downsideToBreakEvenPct)}
+              </span>
+              {calculations.adjustedBasisOverride !== null ? (
+                <span>
+                  from adjusted basis {formatCurrency(calculations.adjustedBasisOverride)}
+                </span>
+              ) : null}
+            </div>
+          </article>
+          <article className="result-card result-card--collar">
+            <h3>{calculations.hasProtectivePut ? "Collar range" : "Max loss"}</h3>
+            <p>{formatCurrency(-calculations.maxLossTotal)}</p>
+            <div className="result-card-meta">
+              {calculations.hasProtectivePut ? (
+                <>
+                  <span>
+                    floor below {formatCurrency(calculations.safePutStrikePrice)}, cap above{" "}
+                    {formatCurrency(calculations.safeStrikePrice)}
+                  </span>
+                  <span>
+                    {calculations.isZeroCostCollar
+                      ? "Zero-cost collar"
+                      : `${formatCurrency(Math.abs(calculations.netPremium))} net ${
+                          calculations.netPremium >= 0 ? "credit" : "debit"
+                        } per share`}
+                  </span>
+                  {calculations.putExpiresBeforeCall ? (
+                    <span>Put expires before the call; the floor lapses early</span>
+                  ) : null}
+                </>
+              ) : (
+                <span>if the stock goes to zero; shares are fully exposed</span>
+              )}
+            </div>
           </article>
           <article className="result-card result-card--cost">
             <h3>Gross position cost</h3>
@@ -983,10 +1988,16 @@ export default function CoveredCallPage() {
           </article>
           <article className="result-card result-card--cap">
             <h3>Upside cap</h3>
-            <p>{formatCurrency(calculations.safeStrikePrice)}</p>
+            <p>{formatCurrency(calculations.blendedStrikePrice)}</p>
             <div className="result-card-meta">
               <span>{formatCurrency(calculations.upsideCapValue)} above spot</span>
-              <span>{formatPercentValue(calculations.upsideCapPct)} to strike</span>
+              <span>
+                {formatPercentValue(calculations.upsideCapPct)} to{" "}
+                {calculations.hasLadder ? "blended strike" : "strike"}
+              </span>
+              {calculations.uncoveredShares ? (
+                <span>uncovered shares are not capped</span>
+              ) : null}
             </div>
           </article>
           <article className="result-card result-card--return">
@@ -994,22 +2005,280 @@ export default function CoveredCallPage() {
             <p>{formatPercent(calculations.totalReturn)}</p>
             <span>{formatPercent(calculations.annualizedReturn)} annualized</span>
           </article>
+          {taxOutcome ? (
+            <>
+              <article className="result-card result-card--return">
+                <h3>After tax if assigned</h3>
+                <p>{formatCurrency(taxOutcome.assigned.afterTaxProfit)}</p>
+                <div className="result-card-meta">
+                  <span>
+                    {formatCurrency(taxOutcome.assigned.tax)} tax on a{" "}
+                    {taxOutcome.assigned.isLongTerm ? "long" : "short"}-term gain from a{" "}
+                    {formatCurrency(taxOutcome.costBasis)} basis
+                  </span>
+                  <span>
+                    {formatPercent(taxOutcome.assigned.afterTaxAnnualizedReturn)} annualized after
+                    tax
+                  </span>
+                  {taxOutcome.account === "taxable" ? (
+                    <span>{TAX_STATUS_LABELS[taxOutcome.status]}</span>
+                  ) : null}
+                </div>
+              </article>
+              <article className="result-card result-card--income">
+                <h3>After tax if expired</h3>
+                <p>{formatCurrency(taxOutcome.expired.afterTaxProfit)}</p>
+                <div className="result-card-meta">
+                  <span>
+                    {formatCurrency(taxOutcome.afterTaxPremium)} premium kept after short-term
+                    tax
+                  </span>
+                  <span>
+                    {formatPercent(taxOutcome.expired.afterTaxAnnualizedReturn)} annualized after
+                    tax
+                  </span>
+                </div>
+              </article>
+            </>
+          ) : null}
           <article className="result-card result-card--income">
             <h3>Total income</h3>
-            <p>{formatCurrency(calculations.premiumTotal + calculations.dividendsTotal)}</p>
+            <p>{formatCurrency(calculations.netPremiumTotal + calculations.dividendsTotal)}</p>
             <div className="result-card-meta">
               <span>{formatCurrency(calculations.premiumTotal)} premium</span>
+              {calculations.hasProtectivePut ? (
+                <span>{formatCurrency(calculations.putCostTotal)} spent on the put</span>
+              ) : null}
+              {calculations.costs.entryCostsTotal > 0 ? (
+                <span>{formatCurrency(calculations.costs.entryCostsTotal)} commissions and fees</span>
+              ) : null}
               <span>{formatCurrency(calculations.dividendsTotal)} dividends expected</span>
             </div>
           </article>
+          {hasTradingCosts ? (
+            <article className="result-card result-card--cost">
+              <h3>Trading costs</h3>
+              <p>{formatCurrency(calculations.costs.totalCosts)}</p>
+              <div className="result-card-meta">
+                {calculations.costs.lineItems.map((item) => (
+                  <span key={item.id}>
+                    {item.label}: {formatCurrency(item.amount)}
+                  </span>
+                ))}
+                {calculations.costs.slippageTotal !== null ? (
+                  <span>
+                    {formatCurrency(calculations.costs.slippageTotal)} given up versus the mid
+                  </span>
+                ) : null}
+              </div>
+            </article>
+          ) : null}
           <article className={`result-card result-card--quality-${calculations.tradeQuality.label.toLowerCase()}`}>
             <h3>Trade quality</h3>
             <p>{calculations.tradeQuality.label}</p>
             <span>
               {calculations.tradeQuality.score}/100 · {calculations.tradeQualitySubtitle || "Balanced risk/reward mix"}
             </span>
+            <button
+              className="text-button"
+              type="button"
+              onClick={() => setIsQualityBreakdownOpen((prev) => !prev)}
+              aria-expanded={isQualityBreakdownOpen}
+              aria-controls="quality-breakdown"
+            >
+              {isQualityBreakdownOpen ? "▾" : "▸"} {scoringProfile.name} profile breakdown
+            </button>
+          </article>
+          <article className="result-card result-card--odds">
+            <h3>Assignment odds</h3>
+            <p>{formatPercent(calculations.probabilities.assignmentProbability)}</p>
+            <div className="result-card-meta">
+              <span>
+                chance of finishing above the {calculations.hasLadder ? "lowest " : ""}strike
+              </span>
+              <span>
+                {formatPercent(calculations.probabilities.touchProbability)} chance to touch it
+                before expiry
+              </span>
+              {calculations.countedDividends.length ? (
+                <span>
+                  {formatPercent(calculations.earlyExerciseProbability)} chance of early exercise
+                  for a dividend
+                </span>
+              ) : null}
+            </div>
+          </article>
+          {calculations.hasDividendSchedule ? (
+            <article
+              className={`result-card ${
+                calculations.dividendAtRisk ? "result-card--quality-weak" : "result-card--income"
+              }`}
+            >
+              <h3>Early exercise</h3>
+              <p>{calculations.dividendAtRisk ? "Dividend at risk" : "Dividends look safe"}</p>
+              <div className="result-card-meta">
+                {calculations.dividendRisks.map((risk) => (
+                  <span key={risk.exDate}>
+                    {risk.exDate}: {formatCurrency(risk.amount)} vs{" "}
+                    {formatCurrency(risk.timeValue)} time value
+                    {risk.exerciseThreshold !== null
+                      ? ` · exercise likely above ${formatCurrency(risk.exerciseThreshold)}`
+                      : ""}
+                  </span>
+                ))}
+                {!calculations.dividendRisks.length ? (
+                  <span>no ex-dates fall before expiration</span>
+                ) : null}
+              </div>
+            </article>
+          ) : null}
+          <article className="result-card result-card--profit">
+            <h3>Probability of profit</h3>
+            <p>{formatPercent(calculations.probabilities.profitProbability)}</p>
+            <div className="result-card-meta">
+              <span>chance of finishing above break even</span>
+              <span>
+                {formatCurrency(calculations.expectedProfitTotal)} expected P&amp;L (
+                {formatCurrency(calculations.expectedProfitPerShare)} per share)
+              </span>
+            </div>
+          </article>
+          <article className="result-card result-card--pricing">
+            <h3>Fair value</h3>
+            <p>{formatCurrency(calculations.callPricing.value)}</p>
+            <div className="result-card-meta">
+              <span>
+                Premium is {formatCurrency(Math.abs(calculations.premiumEdge))}{" "}
+                {calculations.premiumEdge >= 0 ? "rich" : "cheap"} (
+                {formatPercentValue(Math.abs(calculations.premiumEdgePct))})
+              </span>
+              <span>
+                {formatCurrency(calculations.callPricing.timeValue)} time value at{" "}
+                {calculations.safeImpliedVolatility.toFixed(0)}% IV
+              </span>
+            </div>
+          </article>
+          <article className="result-card result-card--greeks">
+            <h3>Position delta</h3>
+            <p>{calculations.positionDelta.toFixed(1)} shares</p>
+            <div className="result-card-meta">
+              <span>
+                Call Δ {formatGreek(calculations.callPricing.delta)} · Γ{" "}
+                {formatGreek(calculations.callPricing.gamma, 3)}
+              </span>
+              <span>
+                Vega {formatCurrency(calculations.callPricing.vega)} · Rho{" "}
+                {formatCurrency(calculations.callPricing.rho)} per share
+              </span>
+            </div>
+          </article>
+          <article className="result-card result-card--theta">
+            <h3>Daily theta</h3>
+            <p>{formatCurrency(calculations.dailyThetaTotal)}</p>
+            <span>
+              {formatCurrency(-calculations.callPricing.theta)} per share per day of decay collected
+            </span>
           </article>
         </div>
+
+        <article className="verdict-card" aria-live="polite">
+          <h3>Combined verdict</h3>
+          <p>
+            {verdict.label} · {verdict.score}/100
+            {verdict.trend !== "unknown" ? ` · ${verdict.trend} trend` : ""}
+          </p>
+          <ul>
+            {verdict.rationale.map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+          {verdict.suggestions.length ? (
+            <ul className="verdict-suggestions">
+              {verdict.suggestions.map((suggestion) => (
+                <li key={suggestion.id} className={`verdict-suggestion--${suggestion.tone}`}>
+                  {suggestion.text}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </article>
+      </section>
+
+      {isQualityBreakdownOpen ? (
+        <section id="quality-breakdown" className="panel">
+          <h2>Why this score</h2>
+          <TradeQualityBreakdown
+            tradeQuality={calculations.tradeQuality}
+            profile={scoringProfile}
+            customProfiles={scoringSettings.customProfiles}
+            onSelectProfile={handleSelectScoringProfile}
+            onCustomize={handleCustomizeScoringProfile}
+            onUpdateProfile={handleUpdateScoringProfile}
+            onDeleteProfile={handleDeleteScoringProfile}
+          />
+        </section>
+      ) : null}
+
+      {isSuggesterOpen ? (
+        <section id="strike-suggester" className="panel">
+          <h2>Strike suggestions</h2>
+          <StrikeSuggester
+            formState={formState}
+            calculations={calculations}
+            scoringProfile={scoringProfile}
+            onApply={handleApplySuggestion}
+          />
+        </section>
+      ) : null}
+
+      {isChainOpen ? (
+        <section id="option-chain" className="panel">
+          <h2>Chain comparison</h2>
+          <OptionChain
+            formState={formState}
+            scoringProfile={scoringProfile}
+            onPromote={handlePromoteChainRow}
+          />
+        </section>
+      ) : null}
+
+      {isRollOpen ? (
+        <section id="roll-calculator" className="panel">
+          <h2>Roll the call</h2>
+          <RollCalculator formState={formState} scoringProfile={scoringProfile} />
+        </section>
+      ) : null}
+
+      {isBacktestOpen ? (
+        <section id="backtest" className="panel">
+          <h2>Backtest the rule</h2>
+          <BacktestPanel
+            bars={priceHistory}
+            riskFreeRate={calculations.safeRiskFreeRate}
+          />
+        </section>
+      ) : null}
+
+      {isSimulationOpen ? (
+        <section id="monte-carlo" className="panel">
+          <h2>Simulated outcomes</h2>
+          <MonteCarloPanel
+            calculations={calculations}
+            expirationDate={formState.expirationDate}
+          />
+        </section>
+      ) : null}
+
+      <section className="payoff panel">
+        <h2>Profit &amp; loss</h2>
+        <PayoffChart
+          expirationDate={formState.expirationDate}
+          daysUntilExpiration={calculations.daysUntilExpiration}
+          quantity={calculations.safeShares}
+          markers={payoffMarkers}
+          getExpirationProfit={getExpirationProfit}
+          getProfitBeforeExpiration={getProfitBeforeExpiration}
+        />
       </section>
 
       <section className="notes">
@@ -1029,13 +2298,23 @@ export default function CoveredCallPage() {
               the premium received.
             </p>
           </div>
-          <div>
-            <h3>Downside risk remains</h3>
-            <p>
-              You still own the shares, so declines below the breakeven price are fully
-              exposed.
-            </p>
-          </div>
+          {calculations.hasProtectivePut ? (
+            <div>
+              <h3>Downside is floored</h3>
+              <p>
+                The long put limits losses below its strike until it expires, in exchange
+                for part of the call premium.
+              </p>
+            </div>
+          ) : (
+            <div>
+              <h3>Downside risk remains</h3>
+              <p>
+                You still own the shares, so declines below the breakeven price are fully
+                exposed.
+              </p>
+            </div>
+          )}
         </div>
       </section>
     </main>
@@ -1,9 +1,10 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
+import ServiceWorkerUpdates from "../components/service-worker-updates";
 import "./globals.css";
 
 export const metadata: Metadata = {
   title: "Options Planner",
-  description: "Plan covered call strategies without external dependencies.",
+  description: "Plan covered call and cash-secured put strategies without external dependencies.",
   manifest: "/site.webmanifest",
   icons: {
     icon: [{ url: "/icon-192.png", type: "image/png" }],
@@ -11,6 +12,10 @@ export const metadata: Metadata = {
   },
 };
 
+export const viewport: Viewport = {
+  themeColor: "#2c7082",
+};
+
 export default function RootLayout({
   children,
 }: {
@@ -24,7 +29,10 @@ export default function RootLayout({
         <meta name="apple-mobile-web-app-title" content="Options Planner" />
         <link rel="apple-touch-icon" href="/apple-touch-icon.png" />
       </head>
-      <body>{children}</body>
+      <body>
+        {children}
+        <ServiceWorkerUpdates />
+      </body>
     </html>
   );
 }
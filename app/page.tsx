@@ -1,5 +1,50 @@
-import { redirect } from "next/navigation";
+import Link from "next/link";
+
+const STRATEGIES = [
+  {
+    href: "/covered-call",
+    title: "Covered call",
+    description: "Sell a call against shares you own to collect income and cap upside.",
+  },
+  {
+    href: "/cash-secured-put",
+    title: "Cash-secured put",
+    description: "Sell a put backed by cash to get paid while waiting to buy shares.",
+  },
+  {
+    href: "/wheel",
+    title: "Wheel tracker",
+    description: "Link puts, assignments and calls to follow your adjusted cost basis.",
+  },
+  {
+    href: "/portfolio",
+    title: "Portfolio",
+    description: "Total capital, premium and Greeks across saved positions by expiration week.",
+  },
+];
 
 export default function HomePage() {
-  redirect("/covered-call");
+  return (
+    <main className="page">
+      <section className="hero">
+        <div>
+          <p className="eyebrow">Options Planner</p>
+          <h1>Pick a strategy</h1>
+          <p className="lede">
+            Plan income trades on stocks you own or want to own. Everything runs in your
+            browser.
+          </p>
+        </div>
+      </section>
+
+      <nav className="strategy-picker" aria-label="Strategies">
+        {STRATEGIES.map((strategy) => (
+          <Link key={strategy.href} className="strategy-card" href={strategy.href}>
+            <h2>{strategy.title}</h2>
+            <p>{strategy.description}</p>
+          </Link>
+        ))}
+      </nav>
+    </main>
+  );
 }
@@ -0,0 +1,219 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { formatCurrency, formatGreek, formatPercent } from "../../lib/format";
+import { sortJournalEntries, type JournalEntry } from "../../lib/journal";
+import { loadJournalEntries } from "../../lib/journal-db";
+import { HEAVY_WEEK_EXPOSURE, summarizePortfolio } from "../../lib/portfolio";
+
+export default function PortfolioPage() {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    loadJournalEntries()
+      .then((loadedEntries) => {
+        if (!isCancelled) {
+          setEntries(sortJournalEntries(loadedEntries));
+        }
+      })
+      .catch(() => {
+        if (!isCancelled) {
+          setError("Saved positions are unavailable in this browser.");
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsLoaded(true);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const summary = useMemo(() => summarizePortfolio(entries), [entries]);
+  const openCount = summary.openPositions.length;
+
+  return (
+    <main className="page">
+      <section className="hero">
+        <div>
+          <p className="eyebrow">
+            <Link href="/">Options Planner</Link>
+          </p>
+          <h1>Portfolio</h1>
+          <p className="lede">
+            Every position saved in the covered call journal, with totals across the open ones
+            and the weeks that carry the most assignment exposure.
+          </p>
+        </div>
+        <div className="hero-card">
+          <h2>What counts</h2>
+          <ul>
+            <li>Totals include positions marked open that are not archived.</li>
+            <li>Returns are weighted by each position&apos;s net cost.</li>
+            <li>Delta is in share equivalents; theta is per day.</li>
+          </ul>
+        </div>
+      </section>
+
+      <section className="panel portfolio">
+        {error ? <p className="form-errors">{error}</p> : null}
+        {isLoaded && !entries.length && !error ? (
+          <p className="helper-text">
+            No saved positions yet. Plan one in the{" "}
+            <Link href="/covered-call">covered call planner</Link>.
+          </p>
+        ) : null}
+
+        <div className="results">
+          <article className="result-card result-card--cost">
+            <h3>Capital deployed</h3>
+            <p>{formatCurrency(summary.grossCost)}</p>
+            <span>
+              {formatCurrency(summary.netCost)} net of premium across {openCount} open position
+              {openCount === 1 ? "" : "s"}
+            </span>
+          </article>
+          <article className="result-card result-card--income">
+            <h3>Premium collected</h3>
+            <p>{formatCurrency(summary.premiumTotal)}</p>
+            <span>{formatCurrency(summary.netPremiumTotal)} after puts and trading costs</span>
+          </article>
+          <article className="result-card result-card--neutral">
+            <h3>Expected dividends</h3>
+            <p>{formatCurrency(summary.dividendsTotal)}</p>
+            <span>before expiration on shares held</span>
+          </article>
+          <article className="result-card result-card--greeks">
+            <h3>Portfolio Greeks</h3>
+            <p>{formatGreek(summary.positionDelta, 0)} Δ</p>
+            <span>{formatCurrency(summary.dailyThetaTotal)} theta per day</span>
+          </article>
+          <article className="result-card result-card--return">
+            <h3>Weighted annualized return</h3>
+            <p>{formatPercent(summary.weightedAnnualizedReturn)}</p>
+            <span>{formatCurrency(summary.expectedProfitTotal)} expected profit</span>
+          </article>
+        </div>
+
+        {summary.concentration.length ? (
+          <div className="portfolio-section">
+            <h2>Concentration by symbol</h2>
+            <div className="table-scroll">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th scope="col">Symbol</th>
+                    <th scope="col">Positions</th>
+                    <th scope="col">Capital</th>
+                    <th scope="col">Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.concentration.map((item) => (
+                    <tr key={item.symbol}>
+                      <th scope="row">{item.symbol}</th>
+                      <td>{item.positions}</td>
+                      <td>{formatCurrency(item.grossCost)}</td>
+                      <td>
+                        <span className="concentration-bar">
+                          <span style={{ width: `${(item.share * 100).toFixed(1)}%` }} />
+                        </span>
+                        {formatPercent(item.share)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : null}
+
+        {summary.calendar.length ? (
+          <div className="portfolio-section">
+            <h2>Expiration calendar</h2>
+            <p className="helper-text">
+              Weeks holding {HEAVY_WEEK_EXPOSURE * 100}% or more of the covered shares
+              are flagged as heavy assignment exposure.
+            </p>
+            <ol className="expiration-calendar">
+              {summary.calendar.map((week) => (
+                <li
+                  key={week.weekStart}
+                  className={`expiration-week${week.isHeavy ? " is-heavy" : ""}`}
+                >
+                  <div className="expiration-week-header">
+                    <h3>Week of {week.weekStart}</h3>
+                    <span>
+                      {week.coveredShares} shares covered, {formatPercent(week.exposureShare)} of
+                      the portfolio; {week.expectedAssignedShares.toFixed(0)} expected to be called
+                      away for {formatCurrency(week.strikeNotional)} at the strikes
+                    </span>
+                  </div>
+                  <ul>
+                    {week.expirations.map((group) => (
+                      <li key={group.expirationDate}>
+                        <strong>{group.expirationDate}</strong>{" "}
+                        {group.positions.map((position) => position.entry.name).join(", ")}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ) : null}
+
+        {summary.positions.length ? (
+          <div className="portfolio-section">
+            <h2>Positions</h2>
+            <div className="table-scroll">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th scope="col">Position</th>
+                    <th scope="col">Status</th>
+                    <th scope="col">Expiration</th>
+                    <th scope="col">Shares</th>
+                    <th scope="col">Capital</th>
+                    <th scope="col">Premium</th>
+                    <th scope="col">Delta</th>
+                    <th scope="col">Theta / day</th>
+                    <th scope="col">Assignment odds</th>
+                    <th scope="col">Annualized</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.positions.map(({ entry, calculations, isOpen }) => (
+                    <tr key={entry.id} className={isOpen ? undefined : "is-inactive"}>
+                      <th scope="row">{entry.name}</th>
+                      <td>
+                        {entry.status}
+                        {entry.archived ? <small>archived</small> : null}
+                      </td>
+                      <td>{entry.formState.expirationDate}</td>
+                      <td>{calculations.safeShares}</td>
+                      <td>{formatCurrency(calculations.grossCost)}</td>
+                      <td>{formatCurrency(calculations.premiumTotal)}</td>
+                      <td>{formatGreek(calculations.positionDelta, 0)}</td>
+                      <td>{formatCurrency(calculations.dailyThetaTotal)}</td>
+                      <td>{formatPercent(calculations.probabilities.assignmentProbability)}</td>
+                      <td>{formatPercent(calculations.annualizedReturn)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : null}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,361 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { formatDateInput, isValidDateInput } from "../../lib/dates";
+import { formatCurrency, formatPercent } from "../../lib/format";
+import {
+  WHEEL_LEG_KINDS,
+  WHEEL_LEG_LABELS,
+  createWheelLeg,
+  isWheelLegKind,
+  sortWheelLegs,
+  summarizeWheel,
+  type WheelLeg,
+  type WheelLegKind,
+} from "../../lib/wheel";
+import { deleteWheelLeg, loadWheelLegs, saveWheelLeg } from "../../lib/wheel-db";
+
+type LegDraft = {
+  kind: WheelLegKind;
+  date: string;
+  strikePrice: string;
+  premium: string;
+  shares: string;
+};
+
+const getDefaultLegDraft = (): LegDraft => ({
+  kind: "sell-put",
+  date: formatDateInput(new Date()),
+  strikePrice: "",
+  premium: "",
+  shares: "100",
+});
+
+const LEG_KINDS_WITH_PREMIUM: WheelLegKind[] = ["sell-put", "sell-call", "buy-to-close"];
+// Buying to close reuses the open call's strike, so only its premium matters.
+const LEG_KINDS_WITH_STRIKE: WheelLegKind[] = [
+  "sell-put",
+  "put-assigned",
+  "sell-call",
+  "called-away",
+];
+
+export default function WheelPage() {
+  const [legs, setLegs] = useState<WheelLeg[]>([]);
+  const [symbol, setSymbol] = useState("AAPL");
+  const [draft, setDraft] = useState<LegDraft>(getDefaultLegDraft);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    loadWheelLegs()
+      .then((loadedLegs) => {
+        if (isCancelled) {
+          return;
+        }
+        setLegs(loadedLegs);
+        if (loadedLegs.length) {
+          setSymbol(sortWheelLegs(loadedLegs)[loadedLegs.length - 1].symbol);
+        }
+      })
+      .catch(() => {
+        if (!isCancelled) {
+          setError("Wheel history is unavailable in this browser; changes will not persist.");
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const symbols = useMemo(
+    () => Array.from(new Set(legs.map((leg) => leg.symbol))).sort(),
+    [legs],
+  );
+  const symbolLegs = useMemo(
+    () => sortWheelLegs(legs.filter((leg) => leg.symbol === symbol)),
+    [legs, symbol],
+  );
+  const summary = useMemo(() => summarizeWheel(symbolLegs), [symbolLegs]);
+
+  const handleDraftChange =
+    (field: keyof LegDraft) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      const { value } = event.target;
+      if (field === "kind" && !isWheelLegKind(value)) {
+        return;
+      }
+      setDraft((prev) => ({ ...prev, [field]: value }));
+    };
+
+  const handleAddLeg = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const strikePrice = Number.parseFloat(draft.strikePrice);
+    const premium = Number.parseFloat(draft.premium);
+    const shares = Number.parseInt(draft.shares, 10);
+    const needsPremium = LEG_KINDS_WITH_PREMIUM.includes(draft.kind);
+    const needsStrike = LEG_KINDS_WITH_STRIKE.includes(draft.kind);
+
+    if (!symbol.trim()) {
+      setError("Enter a symbol before adding legs.");
+      return;
+    }
+    if (!isValidDateInput(draft.date)) {
+      setError("Enter the date of this leg.");
+      return;
+    }
+    if (needsStrike && (!Number.isFinite(strikePrice) || strikePrice <= 0)) {
+      setError("Enter the strike price for this leg.");
+      return;
+    }
+    if (needsPremium && (!Number.isFinite(premium) || premium < 0)) {
+      setError("Enter the premium per share for this leg.");
+      return;
+    }
+    if (!Number.isFinite(shares) || shares <= 0) {
+      setError("Enter the number of shares covered by this leg.");
+      return;
+    }
+
+    const leg = createWheelLeg({
+      symbol: symbol.trim().toUpperCase(),
+      kind: draft.kind,
+      date: draft.date,
+      strikePrice: needsStrike ? strikePrice : 0,
+      premium: needsPremium ? premium : 0,
+      shares,
+    });
+
+    setError(null);
+    setLegs((prev) => [...prev, leg]);
+    setDraft((prev) => ({ ...getDefaultLegDraft(), shares: prev.shares }));
+    saveWheelLeg(leg).catch(() => setError("Could not save the leg."));
+  };
+
+  const handleDeleteLeg = (id: string) => {
+    setLegs((prev) => prev.filter((leg) => leg.id !== id));
+    deleteWheelLeg(id).catch(() => setError("Could not delete the leg."));
+  };
+
+  return (
+    <main className="page">
+      <section className="hero">
+        <div>
+          <p className="eyebrow">
+            <Link href="/">Options Planner</Link>
+          </p>
+          <h1>Wheel Tracker</h1>
+          <p className="lede">
+            Log each put, assignment and call to follow your adjusted cost basis and the
+            premium collected across wheel cycles.
+          </p>
+        </div>
+        <div className="hero-card">
+          <h2>Strategy snapshot</h2>
+          <ul>
+            <li>Sell puts until assigned.</li>
+            <li>Sell calls on the shares until called away.</li>
+            <li>Every premium lowers the basis of the next leg.</li>
+          </ul>
+        </div>
+      </section>
+
+      <section className="panel wheel">
+        <div className="wheel-symbols">
+          <div className="field">
+            <label htmlFor="wheelSymbol">Stock symbol</label>
+            <div className="input-wrap">
+              <input
+                id="wheelSymbol"
+                type="text"
+                value={symbol}
+                maxLength={10}
+                list="wheelSymbols"
+                autoCapitalize="characters"
+                onChange={(event) => setSymbol(event.target.value.toUpperCase())}
+              />
+              <datalist id="wheelSymbols">
+                {symbols.map((item) => (
+                  <option key={item} value={item} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+        </div>
+
+        <form className="wheel-leg-form" onSubmit={handleAddLeg}>
+          <div className="field">
+            <label htmlFor="legKind">Leg</label>
+            <select id="legKind" value={draft.kind} onChange={handleDraftChange("kind")}>
+              {WHEEL_LEG_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {WHEEL_LEG_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="field">
+            <label htmlFor="legDate">Date</label>
+            <input id="legDate" type="date" value={draft.date} onChange={handleDraftChange("date")} />
+          </div>
+          <div className="field">
+            <label htmlFor="legStrike">Strike</label>
+            <input
+              id="legStrike"
+              type="number"
+              step="0.5"
+              value={draft.strikePrice}
+              disabled={!LEG_KINDS_WITH_STRIKE.includes(draft.kind)}
+              onChange={handleDraftChange("strikePrice")}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="legPremium">Premium / share</label>
+            <input
+              id="legPremium"
+              type="number"
+              step="0.01"
+              value={draft.premium}
+              disabled={!LEG_KINDS_WITH_PREMIUM.includes(draft.kind)}
+              onChange={handleDraftChange("premium")}
+            />
+          </div>
+          <div className="field">
+            <label htmlFor="legShares">Shares</label>
+            <input
+              id="legShares"
+              type="number"
+              step="100"
+              value={draft.shares}
+              onChange={handleDraftChange("shares")}
+            />
+          </div>
+          <button className="primary" type="submit">
+            Add leg
+          </button>
+        </form>
+        {error ? <p className="form-errors">{error}</p> : null}
+
+        <div className="results">
+          <article className="result-card result-card--neutral">
+            <h3>Adjusted cost basis</h3>
+            <p>
+              {summary.adjustedCostBasis === null
+                ? "—"
+                : formatCurrency(summary.adjustedCostBasis)}
+            </p>
+            <span>
+              {summary.sharesHeld
+                ? `${summary.sharesHeld} shares held`
+                : "No shares held right now"}
+            </span>
+          </article>
+          <article className="result-card result-card--income">
+            <h3>Premium collected</h3>
+            <p>{formatCurrency(summary.cumulativePremium)}</p>
+            <span>
+              across {summary.cycles.length} cycle{summary.cycles.length === 1 ? "" : "s"}
+            </span>
+          </article>
+          <article className="result-card result-card--profit">
+            <h3>Realized P&amp;L</h3>
+            <p>{formatCurrency(summary.realizedPnl)}</p>
+            <span>premium plus closed share gains</span>
+          </article>
+          <article className="result-card result-card--return">
+            <h3>Annualized yield</h3>
+            <p>{formatPercent(summary.annualizedYield)}</p>
+            <span>
+              {formatPercent(summary.totalReturn)} on {formatCurrency(summary.capitalDeployed)}{" "}
+              over {summary.daysActive} days
+            </span>
+          </article>
+        </div>
+
+        {summary.cycles.length ? (
+          <div className="table-scroll">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th scope="col">Cycle</th>
+                  <th scope="col">Started</th>
+                  <th scope="col">Ended</th>
+                  <th scope="col">Capital</th>
+                  <th scope="col">Premium</th>
+                  <th scope="col">Realized P&amp;L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.cycles.map((cycle) => (
+                  <tr key={cycle.index}>
+                    <th scope="row">#{cycle.index}</th>
+                    <td>{cycle.startDate}</td>
+                    <td>{cycle.endDate ?? "open"}</td>
+                    <td>{formatCurrency(cycle.capital)}</td>
+                    <td>{formatCurrency(cycle.premiumCollected)}</td>
+                    <td>{formatCurrency(cycle.realizedPnl)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+
+        {symbolLegs.length ? (
+          <div className="table-scroll">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th scope="col">Date</th>
+                  <th scope="col">Leg</th>
+                  <th scope="col">Strike</th>
+                  <th scope="col">Premium</th>
+                  <th scope="col">Shares</th>
+                  <th scope="col">
+                    <span className="visually-hidden">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {symbolLegs.map((leg) => (
+                  <tr key={leg.id}>
+                    <td>{leg.date}</td>
+                    <td>{WHEEL_LEG_LABELS[leg.kind]}</td>
+                    <td>{leg.strikePrice ? formatCurrency(leg.strikePrice) : "—"}</td>
+                    <td>{leg.premium ? formatCurrency(leg.premium) : "—"}</td>
+                    <td>{leg.shares}</td>
+                    <td className="data-table-actions">
+                      <button
+                        className="text-button"
+                        type="button"
+                        onClick={() => handleDeleteLeg(leg.id)}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="helper-text">No legs logged for {symbol || "this symbol"} yet.</p>
+        )}
+
+        {summary.basisBeforeOpenCall !== null ? (
+          <p className="helper-text">
+            The covered call planner offers{" "}
+            {summary.basisBeforeOpenCall === summary.adjustedCostBasis
+              ? "this basis"
+              : `${formatCurrency(summary.basisBeforeOpenCall)}, this basis before the open ` +
+                "call's premium,"}{" "}
+            as the break-even override when its symbol is {symbol}.
+          </p>
+        ) : null}
+      </section>
+    </main>
+  );
+}
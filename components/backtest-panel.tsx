@@ -0,0 +1,329 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  getDefaultBacktestRule,
+  isExpirationHandling,
+  type BacktestRequest,
+  type BacktestResponse,
+  type BacktestResult,
+  type EquityPoint,
+  type ExpirationHandling,
+} from "../lib/backtest";
+import { formatCurrency, formatPercent } from "../lib/format";
+import type { PriceBar } from "../lib/price-history";
+
+type RuleDraft = {
+  daysToExpiration: string;
+  otmPct: string;
+  volatilityLookback: string;
+  expirationHandling: ExpirationHandling;
+};
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 72 };
+const TICK_COUNT = 4;
+
+const toRuleDraft = (): RuleDraft => {
+  const rule = getDefaultBacktestRule();
+  return {
+    daysToExpiration: String(rule.daysToExpiration),
+    otmPct: String(rule.otmPct),
+    volatilityLookback: String(rule.volatilityLookback),
+    expirationHandling: rule.expirationHandling,
+  };
+};
+
+function EquityChart({ points }: { points: EquityPoint[] }) {
+  const values = points.flatMap((point) => [point.equity, point.buyAndHold]);
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+  const range = maxValue - minValue || 1;
+  const toX = (index: number) =>
+    PADDING.left +
+    (index / Math.max(1, points.length - 1)) * (CHART_WIDTH - PADDING.left - PADDING.right);
+  const toY = (value: number) =>
+    PADDING.top +
+    (1 - (value - minValue) / range) * (CHART_HEIGHT - PADDING.top - PADDING.bottom);
+  const toPath = (getValue: (point: EquityPoint) => number) =>
+    points
+      .map(
+        (point, index) =>
+          `${index === 0 ? "M" : "L"}${toX(index).toFixed(2)},${toY(getValue(point)).toFixed(2)}`,
+      )
+      .join(" ");
+  const ticks = Array.from(
+    { length: TICK_COUNT + 1 },
+    (_, index) => minValue + (range * index) / TICK_COUNT,
+  );
+
+  return (
+    <>
+      <svg
+        className="payoff-svg"
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label="Backtest equity curve compared with buy and hold"
+      >
+        {ticks.map((tick) => (
+          <g key={tick} className="payoff-grid">
+            <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={toY(tick)} y2={toY(tick)} />
+            <text x={PADDING.left - 8} y={toY(tick)} textAnchor="end" dominantBaseline="middle">
+              {formatCurrency(tick)}
+            </text>
+          </g>
+        ))}
+        <text className="payoff-axis-label" x={PADDING.left} y={CHART_HEIGHT - 8}>
+          {points[0].date}
+        </text>
+        <text
+          className="payoff-axis-label"
+          x={CHART_WIDTH - PADDING.right}
+          y={CHART_HEIGHT - 8}
+          textAnchor="end"
+        >
+          {points[points.length - 1].date}
+        </text>
+        <path className="payoff-curve payoff-curve--hold" d={toPath((point) => point.buyAndHold)} />
+        <path className="payoff-curve payoff-curve--strategy" d={toPath((point) => point.equity)} />
+      </svg>
+      <div className="payoff-legend">
+        <span className="payoff-legend-item payoff-legend-item--strategy">Covered call rule</span>
+        <span className="payoff-legend-item payoff-legend-item--hold">Buy and hold</span>
+      </div>
+    </>
+  );
+}
+
+export default function BacktestPanel({
+  bars,
+  riskFreeRate,
+}: {
+  bars: PriceBar[];
+  riskFreeRate: number;
+}) {
+  const [draft, setDraft] = useState<RuleDraft>(toRuleDraft);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  useEffect(() => {
+    setResult(null);
+  }, [bars]);
+
+  const cycleSummary = useMemo(() => {
+    if (!result) {
+      return null;
+    }
+    const expired = result.cycles.filter((cycle) => cycle.outcome === "expired").length;
+    const rolled = result.cycles.filter((cycle) => cycle.outcome === "rolled").length;
+    return { expired, rolled };
+  }, [result]);
+
+  const handleChange =
+    (field: keyof RuleDraft) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      const { value } = event.target;
+      if (field === "expirationHandling" && !isExpirationHandling(value)) {
+        return;
+      }
+      setDraft((prev) => ({ ...prev, [field]: value }));
+    };
+
+  const handleRun = () => {
+    const daysToExpiration = Number.parseInt(draft.daysToExpiration, 10);
+    const otmPct = Number.parseFloat(draft.otmPct);
+    const volatilityLookback = Number.parseInt(draft.volatilityLookback, 10);
+
+    if (!Number.isFinite(daysToExpiration) || daysToExpiration <= 0) {
+      setError("Enter the days to expiration for each cycle.");
+      return;
+    }
+    if (!Number.isFinite(otmPct)) {
+      setError("Enter how far out of the money to sell the call.");
+      return;
+    }
+    if (!Number.isFinite(volatilityLookback) || volatilityLookback < 2) {
+      setError("Use at least 2 days to estimate historical volatility.");
+      return;
+    }
+
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL("../lib/backtest.worker.ts", import.meta.url));
+    workerRef.current = worker;
+    setIsRunning(true);
+    setError(null);
+
+    worker.onmessage = (event: MessageEvent<BacktestResponse>) => {
+      if (event.data.ok) {
+        setResult(event.data.result);
+      } else {
+        setResult(null);
+        setError(event.data.error);
+      }
+      setIsRunning(false);
+      worker.terminate();
+      workerRef.current = null;
+    };
+    worker.onerror = () => {
+      setError("The backtest could not run in this browser.");
+      setIsRunning(false);
+      worker.terminate();
+      workerRef.current = null;
+    };
+
+    const request: BacktestRequest = {
+      bars,
+      rule: {
+        daysToExpiration,
+        otmPct,
+        volatilityLookback,
+        riskFreeRate,
+        expirationHandling: draft.expirationHandling,
+      },
+    };
+    worker.postMessage(request);
+  };
+
+  if (!bars.length) {
+    return (
+      <p className="helper-text">
+        Import a daily price history CSV under Advanced technicals to backtest a covered call
+        rule against it.
+      </p>
+    );
+  }
+
+  return (
+    <div className="backtest">
+      <div className="backtest-rule">
+        <div className="field">
+          <label htmlFor="backtestDte">Days to expiration</label>
+          <input
+            id="backtestDte"
+            type="number"
+            step="1"
+            min="1"
+            value={draft.daysToExpiration}
+            onChange={handleChange("daysToExpiration")}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="backtestOtm">Strike above spot</label>
+          <div className="input-wrap">
+            <input
+              id="backtestOtm"
+              type="number"
+              step="0.5"
+              value={draft.otmPct}
+              onChange={handleChange("otmPct")}
+            />
+            <span>%</span>
+          </div>
+        </div>
+        <div className="field">
+          <label htmlFor="backtestLookback">Volatility lookback (days)</label>
+          <input
+            id="backtestLookback"
+            type="number"
+            step="1"
+            min="2"
+            value={draft.volatilityLookback}
+            onChange={handleChange("volatilityLookback")}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="backtestExpiration">In the money at expiry</label>
+          <select
+            id="backtestExpiration"
+            value={draft.expirationHandling}
+            onChange={handleChange("expirationHandling")}
+          >
+            <option value="assign">Accept assignment, rebuy next open</option>
+            <option value="roll">Buy back and roll</option>
+          </select>
+        </div>
+        <button className="primary" type="button" onClick={handleRun} disabled={isRunning}>
+          {isRunning ? "Running…" : "Run backtest"}
+        </button>
+      </div>
+      <p className="helper-text">
+        {bars.length} daily bars from {bars[0].date} to {bars[bars.length - 1].date}; premium is
+        priced with Black-Scholes from trailing historical volatility, one contract per cycle.
+      </p>
+      {error ? <p className="form-errors">{error}</p> : null}
+
+      {result && cycleSummary ? (
+        <>
+          <div className="results">
+            <article className="result-card result-card--return">
+              <h3>Strategy return</h3>
+              <p>{formatPercent(result.totalReturn)}</p>
+              <span>{formatPercent(result.annualizedReturn)} annualized</span>
+            </article>
+            <article className="result-card result-card--neutral">
+              <h3>Buy and hold</h3>
+              <p>{formatPercent(result.buyAndHoldReturn)}</p>
+              <span>{formatPercent(result.buyAndHoldAnnualizedReturn)} annualized</span>
+            </article>
+            <article className="result-card result-card--collar">
+              <h3>Max drawdown</h3>
+              <p>{formatPercent(-result.maxDrawdown)}</p>
+              <span>{formatPercent(-result.buyAndHoldMaxDrawdown)} buying and holding</span>
+            </article>
+            <article className="result-card result-card--income">
+              <h3>Premium income</h3>
+              <p>{formatCurrency(result.premiumCollected)}</p>
+              <span>
+                {formatCurrency(result.averagePremiumPerCycle)} per cycle over{" "}
+                {result.cycles.length} cycles
+              </span>
+            </article>
+            <article className="result-card result-card--odds">
+              <h3>Assignments</h3>
+              <p>{result.assignmentCount}</p>
+              <span>
+                {cycleSummary.expired} expired worthless · {cycleSummary.rolled} rolled
+              </span>
+            </article>
+          </div>
+
+          <EquityChart points={result.equityCurve} />
+
+          <div className="table-scroll">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th scope="col">Sold</th>
+                  <th scope="col">Expiry</th>
+                  <th scope="col">Strike</th>
+                  <th scope="col">Premium</th>
+                  <th scope="col">Vol</th>
+                  <th scope="col">Close</th>
+                  <th scope="col">Outcome</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.cycles.map((cycle) => (
+                  <tr key={cycle.entryDate}>
+                    <td>{cycle.entryDate}</td>
+                    <td>{cycle.expirationDate}</td>
+                    <td>{formatCurrency(cycle.strikePrice)}</td>
+                    <td>{formatCurrency(cycle.premium * 100)}</td>
+                    <td>{formatPercent(cycle.volatility)}</td>
+                    <td>{formatCurrency(cycle.closePrice)}</td>
+                    <td>{cycle.outcome}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  BROKER_LAYOUTS,
+  BROKER_TRADE_LABELS,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  detectBrokerLayout,
+  getLayoutMapping,
+  parseBrokerTrades,
+  readBrokerCsv,
+  reconcileBrokerTrades,
+  type BrokerCsv,
+  type ColumnMapping,
+} from "../lib/broker-import";
+import { formatCurrency } from "../lib/format";
+import type { JournalEntry } from "../lib/journal";
+
+const GENERIC_LAYOUT_ID = "generic";
+
+export default function BrokerImport({
+  entries,
+  onApply,
+}: {
+  entries: JournalEntry[];
+  onApply: (changedEntries: JournalEntry[]) => void;
+}) {
+  const [csv, setCsv] = useState<BrokerCsv | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [layoutId, setLayoutId] = useState(GENERIC_LAYOUT_ID);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const parsed = useMemo(
+    () => (csv && mapping ? parseBrokerTrades(csv, mapping) : null),
+    [csv, mapping],
+  );
+  const preview = useMemo(
+    () => (parsed?.trades.length ? reconcileBrokerTrades(parsed.trades, entries) : null),
+    [entries, parsed],
+  );
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    input.value = "";
+    if (!file) {
+      return;
+    }
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setCsv(null);
+      setStatus(null);
+      setReadError(`Could not read ${file.name}.`);
+      return;
+    }
+
+    const nextCsv = readBrokerCsv(text);
+    setStatus(null);
+    if (!nextCsv) {
+      setCsv(null);
+      setReadError("Could not find a header row naming the date, action and symbol columns.");
+      return;
+    }
+
+    const layout = detectBrokerLayout(nextCsv.headers);
+    setReadError(null);
+    setCsv(nextCsv);
+    setFileName(file.name);
+    setLayoutId(layout ? layout.id : GENERIC_LAYOUT_ID);
+    setMapping(getLayoutMapping(nextCsv.headers, layout));
+  };
+
+  const handleLayoutChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const layout = BROKER_LAYOUTS.find((item) => item.id === event.target.value) ?? null;
+    setLayoutId(layout ? layout.id : GENERIC_LAYOUT_ID);
+    if (csv) {
+      setMapping(getLayoutMapping(csv.headers, layout));
+    }
+  };
+
+  const handleApply = () => {
+    if (!preview) {
+      return;
+    }
+
+    onApply(preview.entries);
+    setStatus(
+      `Created ${preview.createdCount} and updated ${preview.updatedCount} plan${
+        preview.createdCount + preview.updatedCount === 1 ? "" : "s"
+      } from ${fileName}.`,
+    );
+    setCsv(null);
+    setMapping(null);
+  };
+
+  return (
+    <div className="broker-import">
+      <div className="simulation-inputs">
+        <div className="field">
+          <label htmlFor="brokerFile">Activity export (CSV)</label>
+          <input id="brokerFile" type="file" accept=".csv,text/csv" onChange={handleFile} />
+        </div>
+        <div className="field">
+          <label htmlFor="brokerLayout">Layout</label>
+          <select
+            id="brokerLayout"
+            value={layoutId}
+            onChange={handleLayoutChange}
+            disabled={!csv}
+          >
+            {BROKER_LAYOUTS.map((layout) => (
+              <option key={layout.id} value={layout.id}>
+                {layout.label}
+              </option>
+            ))}
+            <option value={GENERIC_LAYOUT_ID}>Other (map columns)</option>
+          </select>
+        </div>
+      </div>
+      <p className="helper-text">
+        {status ??
+          "Stock buys, calls sold to open, buy-to-close, expirations and assignments update the matching plans; new contracts become new plans."}
+      </p>
+      {readError ? <p className="form-errors">{readError}</p> : null}
+
+      {csv && mapping && layoutId === GENERIC_LAYOUT_ID ? (
+        <fieldset className="form-fieldset">
+          <legend>Columns</legend>
+          <div className="broker-mapping">
+            {IMPORT_FIELDS.map((field) => (
+              <div className="field" key={field}>
+                <label htmlFor={`brokerColumn-${field}`}>{IMPORT_FIELD_LABELS[field]}</label>
+                <select
+                  id={`brokerColumn-${field}`}
+                  value={mapping[field] ?? ""}
+                  onChange={(event) => {
+                    const { value } = event.target;
+                    setMapping((prev) =>
+                      prev ? { ...prev, [field]: value === "" ? null : Number(value) } : prev,
+                    );
+                  }}
+                >
+                  <option value="">—</option>
+                  {csv.headers.map((header, index) => (
+                    <option key={`${header}-${index}`} value={index}>
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </fieldset>
+      ) : null}
+
+      {parsed?.errors.length || preview?.messages.length ? (
+        <ul className="form-errors">
+          {[...(parsed?.errors ?? []), ...(preview?.messages ?? [])].slice(0, 8).map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      ) : null}
+
+      {parsed?.trades.length ? (
+        <div className="table-scroll">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th scope="col">Date</th>
+                <th scope="col">Activity</th>
+                <th scope="col">Symbol</th>
+                <th scope="col">Contract</th>
+                <th scope="col">Quantity</th>
+                <th scope="col">Price</th>
+                <th scope="col">Fees</th>
+              </tr>
+            </thead>
+            <tbody>
+              {parsed.trades.map((trade) => (
+                <tr key={trade.line}>
+                  <td>{trade.date}</td>
+                  <td>{BROKER_TRADE_LABELS[trade.kind]}</td>
+                  <td>{trade.symbol}</td>
+                  <td>
+                    {trade.option
+                      ? `${trade.option.expirationDate} ${formatCurrency(trade.option.strikePrice)} ${trade.option.type}`
+                      : "—"}
+                  </td>
+                  <td>{trade.quantity}</td>
+                  <td>{formatCurrency(trade.price)}</td>
+                  <td>{trade.fees ? formatCurrency(trade.fees) : "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : csv && !parsed?.errors.length ? (
+        <p className="helper-text">No stock or option trades found in {fileName}.</p>
+      ) : null}
+
+      {preview && preview.entries.length ? (
+        <button className="primary" type="button" onClick={handleApply}>
+          Create {preview.createdCount} and update {preview.updatedCount} plan
+          {preview.createdCount + preview.updatedCount === 1 ? "" : "s"}
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import {
+  getPlanOccSymbol,
+  validateOptionSymbol,
+  type OptionContract,
+  type OptionType,
+} from "../lib/occ-symbol";
+
+export default function ContractSymbolField({
+  optionType,
+  symbol,
+  expirationDate,
+  strikePrice,
+  onApply,
+}: {
+  optionType: OptionType;
+  symbol: string;
+  expirationDate: string;
+  strikePrice: string;
+  onApply: (contract: OptionContract) => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const canonical = getPlanOccSymbol({ symbol, expirationDate, strikePrice }, optionType);
+
+  const applyDraft = () => {
+    if (!draft.trim()) {
+      setError(null);
+      return;
+    }
+
+    const result = validateOptionSymbol(draft, optionType);
+    if (result.error !== null) {
+      setError(result.error);
+      return;
+    }
+
+    onApply(result.contract);
+    setDraft("");
+    setError(null);
+  };
+
+  return (
+    <div className="field contract-symbol">
+      <label htmlFor="contractSymbol">Contract symbol</label>
+      <div className="contract-symbol-input">
+        <div className="input-wrap">
+          <input
+            id="contractSymbol"
+            type="text"
+            value={draft}
+            placeholder={canonical ?? "e.g. AAPL 12/20/24 105 C"}
+            autoCapitalize="characters"
+            spellCheck={false}
+            aria-invalid={error ? true : undefined}
+            aria-describedby="contractSymbolHelp"
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                event.preventDefault();
+                applyDraft();
+              }
+            }}
+          />
+        </div>
+        <button className="text-button" type="button" onClick={applyDraft}>
+          Apply
+        </button>
+      </div>
+      <p id="contractSymbolHelp" className="helper-text">
+        {canonical ? (
+          <>
+            OCC: <code>{canonical}</code>.{" "}
+          </>
+        ) : null}
+        Paste an OCC symbol or shorthand like <code>.AAPL241220C105</code> to fill the symbol,
+        strike and expiration.
+      </p>
+      {error ? <p className="form-errors">{error}</p> : null}
+    </div>
+  );
+}
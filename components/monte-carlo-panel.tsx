@@ -0,0 +1,291 @@
+"use client";
+
+import { useState } from "react";
+import type { CoveredCallCalculations } from "../lib/covered-call";
+import { calculateDaysUntilExpiration } from "../lib/dates";
+import { formatCurrency, formatPercent } from "../lib/format";
+import {
+  PRICE_MODELS,
+  PRICE_MODEL_LABELS,
+  getDefaultMonteCarloOptions,
+  isPriceModel,
+  simulateCoveredCall,
+  toMonteCarloPosition,
+  type HistogramBin,
+  type MonteCarloResult,
+  type PriceModel,
+} from "../lib/monte-carlo";
+
+type SimulationDraft = {
+  paths: string;
+  seed: string;
+  model: PriceModel;
+  exDividendDate: string;
+  jumpsPerYear: string;
+  jumpMeanPct: string;
+  jumpVolatilityPct: string;
+};
+
+const MAX_PATHS = 50000;
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 16 };
+
+const toSimulationDraft = (): SimulationDraft => {
+  const options = getDefaultMonteCarloOptions();
+  return {
+    paths: String(options.paths),
+    seed: String(options.seed),
+    model: options.model,
+    exDividendDate: "",
+    jumpsPerYear: String(options.jumpsPerYear),
+    jumpMeanPct: String(options.jumpMean * 100),
+    jumpVolatilityPct: String(options.jumpVolatility * 100),
+  };
+};
+
+function Histogram({ bins }: { bins: HistogramBin[] }) {
+  const maxCount = Math.max(1, ...bins.map((bin) => bin.count));
+  const barWidth = (CHART_WIDTH - PADDING.left - PADDING.right) / bins.length;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+
+  return (
+    <svg
+      className="payoff-svg"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label="Distribution of simulated profit and loss at expiration"
+    >
+      {bins.map((bin, index) => {
+        const height = (bin.count / maxCount) * plotHeight;
+        return (
+          <rect
+            key={bin.from}
+            className={`histogram-bar ${
+              bin.to <= 0 ? "histogram-bar--loss" : "histogram-bar--profit"
+            }`}
+            x={PADDING.left + index * barWidth + 1}
+            y={PADDING.top + plotHeight - height}
+            width={Math.max(1, barWidth - 2)}
+            height={height}
+          >
+            <title>
+              {formatCurrency(bin.from)} to {formatCurrency(bin.to)}: {bin.count} paths
+            </title>
+          </rect>
+        );
+      })}
+      <text className="payoff-axis-label" x={PADDING.left} y={CHART_HEIGHT - 8}>
+        {formatCurrency(bins[0].from)}
+      </text>
+      <text
+        className="payoff-axis-label"
+        x={CHART_WIDTH - PADDING.right}
+        y={CHART_HEIGHT - 8}
+        textAnchor="end"
+      >
+        {formatCurrency(bins[bins.length - 1].to)}
+      </text>
+    </svg>
+  );
+}
+
+export default function MonteCarloPanel({
+  calculations,
+  expirationDate,
+}: {
+  calculations: CoveredCallCalculations;
+  expirationDate: string;
+}) {
+  const [draft, setDraft] = useState<SimulationDraft>(toSimulationDraft);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const scheduledCount = calculations.countedDividends.length;
+  const hasExDates = scheduledCount > 0 || draft.exDividendDate !== "";
+
+  const handleChange =
+    (field: keyof SimulationDraft) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      const { value } = event.target;
+      if (field === "model" && !isPriceModel(value)) {
+        return;
+      }
+      setDraft((prev) => ({ ...prev, [field]: value }));
+    };
+
+  const handleRun = () => {
+    const paths = Number.parseInt(draft.paths, 10);
+    const seed = Number.parseInt(draft.seed, 10);
+    const defaults = getDefaultMonteCarloOptions();
+    const toNumber = (value: string, fallback: number) => {
+      const parsed = Number.parseFloat(value);
+      return Number.isFinite(parsed) ? parsed : fallback;
+    };
+
+    if (!Number.isFinite(paths) || paths < 100 || paths > MAX_PATHS) {
+      setError(`Simulate between 100 and ${MAX_PATHS} paths.`);
+      return;
+    }
+    if (calculations.daysUntilExpiration <= 0 || calculations.safeStockPrice <= 0) {
+      setError("Enter a stock price and a future expiration date first.");
+      return;
+    }
+
+    setError(null);
+    setResult(
+      simulateCoveredCall(toMonteCarloPosition(calculations), {
+        paths,
+        seed: Number.isFinite(seed) ? seed : defaults.seed,
+        model: draft.model,
+        exDividendDay: draft.exDividendDate
+          ? calculateDaysUntilExpiration(draft.exDividendDate)
+          : null,
+        jumpsPerYear: Math.max(0, toNumber(draft.jumpsPerYear, defaults.jumpsPerYear)),
+        jumpMean: toNumber(draft.jumpMeanPct, defaults.jumpMean * 100) / 100,
+        jumpVolatility:
+          Math.max(0, toNumber(draft.jumpVolatilityPct, defaults.jumpVolatility * 100)) / 100,
+      }),
+    );
+  };
+
+  return (
+    <div className="simulation">
+      <div className="simulation-inputs">
+        <div className="field">
+          <label htmlFor="mcPaths">Paths</label>
+          <input
+            id="mcPaths"
+            type="number"
+            step="1000"
+            min="100"
+            max={MAX_PATHS}
+            value={draft.paths}
+            onChange={handleChange("paths")}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="mcSeed">Seed</label>
+          <input
+            id="mcSeed"
+            type="number"
+            step="1"
+            value={draft.seed}
+            onChange={handleChange("seed")}
+          />
+        </div>
+        <div className="field">
+          <label htmlFor="mcModel">Price model</label>
+          <select id="mcModel" value={draft.model} onChange={handleChange("model")}>
+            {PRICE_MODELS.map((model) => (
+              <option key={model} value={model}>
+                {PRICE_MODEL_LABELS[model]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {scheduledCount ? null : (
+          <div className="field">
+            <label htmlFor="mcExDividend">Ex-dividend date</label>
+            <input
+              id="mcExDividend"
+              type="date"
+              max={expirationDate}
+              value={draft.exDividendDate}
+              onChange={handleChange("exDividendDate")}
+            />
+          </div>
+        )}
+        {draft.model === "jump" ? (
+          <>
+            <div className="field">
+              <label htmlFor="mcJumps">Jumps per year</label>
+              <input
+                id="mcJumps"
+                type="number"
+                step="0.5"
+                min="0"
+                value={draft.jumpsPerYear}
+                onChange={handleChange("jumpsPerYear")}
+              />
+            </div>
+            <div className="field">
+              <label htmlFor="mcJumpMean">Average jump</label>
+              <div className="input-wrap">
+                <input
+                  id="mcJumpMean"
+                  type="number"
+                  step="0.5"
+                  value={draft.jumpMeanPct}
+                  onChange={handleChange("jumpMeanPct")}
+                />
+                <span>%</span>
+              </div>
+            </div>
+            <div className="field">
+              <label htmlFor="mcJumpVol">Jump volatility</label>
+              <div className="input-wrap">
+                <input
+                  id="mcJumpVol"
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={draft.jumpVolatilityPct}
+                  onChange={handleChange("jumpVolatilityPct")}
+                />
+                <span>%</span>
+              </div>
+            </div>
+          </>
+        ) : null}
+        <button className="primary" type="button" onClick={handleRun}>
+          Run simulation
+        </button>
+      </div>
+      <p className="helper-text">
+        Daily paths to expiration at {calculations.safeImpliedVolatility.toFixed(0)}% IV.{" "}
+        {scheduledCount
+          ? `Each of the plan's ${scheduledCount} dated dividend${
+              scheduledCount === 1 ? "" : "s"
+            } before expiration is an early-exercise check: in-the-money`
+          : "With an ex-dividend date, in-the-money"}{" "}
+        calls whose time value is below the dividend are assumed to be exercised the day before.
+      </p>
+      {error ? <p className="form-errors">{error}</p> : null}
+
+      {result ? (
+        <>
+          <div className="results">
+            <article className="result-card result-card--profit">
+              <h3>Mean P&amp;L</h3>
+              <p>{formatCurrency(result.mean)}</p>
+              <span>median {formatCurrency(result.median)}</span>
+            </article>
+            <article className="result-card result-card--neutral">
+              <h3>5th–95th percentile</h3>
+              <p>
+                {formatCurrency(result.percentile5)} to {formatCurrency(result.percentile95)}
+              </p>
+              <span>90% of {result.paths} simulated outcomes</span>
+            </article>
+            <article className="result-card result-card--collar">
+              <h3>Probability of loss</h3>
+              <p>{formatPercent(result.probabilityOfLoss)}</p>
+              <span>paths that finish below zero</span>
+            </article>
+            <article className="result-card result-card--odds">
+              <h3>Early assignment</h3>
+              <p>{formatPercent(result.earlyAssignmentProbability)}</p>
+              <span>
+                {hasExDates
+                  ? "paths called away before an ex-dividend date"
+                  : "add an ex-dividend date to model it"}
+              </span>
+            </article>
+          </div>
+          <Histogram bins={result.histogram} />
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { FormState } from "../lib/covered-call";
+import { formatCurrency, formatPercent, formatPercentValue } from "../lib/format";
+import {
+  createChainRow,
+  evaluateChainRows,
+  findBestRowIdsByExpiration,
+  parseChainText,
+  sortChainResults,
+  type ChainRow,
+  type ChainSortKey,
+} from "../lib/option-chain";
+import type { ScoringProfile } from "../lib/scoring";
+
+const COLUMNS: Array<{ key: ChainSortKey; label: string }> = [
+  { key: "expirationDate", label: "Expiration" },
+  { key: "strikePrice", label: "Strike" },
+  { key: "annualizedReturn", label: "Annualized" },
+  { key: "downsideToBreakEvenPct", label: "Downside cushion" },
+  { key: "upsideCapPct", label: "Upside cap" },
+  { key: "score", label: "Quality" },
+];
+
+export default function OptionChain({
+  formState,
+  scoringProfile,
+  onPromote,
+}: {
+  formState: FormState;
+  scoringProfile: ScoringProfile;
+  onPromote: (row: ChainRow) => void;
+}) {
+  const [rows, setRows] = useState<ChainRow[]>(() => [
+    createChainRow({
+      strikePrice: formState.strikePrice,
+      premium: formState.premium,
+      expirationDate: formState.expirationDate,
+    }),
+  ]);
+  const [pasteText, setPasteText] = useState("");
+  const [pasteErrors, setPasteErrors] = useState<string[]>([]);
+  const [sortKey, setSortKey] = useState<ChainSortKey>("score");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+
+  const results = useMemo(
+    () => evaluateChainRows(formState, rows, scoringProfile),
+    [formState, rows, scoringProfile],
+  );
+  const sortedResults = useMemo(
+    () => sortChainResults(results, sortKey, sortDirection),
+    [results, sortDirection, sortKey],
+  );
+  const bestRowIds = useMemo(() => findBestRowIdsByExpiration(results), [results]);
+
+  const handleRowChange =
+    (id: string, field: keyof Omit<ChainRow, "id">) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setRows((prev) =>
+        prev.map((row) => (row.id === id ? { ...row, [field]: event.target.value } : row)),
+      );
+    };
+
+  const handleSort = (key: ChainSortKey) => {
+    if (key === sortKey) {
+      setSortDirection((prev) => (prev === "asc" ? "desc" : "asc"));
+      return;
+    }
+    setSortKey(key);
+    setSortDirection(key === "expirationDate" || key === "strikePrice" ? "asc" : "desc");
+  };
+
+  const renderSortableHeader = (column: (typeof COLUMNS)[number]) => (
+    <th
+      key={column.key}
+      scope="col"
+      aria-sort={
+        sortKey === column.key ? (sortDirection === "asc" ? "ascending" : "descending") : "none"
+      }
+    >
+      <button type="button" onClick={() => handleSort(column.key)}>
+        {column.label}
+        {sortKey === column.key ? (sortDirection === "asc" ? " ▴" : " ▾") : ""}
+      </button>
+    </th>
+  );
+
+  const handlePaste = () => {
+    const { rows: parsedRows, errors } = parseChainText(pasteText);
+    setPasteErrors(errors);
+    if (parsedRows.length) {
+      setRows((prev) => [...prev, ...parsedRows]);
+    }
+    if (!errors.length) {
+      setPasteText("");
+    }
+  };
+
+  return (
+    <div className="option-chain">
+      <div className="option-chain-paste">
+        <label htmlFor="chainPaste">Paste rows (strike, premium, expiration)</label>
+        <textarea
+          id="chainPaste"
+          rows={3}
+          value={pasteText}
+          onChange={(event) => setPasteText(event.target.value)}
+          placeholder={"105, 2.75, 2025-01-17\n110\t1.40\t1/17/2025"}
+        />
+        <div className="planner-controls">
+          <button className="text-button" type="button" onClick={handlePaste}>
+            Add pasted rows
+          </button>
+          <button
+            className="text-button"
+            type="button"
+            onClick={() =>
+              setRows((prev) => [
+                ...prev,
+                createChainRow({ expirationDate: formState.expirationDate }),
+              ])
+            }
+          >
+            Add empty row
+          </button>
+        </div>
+        {pasteErrors.length ? (
+          <ul className="form-errors">
+            {pasteErrors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        ) : null}
+      </div>
+
+      <div className="table-scroll">
+        <table className="data-table">
+          <thead>
+            <tr>
+              {COLUMNS.slice(0, 2).map(renderSortableHeader)}
+              <th scope="col">Premium</th>
+              {COLUMNS.slice(2).map(renderSortableHeader)}
+              <th scope="col">
+                <span className="visually-hidden">Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedResults.map(({ row, calculations }) => (
+              <tr key={row.id} className={bestRowIds.has(row.id) ? "is-best" : undefined}>
+                <td>
+                  <input
+                    aria-label="Expiration"
+                    type="date"
+                    value={row.expirationDate}
+                    onChange={handleRowChange(row.id, "expirationDate")}
+                  />
+                </td>
+                <td>
+                  <input
+                    aria-label="Strike"
+                    type="number"
+                    step="0.5"
+                    value={row.strikePrice}
+                    onChange={handleRowChange(row.id, "strikePrice")}
+                  />
+                </td>
+                <td>
+                  <input
+                    aria-label="Premium"
+                    type="number"
+                    step="0.01"
+                    value={row.premium}
+                    onChange={handleRowChange(row.id, "premium")}
+                  />
+                </td>
+                <td>{formatPercent(calculations.annualizedReturn)}</td>
+                <td>{formatPercentValue(calculations.downsideToBreakEvenPct)}</td>
+                <td>
+                  {formatPercentValue(calculations.upsideCapPct)}
+                  <small>{formatCurrency(calculations.maxProfitPerShare)}/sh max</small>
+                </td>
+                <td>
+                  {calculations.tradeQuality.score} · {calculations.tradeQuality.label}
+                </td>
+                <td className="data-table-actions">
+                  <button className="text-button" type="button" onClick={() => onPromote(row)}>
+                    Use
+                  </button>
+                  <button
+                    className="text-button"
+                    type="button"
+                    onClick={() => setRows((prev) => prev.filter((item) => item.id !== row.id))}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="helper-text">
+        Highlighted rows score best for their expiration. Rows share the symbol, price,
+        shares, dividends and IV from the main form.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { calculateDaysUntilExpiration, formatDateInput } from "../lib/dates";
+import { formatCurrency } from "../lib/format";
+import { buildPayoffCurve, buildPriceGrid, type PayoffPoint } from "../lib/payoff";
+
+export type PayoffMarker = {
+  id: string;
+  // Styling group when several markers share a look, e.g. laddered strikes.
+  kind?: string;
+  label: string;
+  price: number;
+};
+
+type PayoffCurve = {
+  id: "expiration" | "today" | "date";
+  label: string;
+  points: PayoffPoint[];
+};
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 300;
+const PADDING = { top: 20, right: 20, bottom: 36, left: 72 };
+const PLOT_WIDTH = CHART_WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+const SAMPLE_STEPS = 120;
+const TICK_COUNT = 5;
+
+const toPath = (
+  points: PayoffPoint[],
+  toX: (price: number) => number,
+  toY: (profit: number) => number,
+) =>
+  points
+    .map(
+      (point, index) =>
+        `${index === 0 ? "M" : "L"}${toX(point.price).toFixed(2)},${toY(point.profit).toFixed(2)}`,
+    )
+    .join(" ");
+
+const interpolateProfit = (points: PayoffPoint[], price: number) => {
+  if (points.length === 0) {
+    return 0;
+  }
+  if (price <= points[0].price) {
+    return points[0].profit;
+  }
+
+  for (let index = 1; index < points.length; index += 1) {
+    const next = points[index];
+    if (price <= next.price) {
+      const prev = points[index - 1];
+      const weight = (price - prev.price) / (next.price - prev.price);
+      return prev.profit + (next.profit - prev.profit) * weight;
+    }
+  }
+
+  return points[points.length - 1].profit;
+};
+
+export default function PayoffChart({
+  expirationDate,
+  daysUntilExpiration,
+  quantity,
+  markers,
+  getExpirationProfit,
+  getProfitBeforeExpiration,
+}: {
+  expirationDate: string;
+  daysUntilExpiration: number;
+  quantity: number;
+  markers: PayoffMarker[];
+  getExpirationProfit: (price: number) => number;
+  getProfitBeforeExpiration: (price: number, daysRemaining: number) => number;
+}) {
+  const [showToday, setShowToday] = useState(true);
+  const [intermediateDate, setIntermediateDate] = useState("");
+  const [hoverPrice, setHoverPrice] = useState<number | null>(null);
+
+  const intermediateDaysRemaining = intermediateDate
+    ? Math.max(0, daysUntilExpiration - calculateDaysUntilExpiration(intermediateDate))
+    : null;
+
+  const { curves, minPrice, maxPrice, minProfit, maxProfit } = useMemo(() => {
+    const markerPrices = markers.map((marker) => marker.price).filter((price) => price > 0);
+    const lowest = markerPrices.length ? Math.min(...markerPrices) : 0;
+    const highest = markerPrices.length ? Math.max(...markerPrices) : 0;
+    const rangeMin = Math.max(0, lowest * 0.75);
+    const rangeMax = Math.max(rangeMin + 1, highest * 1.25);
+    const prices = buildPriceGrid(rangeMin, rangeMax, SAMPLE_STEPS);
+
+    const nextCurves: PayoffCurve[] = [
+      {
+        id: "expiration",
+        label: "At expiration",
+        points: buildPayoffCurve(prices, (price) => getExpirationProfit(price) * quantity),
+      },
+    ];
+
+    if (showToday && daysUntilExpiration > 0) {
+      nextCurves.push({
+        id: "today",
+        label: "Today",
+        points: buildPayoffCurve(
+          prices,
+          (price) => getProfitBeforeExpiration(price, daysUntilExpiration) * quantity,
+        ),
+      });
+    }
+
+    if (intermediateDaysRemaining !== null && intermediateDaysRemaining > 0) {
+      nextCurves.push({
+        id: "date",
+        label: intermediateDate,
+        points: buildPayoffCurve(
+          prices,
+          (price) => getProfitBeforeExpiration(price, intermediateDaysRemaining) * quantity,
+        ),
+      });
+    }
+
+    const profits = nextCurves.flatMap((curve) => curve.points.map((point) => point.profit));
+    const low = Math.min(0, ...profits);
+    const high = Math.max(0, ...profits);
+    const margin = Math.max(1, (high - low) * 0.08);
+
+    return {
+      curves: nextCurves,
+      minPrice: rangeMin,
+      maxPrice: rangeMax,
+      minProfit: low - margin,
+      maxProfit: high + margin,
+    };
+  }, [
+    daysUntilExpiration,
+    getExpirationProfit,
+    getProfitBeforeExpiration,
+    intermediateDate,
+    intermediateDaysRemaining,
+    markers,
+    quantity,
+    showToday,
+  ]);
+
+  const toX = (price: number) =>
+    PADDING.left + ((price - minPrice) / (maxPrice - minPrice)) * PLOT_WIDTH;
+  const toY = (profit: number) =>
+    PADDING.top + ((maxProfit - profit) / (maxProfit - minProfit)) * PLOT_HEIGHT;
+
+  const priceTicks = buildPriceGrid(minPrice, maxPrice, TICK_COUNT - 1);
+  const profitTicks = buildPriceGrid(minProfit, maxProfit, TICK_COUNT - 1);
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (rect.width <= 0) {
+      return;
+    }
+
+    const x = ((event.clientX - rect.left) / rect.width) * CHART_WIDTH;
+    if (x < PADDING.left || x > CHART_WIDTH - PADDING.right) {
+      setHoverPrice(null);
+      return;
+    }
+
+    setHoverPrice(minPrice + ((x - PADDING.left) / PLOT_WIDTH) * (maxPrice - minPrice));
+  };
+
+  return (
+    <div className="payoff-chart">
+      <div className="payoff-controls">
+        <label className="checkbox-field">
+          <input
+            type="checkbox"
+            checked={showToday}
+            onChange={(event) => setShowToday(event.target.checked)}
+          />
+          Show today
+        </label>
+        <label className="payoff-date-field">
+          <span>Value on</span>
+          <input
+            type="date"
+            value={intermediateDate}
+            min={formatDateInput(new Date())}
+            max={expirationDate}
+            onChange={(event) => setIntermediateDate(event.target.value)}
+          />
+        </label>
+        {intermediateDate ? (
+          <button className="text-button" type="button" onClick={() => setIntermediateDate("")}>
+            Clear date
+          </button>
+        ) : null}
+      </div>
+
+      <svg
+        className="payoff-svg"
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label="Profit and loss by underlying price"
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setHoverPrice(null)}
+      >
+        {profitTicks.map((tick) => (
+          <g key={`y-${tick}`} className="payoff-grid">
+            <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={toY(tick)} y2={toY(tick)} />
+            <text x={PADDING.left - 8} y={toY(tick)} textAnchor="end" dominantBaseline="middle">
+              {formatCurrency(tick)}
+            </text>
+          </g>
+        ))}
+        {priceTicks.map((tick) => (
+          <text
+            key={`x-${tick}`}
+            className="payoff-axis-label"
+            x={toX(tick)}
+            y={CHART_HEIGHT - 12}
+            textAnchor="middle"
+          >
+            {formatCurrency(tick)}
+          </text>
+        ))}
+        <line
+          className="payoff-zero"
+          x1={PADDING.left}
+          x2={CHART_WIDTH - PADDING.right}
+          y1={toY(0)}
+          y2={toY(0)}
+        />
+
+        {markers
+          .filter((marker) => marker.price >= minPrice && marker.price <= maxPrice)
+          .map((marker) => (
+            <g key={marker.id} className={`payoff-marker payoff-marker--${marker.kind ?? marker.id}`}>
+              <line x1={toX(marker.price)} x2={toX(marker.price)} y1={PADDING.top} y2={CHART_HEIGHT - PADDING.bottom} />
+              <text x={toX(marker.price) + 4} y={PADDING.top + 10}>
+                {marker.label}
+              </text>
+            </g>
+          ))}
+
+        {curves.map((curve) => (
+          <path
+            key={curve.id}
+            className={`payoff-curve payoff-curve--${curve.id}`}
+            d={toPath(curve.points, toX, toY)}
+          />
+        ))}
+
+        {hoverPrice !== null ? (
+          <g className="payoff-crosshair">
+            <line x1={toX(hoverPrice)} x2={toX(hoverPrice)} y1={PADDING.top} y2={CHART_HEIGHT - PADDING.bottom} />
+            {curves.map((curve) => (
+              <circle
+                key={curve.id}
+                className={`payoff-dot payoff-dot--${curve.id}`}
+                cx={toX(hoverPrice)}
+                cy={toY(interpolateProfit(curve.points, hoverPrice))}
+                r={4}
+              />
+            ))}
+          </g>
+        ) : null}
+      </svg>
+
+      <div className="payoff-legend" aria-live="polite">
+        {hoverPrice !== null ? <strong>At {formatCurrency(hoverPrice)}</strong> : null}
+        {curves.map((curve) => (
+          <span key={curve.id} className={`payoff-legend-item payoff-legend-item--${curve.id}`}>
+            {curve.label}
+            {hoverPrice !== null
+              ? `: ${formatCurrency(interpolateProfit(curve.points, hoverPrice))}`
+              : null}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ALERT_RULE_DEFAULT_THRESHOLDS,
+  ALERT_RULE_KINDS,
+  ALERT_RULE_LABELS,
+  createAlertRule,
+  isAlertRuleKind,
+  type AlertRule,
+  type AlertRuleKind,
+  type TriggeredAlert,
+} from "../lib/alerts";
+import type { NotificationStatus } from "../lib/notifications";
+
+const NOTIFICATION_STATUS_TEXT: Record<NotificationStatus, string> = {
+  default: "Browser notifications are off.",
+  granted: "Browser notifications are on.",
+  denied: "Notifications are blocked; allow them in the browser's site settings.",
+  unsupported: "This browser cannot show notifications; alerts stay in the inbox.",
+};
+
+export default function PositionAlerts({
+  entryName,
+  rules,
+  alerts,
+  notificationStatus,
+  onChangeRules,
+  onSelectEntry,
+  onMarkAllRead,
+  onClearAlerts,
+  onEnableNotifications,
+}: {
+  entryName: string;
+  rules: AlertRule[];
+  alerts: TriggeredAlert[];
+  notificationStatus: NotificationStatus;
+  onChangeRules: (rules: AlertRule[]) => void;
+  onSelectEntry: (id: string) => void;
+  onMarkAllRead: () => void;
+  onClearAlerts: () => void;
+  onEnableNotifications: () => void;
+}) {
+  const [newKind, setNewKind] = useState<AlertRuleKind>("nearStrike");
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    onChangeRules(rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  return (
+    <div className="position-alerts">
+      <div className="position-alerts-rules">
+        <h3>Rules for {entryName}</h3>
+        {rules.length ? (
+          <ul className="alert-rules">
+            {rules.map((rule) => (
+              <li key={rule.id} className={rule.triggeredAt ? "is-triggered" : undefined}>
+                <label className="checkbox-field">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(event) => updateRule(rule.id, { enabled: event.target.checked })}
+                  />
+                  {ALERT_RULE_LABELS[rule.kind]}
+                </label>
+                {ALERT_RULE_DEFAULT_THRESHOLDS[rule.kind] ? (
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    aria-label={`${ALERT_RULE_LABELS[rule.kind]} threshold`}
+                    value={rule.threshold}
+                    onChange={(event) => updateRule(rule.id, { threshold: event.target.value })}
+                  />
+                ) : (
+                  <span />
+                )}
+                <span className="helper-text">{rule.triggeredAt ? "Triggered" : "Watching"}</span>
+                <button
+                  className="text-button"
+                  type="button"
+                  onClick={() => onChangeRules(rules.filter((item) => item.id !== rule.id))}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="helper-text">No rules yet for this position.</p>
+        )}
+        <div className="alert-rule-add">
+          <select
+            aria-label="Rule type"
+            value={newKind}
+            onChange={(event) => {
+              if (isAlertRuleKind(event.target.value)) {
+                setNewKind(event.target.value);
+              }
+            }}
+          >
+            {ALERT_RULE_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {ALERT_RULE_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+          <button
+            className="text-button"
+            type="button"
+            onClick={() => onChangeRules([...rules, createAlertRule(newKind)])}
+          >
+            + Add rule
+          </button>
+        </div>
+        <p className="helper-text">
+          Rules are checked whenever the stock price changes or price history is imported.
+        </p>
+      </div>
+
+      <div className="position-alerts-inbox">
+        <div className="journal-header">
+          <h3>Inbox</h3>
+          <div className="planner-controls">
+            {alerts.some((alert) => !alert.read) ? (
+              <button className="text-button" type="button" onClick={onMarkAllRead}>
+                Mark all read
+              </button>
+            ) : null}
+            {alerts.length ? (
+              <button className="text-button" type="button" onClick={onClearAlerts}>
+                Clear
+              </button>
+            ) : null}
+          </div>
+        </div>
+        {alerts.length ? (
+          <ul className="alert-inbox">
+            {alerts.map((alert) => (
+              <li key={alert.id} className={alert.read ? undefined : "is-unread"}>
+                <button
+                  className="journal-name"
+                  type="button"
+                  onClick={() => onSelectEntry(alert.entryId)}
+                >
+                  {alert.entryName}
+                </button>
+                <span>{alert.message}</span>
+                <time dateTime={alert.triggeredAt}>
+                  {new Date(alert.triggeredAt).toLocaleString()}
+                </time>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="helper-text">No alerts yet.</p>
+        )}
+        <p className="helper-text">
+          {NOTIFICATION_STATUS_TEXT[notificationStatus]}{" "}
+          {notificationStatus === "default" ? (
+            <button className="text-button" type="button" onClick={onEnableNotifications}>
+              Enable notifications
+            </button>
+          ) : null}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { CoveredCallCalculations, FormState } from "../lib/covered-call";
+import { formatCurrency, formatPercent, formatPercentValue } from "../lib/format";
+import { calculateRoll, getDefaultRollInputs, type RollInputs } from "../lib/roll";
+import type { ScoringProfile } from "../lib/scoring";
+
+const COMPARISON_ROWS: Array<{
+  label: string;
+  render: (calculations: CoveredCallCalculations) => string;
+}> = [
+  { label: "Strike", render: (c) => formatCurrency(c.safeStrikePrice) },
+  { label: "Days to expiry", render: (c) => String(c.daysUntilExpiration) },
+  { label: "Premium kept (per share)", render: (c) => formatCurrency(c.safePremium) },
+  { label: "Max profit", render: (c) => formatCurrency(c.maxProfitTotal) },
+  { label: "Break even", render: (c) => formatCurrency(c.breakevenPrice) },
+  { label: "Downside cushion", render: (c) => formatPercentValue(c.downsideToBreakEvenPct) },
+  { label: "Annualized return", render: (c) => formatPercent(c.annualizedReturn) },
+  {
+    label: "Assignment odds",
+    render: (c) => formatPercent(c.probabilities.assignmentProbability),
+  },
+];
+
+export default function RollCalculator({
+  formState,
+  scoringProfile,
+}: {
+  formState: FormState;
+  scoringProfile: ScoringProfile;
+}) {
+  const [inputs, setInputs] = useState<RollInputs>(() => getDefaultRollInputs(formState));
+
+  const roll = useMemo(
+    () => calculateRoll(formState, inputs, scoringProfile),
+    [formState, inputs, scoringProfile],
+  );
+
+  const handleChange =
+    (field: keyof RollInputs) => (event: React.ChangeEvent<HTMLInputElement>) => {
+      setInputs((prev) => ({
+        ...prev,
+        [field]: event.target.value,
+      }));
+    };
+
+  return (
+    <div className="roll-calculator">
+      <div className="roll-legs">
+        <fieldset className="roll-leg">
+          <legend>Current short call</legend>
+          <div className="field">
+            <label htmlFor="rollCurrentStrike">Strike</label>
+            <div className="input-wrap">
+              <span>$</span>
+              <input
+                id="rollCurrentStrike"
+                type="number"
+                step="0.5"
+                value={inputs.currentStrikePrice}
+                onChange={handleChange("currentStrikePrice")}
+              />
+            </div>
+          </div>
+          <div className="form-row form-row--split">
+            <div className="field">
+              <label htmlFor="rollOriginalPremium">Original premium</label>
+              <div className="input-wrap">
+                <span>$</span>
+                <input
+                  id="rollOriginalPremium"
+                  type="number"
+                  step="0.01"
+                  value={inputs.originalPremium}
+                  onChange={handleChange("originalPremium")}
+                />
+              </div>
+            </div>
+            <div className="field">
+              <label htmlFor="rollCostToClose">Cost to close</label>
+              <div className="input-wrap">
+                <span>$</span>
+                <input
+                  id="rollCostToClose"
+                  type="number"
+                  step="0.01"
+                  value={inputs.costToClose}
+                  onChange={handleChange("costToClose")}
+                />
+              </div>
+            </div>
+          </div>
+        </fieldset>
+
+        <fieldset className="roll-leg">
+          <legend>New call</legend>
+          <div className="form-row form-row--split">
+            <div className="field">
+              <label htmlFor="rollNewStrike">Strike</label>
+              <div className="input-wrap">
+                <span>$</span>
+                <input
+                  id="rollNewStrike"
+                  type="number"
+                  step="0.5"
+                  value={inputs.newStrikePrice}
+                  onChange={handleChange("newStrikePrice")}
+                />
+              </div>
+            </div>
+            <div className="field">
+              <label htmlFor="rollNewPremium">Premium</label>
+              <div className="input-wrap">
+                <span>$</span>
+                <input
+                  id="rollNewPremium"
+                  type="number"
+                  step="0.01"
+                  value={inputs.newPremium}
+                  onChange={handleChange("newPremium")}
+                />
+              </div>
+            </div>
+          </div>
+          <div className="field">
+            <label htmlFor="rollNewExpiration">Expiration date</label>
+            <input
+              id="rollNewExpiration"
+              type="date"
+              value={inputs.newExpirationDate}
+              onChange={handleChange("newExpirationDate")}
+            />
+          </div>
+        </fieldset>
+      </div>
+
+      <div className="results">
+        <article
+          className={`result-card ${
+            roll.netCreditPerShare >= 0 ? "result-card--income" : "result-card--cost"
+          }`}
+        >
+          <h3>{roll.netCreditPerShare >= 0 ? "Net credit" : "Net debit"}</h3>
+          <p>{formatCurrency(Math.abs(roll.netCreditTotal))}</p>
+          <span>{formatCurrency(Math.abs(roll.netCreditPerShare))} per share</span>
+        </article>
+        <article className="result-card result-card--return">
+          <h3>Incremental return</h3>
+          <p>
+            {roll.incrementalAnnualizedReturn === null
+              ? "No added capital"
+              : formatPercent(roll.incrementalAnnualizedReturn)}
+          </p>
+          <div className="result-card-meta">
+            <span>
+              {formatCurrency(roll.incrementalProfitTotal)} more max profit
+              {roll.incrementalReturn === null
+                ? ""
+                : ` (${formatPercent(roll.incrementalReturn)} of the net debit)`}
+            </span>
+            <span>
+              {roll.incrementalReturn === null
+                ? "The credit pays for the roll"
+                : `annualized over ${roll.addedDays} added day${roll.addedDays === 1 ? "" : "s"}`}
+            </span>
+          </div>
+        </article>
+        <article
+          className={`result-card result-card--quality-${roll.newLeg.tradeQuality.label.toLowerCase()}`}
+        >
+          <h3>New leg quality</h3>
+          <p>{roll.newLeg.tradeQuality.label}</p>
+          <span>
+            {roll.newLeg.tradeQuality.score}/100 ·{" "}
+            {roll.newLeg.tradeQualitySubtitle || "Balanced risk/reward mix"}
+          </span>
+        </article>
+      </div>
+
+      <div className="table-scroll">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th scope="col">
+                <span className="visually-hidden">Metric</span>
+              </th>
+              <th scope="col">Hold current call</th>
+              <th scope="col">After roll</th>
+            </tr>
+          </thead>
+          <tbody>
+            {COMPARISON_ROWS.map((row) => (
+              <tr key={row.label}>
+                <th scope="row">{row.label}</th>
+                <td>{row.render(roll.before)}</td>
+                <td>{row.render(roll.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
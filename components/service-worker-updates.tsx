@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  activateServiceWorker,
+  isServiceWorkerSupported,
+  onServiceWorkerUpdate,
+  registerServiceWorker,
+  requestPersistentStorage,
+} from "../lib/service-worker";
+
+// Registers the offline service worker for every page and offers a reload once a newer version
+// has finished installing.
+export default function ServiceWorkerUpdates() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const [isOffline, setIsOffline] = useState(false);
+  const isReloading = useRef(false);
+
+  useEffect(() => {
+    if (!isServiceWorkerSupported()) {
+      return;
+    }
+
+    let unsubscribe = () => {};
+    let isMounted = true;
+    registerServiceWorker()
+      .then((registration) => {
+        if (isMounted) {
+          unsubscribe = onServiceWorkerUpdate(registration, setWaitingWorker);
+        }
+      })
+      .catch(() => {});
+    requestPersistentStorage().catch(() => {});
+
+    const handleControllerChange = () => {
+      if (isReloading.current) {
+        window.location.reload();
+      }
+    };
+    navigator.serviceWorker.addEventListener("controllerchange", handleControllerChange);
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+      navigator.serviceWorker.removeEventListener("controllerchange", handleControllerChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    const updateStatus = () => setIsOffline(!navigator.onLine);
+    updateStatus();
+    window.addEventListener("online", updateStatus);
+    window.addEventListener("offline", updateStatus);
+    return () => {
+      window.removeEventListener("online", updateStatus);
+      window.removeEventListener("offline", updateStatus);
+    };
+  }, []);
+
+  const handleReload = () => {
+    if (!waitingWorker) {
+      return;
+    }
+
+    isReloading.current = true;
+    activateServiceWorker(waitingWorker);
+  };
+
+  if (!waitingWorker && !isOffline) {
+    return null;
+  }
+
+  return (
+    <div className="app-status" role="status">
+      {waitingWorker ? (
+        <>
+          <span>A new version of Options Planner is ready.</span>
+          <button className="text-button" type="button" onClick={handleReload}>
+            Reload
+          </button>
+          <button className="text-button" type="button" onClick={() => setWaitingWorker(null)}>
+            Later
+          </button>
+        </>
+      ) : (
+        <span>You&apos;re offline. Plans keep saving on this device.</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { CoveredCallCalculations, FormState } from "../lib/covered-call";
+import { formatCurrency, formatPercent } from "../lib/format";
+import type { ScoringProfile } from "../lib/scoring";
+import { DEFAULT_ATR_MULTIPLE, suggestStrikes } from "../lib/strike-suggestions";
+
+export default function StrikeSuggester({
+  formState,
+  calculations,
+  scoringProfile,
+  onApply,
+}: {
+  formState: FormState;
+  calculations: CoveredCallCalculations;
+  scoringProfile: ScoringProfile;
+  onApply: (values: Pick<FormState, "strikePrice" | "premium">) => void;
+}) {
+  const [atrMultiple, setAtrMultiple] = useState(String(DEFAULT_ATR_MULTIPLE));
+
+  const atr = Number.parseFloat(formState.atr14);
+  const parsedMultiple = Number.parseFloat(atrMultiple);
+  const suggestions = useMemo(
+    () =>
+      suggestStrikes(
+        formState,
+        calculations,
+        {
+          atr: Number.isFinite(atr) ? atr : null,
+          atrMultiple: Number.isFinite(parsedMultiple) ? parsedMultiple : 0,
+        },
+        scoringProfile,
+      ),
+    [atr, calculations, formState, parsedMultiple, scoringProfile],
+  );
+
+  return (
+    <div className="strike-suggester">
+      <div className="simulation-inputs">
+        <div className="field">
+          <label htmlFor="atrMultiple">ATR multiple</label>
+          <input
+            id="atrMultiple"
+            type="number"
+            step="0.5"
+            min="0"
+            value={atrMultiple}
+            onChange={(event) => setAtrMultiple(event.target.value)}
+          />
+        </div>
+      </div>
+      <p className="helper-text">
+        Premiums are theoretical values at {calculations.safeImpliedVolatility.toFixed(0)}% IV and{" "}
+        {calculations.daysUntilExpiration} days to expiry. Applying a strike fills in that premium;
+        replace it with the real quote.
+        {Number.isFinite(atr) ? null : " Add ATR (14) under advanced technicals for an ATR strike."}
+      </p>
+
+      {suggestions.length ? (
+        <div className="table-scroll">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th scope="col">Target</th>
+                <th scope="col">Strike</th>
+                <th scope="col">Delta</th>
+                <th scope="col">Premium</th>
+                <th scope="col">Assignment odds</th>
+                <th scope="col">Annualized</th>
+                <th scope="col">
+                  <span className="visually-hidden">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {suggestions.map((suggestion) => (
+                <tr
+                  key={suggestion.strikePrice}
+                  className={
+                    suggestion.strikePrice === calculations.safeStrikePrice ? "is-best" : undefined
+                  }
+                >
+                  <th scope="row">{suggestion.labels.join(" · ")}</th>
+                  <td>{formatCurrency(suggestion.strikePrice)}</td>
+                  <td>{suggestion.delta.toFixed(2)}</td>
+                  <td>{formatCurrency(suggestion.premium)}</td>
+                  <td>
+                    {formatPercent(suggestion.calculations.probabilities.assignmentProbability)}
+                  </td>
+                  <td>{formatPercent(suggestion.calculations.annualizedReturn)}</td>
+                  <td className="data-table-actions">
+                    <button
+                      className="text-button"
+                      type="button"
+                      onClick={() =>
+                        onApply({
+                          strikePrice: String(suggestion.strikePrice),
+                          premium: suggestion.premium.toFixed(2),
+                        })
+                      }
+                    >
+                      Apply
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="helper-text">
+          Enter a stock price, implied volatility and a future expiration date to see suggestions.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import {
+  POSITION_STATUSES,
+  isPositionStatus,
+  sortJournalEntries,
+  type JournalEntry,
+} from "../lib/journal";
+
+type JournalEntryChanges = Partial<
+  Pick<JournalEntry, "name" | "status" | "openDate" | "archived">
+>;
+
+export default function TradeJournal({
+  entries,
+  activeEntryId,
+  error,
+  notice,
+  importErrors,
+  onSelect,
+  onCreate,
+  onDuplicate,
+  onUpdate,
+  onDelete,
+  onShare,
+  onExport,
+  onImport,
+}: {
+  entries: JournalEntry[];
+  activeEntryId: string | null;
+  error: string | null;
+  notice: string | null;
+  importErrors: string[];
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: (id: string) => void;
+  onUpdate: (id: string, changes: JournalEntryChanges) => void;
+  onDelete: (id: string) => void;
+  onShare: (id: string) => void;
+  onExport: (ids: string[]) => void;
+  onImport: (file: File) => void;
+}) {
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState("");
+
+  const archivedCount = entries.filter((entry) => entry.archived).length;
+  const visibleEntries = sortJournalEntries(entries).filter(
+    (entry) => showArchived || !entry.archived || entry.id === activeEntryId,
+  );
+
+  const startRename = (entry: JournalEntry) => {
+    setRenamingId(entry.id);
+    setRenameDraft(entry.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameDraft.trim()) {
+      onUpdate(renamingId, { name: renameDraft.trim() });
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (entry: JournalEntry) => {
+    if (window.confirm(`Delete "${entry.name}"? This cannot be undone.`)) {
+      onDelete(entry.id);
+    }
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    input.value = "";
+    if (file) {
+      onImport(file);
+    }
+  };
+
+  return (
+    <div className="journal-body">
+      <div className="journal-header">
+        <h2>Positions</h2>
+        <div className="planner-controls">
+          <button className="text-button" type="button" onClick={onCreate}>
+            New position
+          </button>
+          <button
+            className="text-button"
+            type="button"
+            onClick={() => onExport(entries.map((entry) => entry.id))}
+          >
+            Export all
+          </button>
+          <label className="text-button journal-import">
+            Import
+            <input
+              className="visually-hidden"
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+            />
+          </label>
+          {archivedCount ? (
+            <label className="checkbox-field">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(event) => setShowArchived(event.target.checked)}
+              />
+              Show archived ({archivedCount})
+            </label>
+          ) : null}
+        </div>
+      </div>
+      {error ? <p className="form-errors">{error}</p> : null}
+      {notice ? <p className="helper-text">{notice}</p> : null}
+      {importErrors.length ? (
+        <ul className="form-errors">
+          {importErrors.map((importError) => (
+            <li key={importError}>{importError}</li>
+          ))}
+        </ul>
+      ) : null}
+
+      <ul className="journal-list">
+        {visibleEntries.map((entry) => {
+          const isActive = entry.id === activeEntryId;
+
+          const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    input.value = "";
+    if (file) {
+      onImport(file);
+    }
+  };
+
+  return (
+            <li
+              key={entry.id}
+              className={`journal-item${isActive ? " is-active" : ""}${
+                entry.archived ? " is-archived" : ""
+              }`}
+            >
+              {renamingId === entry.id ? (
+                <input
+                  className="journal-rename"
+                  aria-label="Position name"
+                  value={renameDraft}
+                  autoFocus
+                  onChange={(event) => setRenameDraft(event.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") {
+                      commitRename();
+                    } else if (event.key === "Escape") {
+                      setRenamingId(null);
+                    }
+                  }}
+                />
+              ) : (
+                <button
+                  className="journal-name"
+                  type="button"
+                  onClick={() => onSelect(entry.id)}
+                  aria-current={isActive ? "true" : undefined}
+                >
+                  {entry.name}
+                </button>
+              )}
+              <div className="journal-fields">
+                <select
+                  aria-label={`Status of ${entry.name}`}
+                  value={entry.status}
+                  onChange={(event) => {
+                    if (isPositionStatus(event.target.value)) {
+                      onUpdate(entry.id, { status: event.target.value });
+                    }
+                  }}
+                >
+                  {POSITION_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {status}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  aria-label={`Open date of ${entry.name}`}
+                  value={entry.openDate}
+                  onChange={(event) => onUpdate(entry.id, { openDate: event.target.value })}
+                />
+              </div>
+              <div className="journal-actions">
+                <button className="text-button" type="button" onClick={() => startRename(entry)}>
+                  Rename
+                </button>
+                <button className="text-button" type="button" onClick={() => onDuplicate(entry.id)}>
+                  Duplicate
+                </button>
+                <button className="text-button" type="button" onClick={() => onShare(entry.id)}>
+                  Copy link
+                </button>
+                <button className="text-button" type="button" onClick={() => onExport([entry.id])}>
+                  Export
+                </button>
+                <button
+                  className="text-button"
+                  type="button"
+                  onClick={() => onUpdate(entry.id, { archived: !entry.archived })}
+                >
+                  {entry.archived ? "Unarchive" : "Archive"}
+                </button>
+                <button className="text-button" type="button" onClick={() => handleDelete(entry)}>
+                  Delete
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import {
+  BUILT_IN_SCORING_PROFILES,
+  COVERED_CALL_FACTOR_IDS,
+  COVERED_CALL_FACTOR_LABELS,
+  type CoveredCallFactorId,
+  type ScoreBand,
+  type ScoringProfile,
+  type TradeQuality,
+} from "../lib/scoring";
+
+const formatPoints = (points: number) =>
+  `${points > 0 ? "+" : ""}${Number.isInteger(points) ? points : points.toFixed(1)}`;
+
+export default function TradeQualityBreakdown({
+  tradeQuality,
+  profile,
+  customProfiles,
+  onSelectProfile,
+  onCustomize,
+  onUpdateProfile,
+  onDeleteProfile,
+}: {
+  tradeQuality: TradeQuality;
+  profile: ScoringProfile;
+  customProfiles: ScoringProfile[];
+  onSelectProfile: (id: string) => void;
+  onCustomize: () => void;
+  onUpdateProfile: (profile: ScoringProfile) => void;
+  onDeleteProfile: (id: string) => void;
+}) {
+  const rawScore =
+    tradeQuality.baseScore +
+    tradeQuality.factors.reduce((sum, factor) => sum + factor.points, 0);
+
+  const updateFactor = (
+    id: CoveredCallFactorId,
+    update: (rule: ScoringProfile["factors"][CoveredCallFactorId]) => Partial<
+      ScoringProfile["factors"][CoveredCallFactorId]
+    >,
+  ) => {
+    onUpdateProfile({
+      ...profile,
+      factors: {
+        ...profile.factors,
+        [id]: { ...profile.factors[id], ...update(profile.factors[id]) },
+      },
+    });
+  };
+
+  const updateBand = (
+    id: CoveredCallFactorId,
+    bandIndex: number,
+    changes: Partial<ScoreBand>,
+  ) => {
+    updateFactor(id, (rule) => ({
+      bands: rule.bands.map((band, index) =>
+        index === bandIndex ? { ...band, ...changes } : band,
+      ),
+    }));
+  };
+
+  const handleNumberChange =
+    (apply: (value: number) => void) => (event: React.ChangeEvent<HTMLInputElement>) => {
+      const value = event.target.valueAsNumber;
+      if (Number.isFinite(value)) {
+        apply(value);
+      }
+    };
+
+  return (
+    <div className="quality-breakdown">
+      <div className="quality-breakdown-controls">
+        <div className="field">
+          <label htmlFor="scoringProfile">Scoring profile</label>
+          <select
+            id="scoringProfile"
+            value={profile.id}
+            onChange={(event) => onSelectProfile(event.target.value)}
+          >
+            {[...BUILT_IN_SCORING_PROFILES, ...customProfiles].map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button className="text-button" type="button" onClick={onCustomize}>
+          Customize a copy
+        </button>
+        {!profile.isBuiltIn ? (
+          <button
+            className="text-button"
+            type="button"
+            onClick={() => {
+              if (window.confirm(`Delete the "${profile.name}" profile?`)) {
+                onDeleteProfile(profile.id);
+              }
+            }}
+          >
+            Delete profile
+          </button>
+        ) : null}
+      </div>
+
+      <div className="table-scroll">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th scope="col">Factor</th>
+              <th scope="col">Value</th>
+              <th scope="col">Assessment</th>
+              <th scope="col">Weight</th>
+              <th scope="col">Points</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <th scope="row">Starting score</th>
+              <td>—</td>
+              <td>—</td>
+              <td>—</td>
+              <td>{tradeQuality.baseScore}</td>
+            </tr>
+            {tradeQuality.factors.map((factor) => (
+              <tr key={factor.id}>
+                <th scope="row">{factor.label}</th>
+                <td>{factor.value.toFixed(2)}%</td>
+                <td>{factor.note || "—"}</td>
+                <td>×{factor.weight}</td>
+                <td>{formatPoints(factor.points)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <th scope="row">Score</th>
+              <td colSpan={3}>
+                {Math.round(rawScore) !== tradeQuality.score
+                  ? `${Math.round(rawScore)} clamped to 0–100`
+                  : tradeQuality.label}
+              </td>
+              <td>{tradeQuality.score}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {!profile.isBuiltIn ? (
+        <fieldset className="form-fieldset" key={profile.id}>
+          <legend>Edit {profile.name}</legend>
+          <div className="form-row form-row--split">
+            <div className="field">
+              <label htmlFor="profileName">Name</label>
+              <input
+                id="profileName"
+                type="text"
+                maxLength={40}
+                defaultValue={profile.name}
+                onBlur={(event) => {
+                  const name = event.target.value.trim();
+                  if (name && name !== profile.name) {
+                    onUpdateProfile({ ...profile, name });
+                  }
+                }}
+              />
+            </div>
+            <div className="field">
+              <label htmlFor="profileBase">Starting score</label>
+              <input
+                id="profileBase"
+                type="number"
+                step="1"
+                defaultValue={profile.baseScore}
+                onChange={handleNumberChange((baseScore) =>
+                  onUpdateProfile({ ...profile, baseScore }),
+                )}
+              />
+            </div>
+          </div>
+          {COVERED_CALL_FACTOR_IDS.map((id) => (
+            <div key={id} className="profile-factor">
+              <div className="profile-factor-header">
+                <h4>{COVERED_CALL_FACTOR_LABELS[id]}</h4>
+                <label>
+                  Weight
+                  <input
+                    type="number"
+                    step="0.25"
+                    min="0"
+                    defaultValue={profile.factors[id].weight}
+                    onChange={handleNumberChange((weight) => updateFactor(id, () => ({ weight })))}
+                  />
+                </label>
+              </div>
+              {profile.factors[id].bands.map((band, index) => (
+                <div key={index} className="profile-band">
+                  <label>
+                    {band.inclusive ? "Up to" : "Below"}
+                    <input
+                      type="number"
+                      step="any"
+                      placeholder="no limit"
+                      defaultValue={band.below ?? ""}
+                      onChange={(event) => {
+                        const value = event.target.valueAsNumber;
+                        if (!event.target.value) {
+                          updateBand(id, index, { below: null });
+                        } else if (Number.isFinite(value)) {
+                          updateBand(id, index, { below: value });
+                        }
+                      }}
+                    />
+                  </label>
+                  <label>
+                    Points
+                    <input
+                      type="number"
+                      step="1"
+                      defaultValue={band.points}
+                      onChange={handleNumberChange((points) => updateBand(id, index, { points }))}
+                    />
+                  </label>
+                  <span>{band.note}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </fieldset>
+      ) : null}
+    </div>
+  );
+}
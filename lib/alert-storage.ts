@@ -0,0 +1,27 @@
+import { sanitizeTriggeredAlert, type TriggeredAlert } from "./alerts";
+
+export const ALERT_STORAGE_KEY = "optionsplanner.alerts.v1";
+// The inbox keeps the most recent alerts only.
+export const MAX_STORED_ALERTS = 50;
+
+export const loadAlerts = (): TriggeredAlert[] => {
+  const stored = localStorage.getItem(ALERT_STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed)
+      ? parsed
+          .map(sanitizeTriggeredAlert)
+          .filter((alert): alert is TriggeredAlert => alert !== null)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAlerts = (alerts: TriggeredAlert[]) => {
+  localStorage.setItem(ALERT_STORAGE_KEY, JSON.stringify(alerts.slice(0, MAX_STORED_ALERTS)));
+};
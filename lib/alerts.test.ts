@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAlertRule,
+  evaluateAlertRule,
+  evaluateAlertRules,
+  getAlertSnapshot,
+  type AlertRule,
+  type AlertSnapshot,
+} from "./alerts";
+import { priceCall } from "./black-scholes";
+import { calculateCoveredCall, createLadderLeg, getDefaultFormState } from "./covered-call";
+
+const SNAPSHOT: AlertSnapshot = {
+  symbol: "AAPL",
+  stockPrice: 100,
+  strikePrice: 110,
+  breakevenPrice: 95,
+  extrinsicValue: 1.2,
+  daysUntilExpiration: 20,
+};
+
+const ENTRY = { id: "entry-1", name: "AAPL Dec" };
+const NOW = "2024-06-03T15:00:00.000Z";
+const LATER = "2024-06-04T15:00:00.000Z";
+
+const rule = (kind: AlertRule["kind"], threshold?: string): AlertRule => {
+  const created = createAlertRule(kind);
+  return threshold === undefined ? created : { ...created, threshold };
+};
+
+describe("evaluateAlertRule", () => {
+  it("fires near the strike and once the price is through it", () => {
+    const nearStrike = rule("nearStrike", "5");
+    expect(evaluateAlertRule(nearStrike, SNAPSHOT)).toBeNull();
+    expect(evaluateAlertRule(nearStrike, { ...SNAPSHOT, stockPrice: 106 })).toMatch(
+      /3\.6% below the \$110\.00 strike/,
+    );
+    expect(evaluateAlertRule(nearStrike, { ...SNAPSHOT, stockPrice: 112 })).toMatch(
+      /through the \$110\.00 strike/,
+    );
+  });
+
+  it("fires below breakeven without a threshold", () => {
+    const belowBreakeven = rule("belowBreakeven");
+    expect(evaluateAlertRule(belowBreakeven, SNAPSHOT)).toBeNull();
+    expect(evaluateAlertRule(belowBreakeven, { ...SNAPSHOT, stockPrice: 94 })).toMatch(
+      /below the \$95\.00 breakeven/,
+    );
+  });
+
+  it("flags low extrinsic value only before expiration", () => {
+    const lowExtrinsic = rule("lowExtrinsic", "0.25");
+    expect(evaluateAlertRule(lowExtrinsic, SNAPSHOT)).toBeNull();
+    expect(evaluateAlertRule(lowExtrinsic, { ...SNAPSHOT, extrinsicValue: 0.1 })).toMatch(
+      /consider rolling/,
+    );
+    expect(
+      evaluateAlertRule(lowExtrinsic, { ...SNAPSHOT, extrinsicValue: 0, daysUntilExpiration: 0 }),
+    ).toBeNull();
+  });
+
+  it("fires at or below the days-to-expiry threshold", () => {
+    const daysToExpiry = rule("daysToExpiry", "7");
+    expect(evaluateAlertRule(daysToExpiry, SNAPSHOT)).toBeNull();
+    expect(evaluateAlertRule(daysToExpiry, { ...SNAPSHOT, daysUntilExpiration: 7 })).toBe(
+      "7 days left to expiration.",
+    );
+    expect(evaluateAlertRule(daysToExpiry, { ...SNAPSHOT, daysUntilExpiration: 1 })).toBe(
+      "1 day left to expiration.",
+    );
+  });
+
+  it("ignores rules with a missing threshold or no price", () => {
+    expect(evaluateAlertRule(rule("nearStrike", ""), { ...SNAPSHOT, stockPrice: 109 })).toBeNull();
+    expect(evaluateAlertRule(rule("belowBreakeven"), { ...SNAPSHOT, stockPrice: 0 })).toBeNull();
+  });
+});
+
+describe("evaluateAlertRules", () => {
+  it("fires once per crossing and re-arms after the condition clears", () => {
+    const rules = [rule("belowBreakeven")];
+    const below = { ...SNAPSHOT, stockPrice: 90 };
+
+    const first = evaluateAlertRules(rules, below, ENTRY, NOW);
+    expect(first.alerts).toHaveLength(1);
+    expect(first.alerts[0]).toMatchObject({
+      entryId: ENTRY.id,
+      entryName: ENTRY.name,
+      ruleId: rules[0].id,
+      kind: "belowBreakeven",
+      triggeredAt: NOW,
+      read: false,
+    });
+    expect(first.rules[0].triggeredAt).toBe(NOW);
+
+    const stillBelow = evaluateAlertRules(first.rules, { ...below, stockPrice: 88 }, ENTRY, LATER);
+    expect(stillBelow.alerts).toHaveLength(0);
+    expect(stillBelow.rules).toBe(first.rules);
+
+    const recovered = evaluateAlertRules(stillBelow.rules, SNAPSHOT, ENTRY, LATER);
+    expect(recovered.alerts).toHaveLength(0);
+    expect(recovered.rules[0].triggeredAt).toBeNull();
+
+    const again = evaluateAlertRules(recovered.rules, below, ENTRY, LATER);
+    expect(again.alerts).toHaveLength(1);
+    expect(again.rules[0].triggeredAt).toBe(LATER);
+  });
+
+  it("returns the same rules array when nothing changes", () => {
+    const rules = [rule("nearStrike"), rule("daysToExpiry")];
+    const result = evaluateAlertRules(rules, SNAPSHOT, ENTRY, NOW);
+    expect(result.rules).toBe(rules);
+    expect(result.alerts).toHaveLength(0);
+  });
+
+  it("skips disabled rules and clears their latch", () => {
+    const disabled = { ...rule("belowBreakeven"), enabled: false, triggeredAt: NOW };
+    const result = evaluateAlertRules([disabled], { ...SNAPSHOT, stockPrice: 90 }, ENTRY, LATER);
+    expect(result.alerts).toHaveLength(0);
+    expect(result.rules[0].triggeredAt).toBeNull();
+  });
+});
+
+describe("getAlertSnapshot", () => {
+  it("measures extrinsic value on the lowest-strike lot of a ladder", () => {
+    const calculations = calculateCoveredCall({
+      ...getDefaultFormState(),
+      stockPrice: "100",
+      shares: "200",
+      strikePrice: "110",
+      premium: "1",
+      contracts: "1",
+      ladder: [createLadderLeg({ contracts: "1", strikePrice: "80", premium: "21" })],
+    });
+    const snapshot = getAlertSnapshot("aapl", calculations);
+
+    expect(snapshot.strikePrice).toBe(80);
+    expect(snapshot.extrinsicValue).toBeCloseTo(
+      priceCall({ ...calculations.pricingAssumptions, strikePrice: 80 }).timeValue,
+    );
+    expect(snapshot.extrinsicValue).toBeLessThan(calculations.callPricing.timeValue);
+    expect(evaluateAlertRule(rule("lowExtrinsic", "0.50"), snapshot)).not.toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+import { priceCall } from "./black-scholes";
+import type { CoveredCallCalculations } from "./covered-call";
+import { formatCurrency } from "./format";
+import { createId } from "./ids";
+
+export const ALERT_RULE_KINDS = [
+  "nearStrike",
+  "belowBreakeven",
+  "lowExtrinsic",
+  "daysToExpiry",
+] as const;
+
+export type AlertRuleKind = (typeof ALERT_RULE_KINDS)[number];
+
+export const ALERT_RULE_LABELS: Record<AlertRuleKind, string> = {
+  nearStrike: "Price within % of strike",
+  belowBreakeven: "Price below breakeven",
+  lowExtrinsic: "Extrinsic value below $ (roll candidate)",
+  daysToExpiry: "Days to expiry at or below",
+};
+
+// Starting thresholds for new rules; breakeven needs none.
+export const ALERT_RULE_DEFAULT_THRESHOLDS: Record<AlertRuleKind, string> = {
+  nearStrike: "2",
+  belowBreakeven: "",
+  lowExtrinsic: "0.10",
+  daysToExpiry: "7",
+};
+
+export type AlertRule = {
+  id: string;
+  kind: AlertRuleKind;
+  threshold: string;
+  enabled: boolean;
+  // Set while the condition holds so a rule fires once per crossing, not on every evaluation.
+  triggeredAt: string | null;
+};
+
+export type TriggeredAlert = {
+  id: string;
+  entryId: string;
+  entryName: string;
+  ruleId: string;
+  kind: AlertRuleKind;
+  message: string;
+  triggeredAt: string;
+  read: boolean;
+};
+
+export type AlertSnapshot = {
+  symbol: string;
+  stockPrice: number;
+  strikePrice: number;
+  breakevenPrice: number;
+  extrinsicValue: number;
+  daysUntilExpiration: number;
+};
+
+export const isAlertRuleKind = (value: unknown): value is AlertRuleKind =>
+  ALERT_RULE_KINDS.includes(value as AlertRuleKind);
+
+export const createAlertRule = (kind: AlertRuleKind): AlertRule => ({
+  id: createId(),
+  kind,
+  threshold: ALERT_RULE_DEFAULT_THRESHOLDS[kind],
+  enabled: true,
+  triggeredAt: null,
+});
+
+export const sanitizeAlertRule = (value: unknown): AlertRule | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const source = value as Record<string, unknown>;
+  if (!isAlertRuleKind(source.kind)) {
+    return null;
+  }
+
+  return {
+    id: typeof source.id === "string" && source.id ? source.id : createId(),
+    kind: source.kind,
+    threshold:
+      typeof source.threshold === "string"
+        ? source.threshold
+        : ALERT_RULE_DEFAULT_THRESHOLDS[source.kind],
+    enabled: source.enabled !== false,
+    triggeredAt: typeof source.triggeredAt === "string" ? source.triggeredAt : null,
+  };
+};
+
+export const sanitizeTriggeredAlert = (value: unknown): TriggeredAlert | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const source = value as Record<string, unknown>;
+  if (
+    typeof source.id !== "string" ||
+    typeof source.entryId !== "string" ||
+    typeof source.ruleId !== "string" ||
+    typeof source.message !== "string" ||
+    typeof source.triggeredAt !== "string" ||
+    !isAlertRuleKind(source.kind)
+  ) {
+    return null;
+  }
+
+  return {
+    id: source.id,
+    entryId: source.entryId,
+    entryName: typeof source.entryName === "string" ? source.entryName : "",
+    ruleId: source.ruleId,
+    kind: source.kind,
+    message: source.message,
+    triggeredAt: source.triggeredAt,
+    read: source.read === true,
+  };
+};
+
+// Extrinsic value is the model's time value for the lowest-strike call at the current price; with
+// a ladder that is the lot most likely to be assigned.
+export const getAlertSnapshot = (
+  symbol: string,
+  calculations: CoveredCallCalculations,
+): AlertSnapshot => ({
+  symbol: symbol.trim().toUpperCase(),
+  stockPrice: calculations.safeStockPrice,
+  strikePrice: calculations.lowestStrikePrice,
+  breakevenPrice: calculations.breakevenPrice,
+  extrinsicValue: priceCall({
+    ...calculations.pricingAssumptions,
+    strikePrice: calculations.lowestStrikePrice,
+  }).timeValue,
+  daysUntilExpiration: calculations.daysUntilExpiration,
+});
+
+// Returns the alert message when the rule's condition holds, or null when it doesn't (or the
+// threshold is missing).
+export const evaluateAlertRule = (rule: AlertRule, snapshot: AlertSnapshot): string | null => {
+  const threshold = Number.parseFloat(rule.threshold);
+  const { symbol, stockPrice, strikePrice, breakevenPrice, daysUntilExpiration } = snapshot;
+  const name = symbol || "The stock";
+  if (stockPrice <= 0) {
+    return null;
+  }
+  const price = formatCurrency(stockPrice);
+
+  switch (rule.kind) {
+    case "nearStrike": {
+      if (!Number.isFinite(threshold) || strikePrice <= 0) {
+        return null;
+      }
+      const distancePct = ((strikePrice - stockPrice) / strikePrice) * 100;
+      if (distancePct > threshold) {
+        return null;
+      }
+      const strike = formatCurrency(strikePrice);
+      return distancePct <= 0
+        ? `${name} at ${price} is through the ${strike} strike.`
+        : `${name} at ${price} is ${distancePct.toFixed(1)}% below the ${strike} strike.`;
+    }
+    case "belowBreakeven":
+      return stockPrice < breakevenPrice
+        ? `${name} at ${price} is below the ${formatCurrency(breakevenPrice)} breakeven.`
+        : null;
+    case "lowExtrinsic":
+      return Number.isFinite(threshold) &&
+        daysUntilExpiration > 0 &&
+        snapshot.extrinsicValue < threshold
+        ? `Extrinsic value is down to ${formatCurrency(snapshot.extrinsicValue)}; consider rolling.`
+        : null;
+    case "daysToExpiry":
+      return Number.isFinite(threshold) && daysUntilExpiration <= threshold
+        ? `${daysUntilExpiration} day${daysUntilExpiration === 1 ? "" : "s"} left to expiration.`
+        : null;
+    default:
+      return null;
+  }
+};
+
+// Evaluates a position's rules. A rule fires when its condition starts to hold and re-arms once
+// it clears. `rules` comes back unchanged (same array) when no latch moved.
+export const evaluateAlertRules = (
+  rules: AlertRule[],
+  snapshot: AlertSnapshot,
+  entry: { id: string; name: string },
+  now = new Date().toISOString(),
+) => {
+  const alerts: TriggeredAlert[] = [];
+  let hasChanged = false;
+
+  const nextRules = rules.map((rule) => {
+    const message = rule.enabled ? evaluateAlertRule(rule, snapshot) : null;
+    if (message && !rule.triggeredAt) {
+      hasChanged = true;
+      alerts.push({
+        id: createId(),
+        entryId: entry.id,
+        entryName: entry.name,
+        ruleId: rule.id,
+        kind: rule.kind,
+        message,
+        triggeredAt: now,
+        read: false,
+      });
+      return { ...rule, triggeredAt: now };
+    }
+    if (!message && rule.triggeredAt) {
+      hasChanged = true;
+      return { ...rule, triggeredAt: null };
+    }
+    return rule;
+  });
+
+  return { rules: hasChanged ? nextRules : rules, alerts };
+};
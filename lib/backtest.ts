@@ -0,0 +1,228 @@
+import { DAYS_PER_YEAR, priceCall, TRADING_DAYS_PER_YEAR } from "./black-scholes";
+import { calculateDaysBetween } from "./dates";
+import type { PriceBar } from "./price-history";
+
+const SHARES = 100;
+const MIN_VOLATILITY = 0.05;
+
+export type ExpirationHandling = "roll" | "assign";
+
+export type BacktestRule = {
+  daysToExpiration: number;
+  otmPct: number;
+  volatilityLookback: number;
+  riskFreeRate: number;
+  expirationHandling: ExpirationHandling;
+};
+
+export type BacktestCycle = {
+  entryDate: string;
+  expirationDate: string;
+  strikePrice: number;
+  premium: number;
+  volatility: number;
+  closePrice: number;
+  outcome: "expired" | "assigned" | "rolled" | "open";
+};
+
+export type EquityPoint = {
+  date: string;
+  equity: number;
+  buyAndHold: number;
+};
+
+export type BacktestResult = {
+  cycles: BacktestCycle[];
+  equityCurve: EquityPoint[];
+  startingCapital: number;
+  totalReturn: number;
+  annualizedReturn: number;
+  buyAndHoldReturn: number;
+  buyAndHoldAnnualizedReturn: number;
+  maxDrawdown: number;
+  buyAndHoldMaxDrawdown: number;
+  assignmentCount: number;
+  premiumCollected: number;
+  averagePremiumPerCycle: number;
+};
+
+export type BacktestRequest = {
+  bars: PriceBar[];
+  rule: BacktestRule;
+};
+
+export type BacktestResponse =
+  | { ok: true; result: BacktestResult }
+  | { ok: false; error: string };
+
+export const getDefaultBacktestRule = (): BacktestRule => ({
+  daysToExpiration: 30,
+  otmPct: 5,
+  volatilityLookback: 20,
+  riskFreeRate: 4.5,
+  expirationHandling: "assign",
+});
+
+export const isExpirationHandling = (value: string): value is ExpirationHandling =>
+  value === "roll" || value === "assign";
+
+export const historicalVolatility = (closes: number[]) => {
+  const returns = closes.slice(1).map((close, index) => Math.log(close / closes[index]));
+  if (returns.length < 2) {
+    return MIN_VOLATILITY;
+  }
+
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+
+  return Math.max(MIN_VOLATILITY, Math.sqrt(variance * TRADING_DAYS_PER_YEAR));
+};
+
+const compoundAnnualized = (totalReturn: number, days: number) =>
+  days > 0 && totalReturn > -1 ? (1 + totalReturn) ** (DAYS_PER_YEAR / days) - 1 : 0;
+
+export const maxDrawdown = (values: number[]) => {
+  let peak = Number.NEGATIVE_INFINITY;
+  let drawdown = 0;
+
+  values.forEach((value) => {
+    peak = Math.max(peak, value);
+    if (peak > 0) {
+      drawdown = Math.max(drawdown, (peak - value) / peak);
+    }
+  });
+
+  return drawdown;
+};
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+// Sells one call per 100 shares every cycle and marks the position to market daily with
+// Black-Scholes priced off the volatility that was known when the call was sold.
+export const runBacktest = (bars: PriceBar[], rule: BacktestRule): BacktestResult => {
+  const lookback = Math.max(2, Math.round(rule.volatilityLookback));
+  const daysToExpiration = Math.max(1, Math.round(rule.daysToExpiration));
+  const riskFreeRate = rule.riskFreeRate / 100;
+
+  if (bars.length <= lookback + 1) {
+    throw new Error(
+      `Need more than ${lookback + 1} daily bars to estimate volatility; got ${bars.length}.`,
+    );
+  }
+
+  const startIndex = lookback;
+  const startPrice = bars[startIndex].close;
+  const startingCapital = startPrice * SHARES;
+  const cycles: BacktestCycle[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let cash = -startingCapital;
+  let shares = SHARES;
+  let pendingRebuy = false;
+
+  const sellCall = (index: number): BacktestCycle => {
+    const bar = bars[index];
+    const volatility = historicalVolatility(
+      bars.slice(index - lookback, index + 1).map((item) => item.close),
+    );
+    const strikePrice = bar.close * (1 + rule.otmPct / 100);
+    const premium = priceCall({
+      stockPrice: bar.close,
+      strikePrice,
+      daysUntilExpiration: daysToExpiration,
+      volatility,
+      riskFreeRate,
+      dividendYield: 0,
+    }).value;
+
+    const cycle: BacktestCycle = {
+      entryDate: bar.date,
+      expirationDate: addDays(bar.date, daysToExpiration),
+      strikePrice,
+      premium,
+      volatility,
+      closePrice: bar.close,
+      outcome: "open",
+    };
+    cash += premium * SHARES;
+    cycles.push(cycle);
+    return cycle;
+  };
+
+  let openCycle: BacktestCycle | null = sellCall(startIndex);
+
+  for (let index = startIndex; index < bars.length; index += 1) {
+    const bar = bars[index];
+
+    if (pendingRebuy) {
+      cash -= bar.open * SHARES;
+      shares = SHARES;
+      pendingRebuy = false;
+      openCycle = sellCall(index);
+    }
+
+    const cycle = openCycle;
+    if (cycle && bar.date >= cycle.expirationDate) {
+      const isInTheMoney = bar.close > cycle.strikePrice;
+      cycle.closePrice = bar.close;
+      openCycle = null;
+
+      if (!isInTheMoney) {
+        cycle.outcome = "expired";
+        openCycle = sellCall(index);
+      } else if (rule.expirationHandling === "roll") {
+        cycle.outcome = "rolled";
+        cash -= (bar.close - cycle.strikePrice) * SHARES;
+        openCycle = sellCall(index);
+      } else {
+        cycle.outcome = "assigned";
+        cash += cycle.strikePrice * SHARES;
+        shares = 0;
+        pendingRebuy = index < bars.length - 1;
+      }
+    }
+
+    const activeCycle = openCycle;
+    const callValue = activeCycle
+      ? priceCall({
+          stockPrice: bar.close,
+          strikePrice: activeCycle.strikePrice,
+          daysUntilExpiration: calculateDaysBetween(bar.date, activeCycle.expirationDate),
+          volatility: activeCycle.volatility,
+          riskFreeRate,
+          dividendYield: 0,
+        }).value
+      : 0;
+
+    equityCurve.push({
+      date: bar.date,
+      equity: startingCapital + cash + shares * bar.close - callValue * SHARES,
+      buyAndHold: bar.close * SHARES,
+    });
+  }
+
+  const finalPoint = equityCurve[equityCurve.length - 1];
+  const days = calculateDaysBetween(equityCurve[0].date, finalPoint.date);
+  const totalReturn = finalPoint.equity / startingCapital - 1;
+  const buyAndHoldReturn = finalPoint.buyAndHold / startingCapital - 1;
+  const premiumCollected = cycles.reduce((sum, cycle) => sum + cycle.premium * SHARES, 0);
+
+  return {
+    cycles,
+    equityCurve,
+    startingCapital,
+    totalReturn,
+    annualizedReturn: compoundAnnualized(totalReturn, days),
+    buyAndHoldReturn,
+    buyAndHoldAnnualizedReturn: compoundAnnualized(buyAndHoldReturn, days),
+    maxDrawdown: maxDrawdown(equityCurve.map((point) => point.equity)),
+    buyAndHoldMaxDrawdown: maxDrawdown(equityCurve.map((point) => point.buyAndHold)),
+    assignmentCount: cycles.filter((cycle) => cycle.outcome === "assigned").length,
+    premiumCollected,
+    averagePremiumPerCycle: cycles.length ? premiumCollected / cycles.length : 0,
+  };
+};
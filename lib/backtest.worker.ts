@@ -0,0 +1,14 @@
+import { runBacktest, type BacktestRequest, type BacktestResponse } from "./backtest";
+
+self.onmessage = (event: MessageEvent<BacktestRequest>) => {
+  let response: BacktestResponse;
+  try {
+    response = { ok: true, result: runBacktest(event.data.bars, event.data.rule) };
+  } catch (error) {
+    response = {
+      ok: false,
+      error: error instanceof Error ? error.message : "The backtest failed.",
+    };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { priceCall, pricePut, yearsFromDays, type BlackScholesInputs } from "./black-scholes";
+
+// Hull's textbook case: one year, at the money, 5% rate, 20% volatility.
+const AT_THE_MONEY: BlackScholesInputs = {
+  stockPrice: 100,
+  strikePrice: 100,
+  daysUntilExpiration: 365,
+  volatility: 0.2,
+  riskFreeRate: 0.05,
+  dividendYield: 0,
+};
+
+// Half a year, in the money, with a 3% dividend yield.
+const WITH_DIVIDENDS: BlackScholesInputs = {
+  stockPrice: 100,
+  strikePrice: 95,
+  daysUntilExpiration: 182.5,
+  volatility: 0.25,
+  riskFreeRate: 0.04,
+  dividendYield: 0.03,
+};
+
+describe("priceCall and pricePut", () => {
+  it("match reference prices", () => {
+    expect(priceCall(AT_THE_MONEY).value).toBeCloseTo(10.4506, 4);
+    expect(pricePut(AT_THE_MONEY).value).toBeCloseTo(5.5735, 4);
+  });
+
+  it("match reference prices under a dividend yield", () => {
+    const call = priceCall(WITH_DIVIDENDS);
+    expect(call.value).toBeCloseTo(9.7829, 4);
+    expect(call.intrinsicValue).toBe(5);
+    expect(call.timeValue).toBeCloseTo(4.7829, 4);
+    expect(pricePut(WITH_DIVIDENDS).value).toBeCloseTo(4.3906, 4);
+  });
+
+  it("satisfy put-call parity", () => {
+    [80, 95, 100, 120].forEach((strikePrice) => {
+      const inputs = { ...WITH_DIVIDENDS, strikePrice };
+      const years = yearsFromDays(inputs.daysUntilExpiration);
+      expect(priceCall(inputs).value - pricePut(inputs).value).toBeCloseTo(
+        inputs.stockPrice * Math.exp(-inputs.dividendYield * years) -
+          strikePrice * Math.exp(-inputs.riskFreeRate * years),
+        10,
+      );
+    });
+  });
+});
+
+describe("greeks", () => {
+  it("match reference values", () => {
+    const call = priceCall(AT_THE_MONEY);
+    expect(call.delta).toBeCloseTo(0.6368, 4);
+    expect(call.gamma).toBeCloseTo(0.01876, 5);
+    expect(call.vega).toBeCloseTo(0.3752, 4);
+    expect(call.theta).toBeCloseTo(-0.01757, 5);
+
+    const dividendCall = priceCall(WITH_DIVIDENDS);
+    expect(dividendCall.delta).toBeCloseTo(0.6481, 4);
+    expect(dividendCall.gamma).toBeCloseTo(0.02047, 5);
+    expect(dividendCall.vega).toBeCloseTo(0.2558, 4);
+    expect(dividendCall.theta).toBeCloseTo(-0.01823, 5);
+    expect(pricePut(WITH_DIVIDENDS).delta).toBeCloseTo(-0.337, 4);
+  });
+
+  it("share gamma and vega between the call and the put", () => {
+    const call = priceCall(WITH_DIVIDENDS);
+    const put = pricePut(WITH_DIVIDENDS);
+    expect(put.gamma).toBe(call.gamma);
+    expect(put.vega).toBe(call.vega);
+  });
+
+  it("collapse to intrinsic value at expiry", () => {
+    const expiring = { ...WITH_DIVIDENDS, daysUntilExpiration: 0 };
+    expect(priceCall(expiring)).toEqual({
+      value: 5,
+      intrinsicValue: 5,
+      timeValue: 0,
+      delta: 1,
+      gamma: 0,
+      theta: 0,
+      vega: 0,
+      rho: 0,
+    });
+    expect(priceCall({ ...expiring, strikePrice: 105 }).delta).toBe(0);
+
+    const put = pricePut({ ...expiring, strikePrice: 105 });
+    expect(put.value).toBe(5);
+    expect(put.delta).toBe(-1);
+    expect(put.gamma).toBe(0);
+    expect(put.vega).toBe(0);
+    expect(pricePut(expiring).delta).toBe(0);
+  });
+
+  it("collapse to intrinsic value at zero volatility", () => {
+    const flat = { ...WITH_DIVIDENDS, volatility: 0 };
+    const call = priceCall(flat);
+    expect(call.value).toBe(5);
+    expect(call.delta).toBe(1);
+    expect(call.gamma).toBe(0);
+    expect(call.theta).toBe(0);
+    expect(call.vega).toBe(0);
+
+    const put = pricePut({ ...flat, strikePrice: 110 });
+    expect(put.value).toBe(10);
+    expect(put.delta).toBe(-1);
+    expect(put.gamma).toBe(0);
+  });
+});
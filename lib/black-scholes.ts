@@ -0,0 +1,127 @@
+import { normalCdf, normalPdf } from "./normal";
+
+export type BlackScholesInputs = {
+  stockPrice: number;
+  strikePrice: number;
+  daysUntilExpiration: number;
+  volatility: number;
+  riskFreeRate: number;
+  dividendYield: number;
+};
+
+export type CallPricing = {
+  value: number;
+  intrinsicValue: number;
+  timeValue: number;
+  delta: number;
+  gamma: number;
+  // Per calendar day.
+  theta: number;
+  // Per 1 point (0.01) change in volatility.
+  vega: number;
+  // Per 1 point (0.01) change in the risk-free rate.
+  rho: number;
+};
+
+export const DAYS_PER_YEAR = 365;
+export const TRADING_DAYS_PER_YEAR = 252;
+
+export const yearsFromDays = (days: number) => Math.max(0, days) / DAYS_PER_YEAR;
+
+export const priceCall = ({
+  stockPrice,
+  strikePrice,
+  daysUntilExpiration,
+  volatility,
+  riskFreeRate,
+  dividendYield,
+}: BlackScholesInputs): CallPricing => {
+  const intrinsicValue = Math.max(0, stockPrice - strikePrice);
+  const years = yearsFromDays(daysUntilExpiration);
+
+  if (stockPrice <= 0 || strikePrice <= 0 || years <= 0 || volatility <= 0) {
+    return {
+      value: intrinsicValue,
+      intrinsicValue,
+      timeValue: 0,
+      delta: stockPrice > strikePrice ? 1 : 0,
+      gamma: 0,
+      theta: 0,
+      vega: 0,
+      rho: 0,
+    };
+  }
+
+  const sqrtYears = Math.sqrt(years);
+  const volSqrtYears = volatility * sqrtYears;
+  const d1 =
+    (Math.log(stockPrice / strikePrice) +
+      (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * years) /
+    volSqrtYears;
+  const d2 = d1 - volSqrtYears;
+  const dividendDiscount = Math.exp(-dividendYield * years);
+  const rateDiscount = Math.exp(-riskFreeRate * years);
+  const nd1 = normalCdf(d1);
+  const nd2 = normalCdf(d2);
+  const pdfD1 = normalPdf(d1);
+
+  const value = Math.max(
+    0,
+    stockPrice * dividendDiscount * nd1 - strikePrice * rateDiscount * nd2,
+  );
+  const annualTheta =
+    -(stockPrice * dividendDiscount * pdfD1 * volatility) / (2 * sqrtYears) -
+    riskFreeRate * strikePrice * rateDiscount * nd2 +
+    dividendYield * stockPrice * dividendDiscount * nd1;
+
+  return {
+    value,
+    intrinsicValue,
+    timeValue: Math.max(0, value - intrinsicValue),
+    delta: dividendDiscount * nd1,
+    gamma: (dividendDiscount * pdfD1) / (stockPrice * volSqrtYears),
+    theta: annualTheta / DAYS_PER_YEAR,
+    vega: (stockPrice * dividendDiscount * pdfD1 * sqrtYears) / 100,
+    rho: (strikePrice * years * rateDiscount * nd2) / 100,
+  };
+};
+
+export type PutPricing = CallPricing;
+
+export const pricePut = (inputs: BlackScholesInputs): PutPricing => {
+  const call = priceCall(inputs);
+  const years = yearsFromDays(inputs.daysUntilExpiration);
+  const dividendDiscount = Math.exp(-inputs.dividendYield * years);
+  const rateDiscount = Math.exp(-inputs.riskFreeRate * years);
+  const intrinsicValue = Math.max(0, inputs.strikePrice - inputs.stockPrice);
+
+  if (years <= 0 || inputs.volatility <= 0 || inputs.stockPrice <= 0 || inputs.strikePrice <= 0) {
+    return {
+      ...call,
+      value: intrinsicValue,
+      intrinsicValue,
+      timeValue: 0,
+      delta: inputs.stockPrice < inputs.strikePrice ? -1 : 0,
+    };
+  }
+
+  const value = Math.max(
+    0,
+    call.value - inputs.stockPrice * dividendDiscount + inputs.strikePrice * rateDiscount,
+  );
+
+  return {
+    value,
+    intrinsicValue,
+    timeValue: Math.max(0, value - intrinsicValue),
+    delta: call.delta - dividendDiscount,
+    gamma: call.gamma,
+    theta:
+      call.theta +
+      (inputs.riskFreeRate * inputs.strikePrice * rateDiscount -
+        inputs.dividendYield * inputs.stockPrice * dividendDiscount) /
+        DAYS_PER_YEAR,
+    vega: call.vega,
+    rho: call.rho - (inputs.strikePrice * years * rateDiscount) / 100,
+  };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { reconcileBrokerTrades, type BrokerTrade } from "./broker-import";
+
+const call = (expirationDate: string, strikePrice: number) => ({
+  symbol: "AAPL",
+  expirationDate,
+  type: "call" as const,
+  strikePrice,
+});
+
+const trade = (values: Partial<BrokerTrade> & Pick<BrokerTrade, "line" | "date" | "kind">) => ({
+  symbol: "AAPL",
+  option: null,
+  quantity: 1,
+  price: 0,
+  fees: 0,
+  ...values,
+});
+
+const BUY_300 = trade({ line: 1, date: "2030-01-02", kind: "buyStock", quantity: 300, price: 100 });
+const SELL_JAN = trade({
+  line: 2,
+  date: "2030-01-03",
+  kind: "sellToOpen",
+  option: call("2030-01-18", 105),
+  quantity: 2,
+  price: 1.5,
+});
+const ASSIGN_JAN = trade({
+  line: 3,
+  date: "2030-01-18",
+  kind: "assigned",
+  option: call("2030-01-18", 105),
+  quantity: 2,
+});
+const SELL_FEB = trade({
+  line: 4,
+  date: "2030-01-22",
+  kind: "sellToOpen",
+  option: call("2030-02-15", 110),
+  quantity: 1,
+  price: 2,
+});
+
+const findPlan = (result: ReturnType<typeof reconcileBrokerTrades>, strike: string) =>
+  result.entries.find((entry) => entry.formState.strikePrice === strike);
+
+describe("reconcileBrokerTrades", () => {
+  it("creates a plan for a call sold against held shares", () => {
+    const result = reconcileBrokerTrades([BUY_300, SELL_JAN], []);
+    const plan = findPlan(result, "105");
+    expect(result.createdCount).toBe(1);
+    expect(plan?.formState).toMatchObject({ shares: "300", contracts: "2", premium: "1.5" });
+  });
+
+  it("removes assigned shares from the holding", () => {
+    const result = reconcileBrokerTrades([BUY_300, SELL_JAN, ASSIGN_JAN, SELL_FEB], []);
+    expect(findPlan(result, "105")?.status).toBe("assigned");
+    expect(findPlan(result, "110")?.formState.shares).toBe("100");
+  });
+
+  it("does not remove the assigned shares twice when the stock side is listed", () => {
+    const stockSide = trade({
+      line: 5,
+      date: "2030-01-18",
+      kind: "sellStock",
+      quantity: 200,
+      price: 105,
+    });
+    const result = reconcileBrokerTrades([BUY_300, SELL_JAN, ASSIGN_JAN, stockSide, SELL_FEB], []);
+    expect(findPlan(result, "110")?.formState.shares).toBe("100");
+  });
+});
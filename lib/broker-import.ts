@@ -0,0 +1,434 @@
+import { SHARES_PER_CONTRACT, getDefaultFormState, type FormState } from "./covered-call";
+import { normalizeDateInput } from "./dates";
+import { createJournalEntry, type JournalEntry } from "./journal";
+import { parseOptionSymbol, type OptionContract } from "./occ-symbol";
+import { normalizeHeader, parseCsvNumber, splitCsvLine } from "./price-history";
+
+export const IMPORT_FIELDS = ["date", "action", "symbol", "quantity", "price", "fees"] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: "Trade date",
+  action: "Action",
+  symbol: "Symbol",
+  quantity: "Quantity",
+  price: "Price",
+  fees: "Fees and commissions",
+};
+
+const REQUIRED_FIELDS: ImportField[] = ["date", "action", "symbol", "quantity"];
+
+// Column indexes into the CSV; null leaves the field unmapped.
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type BrokerLayout = {
+  id: string;
+  label: string;
+  columns: Record<ImportField, string[]>;
+};
+
+export const BROKER_LAYOUTS: BrokerLayout[] = [
+  {
+    id: "schwab",
+    label: "Charles Schwab",
+    columns: {
+      date: ["date"],
+      action: ["action"],
+      symbol: ["symbol"],
+      quantity: ["quantity"],
+      price: ["price"],
+      fees: ["fees & comm"],
+    },
+  },
+  {
+    id: "fidelity",
+    label: "Fidelity",
+    columns: {
+      date: ["run date"],
+      action: ["action"],
+      symbol: ["symbol"],
+      quantity: ["quantity"],
+      price: ["price ($)"],
+      fees: ["fees ($)", "commission ($)"],
+    },
+  },
+];
+
+// Spellings the generic mapper tries before the user adjusts anything.
+const GENERIC_COLUMNS: Record<ImportField, string[]> = {
+  date: ["date", "trade date", "run date", "transaction date", "activity date"],
+  action: ["action", "transaction", "type", "activity", "description"],
+  symbol: ["symbol", "security", "instrument", "contract"],
+  quantity: ["quantity", "qty", "shares", "contracts"],
+  price: ["price", "price ($)", "trade price", "fill price"],
+  fees: ["fees & comm", "fees ($)", "commission", "commissions", "fees"],
+};
+
+export type BrokerTradeKind =
+  | "buyStock"
+  | "sellStock"
+  | "sellToOpen"
+  | "buyToClose"
+  | "expired"
+  | "assigned";
+
+export const BROKER_TRADE_LABELS: Record<BrokerTradeKind, string> = {
+  buyStock: "Bought shares",
+  sellStock: "Sold shares",
+  sellToOpen: "Sold to open",
+  buyToClose: "Bought to close",
+  expired: "Expired",
+  assigned: "Assigned",
+};
+
+// Same-day order: shares arrive before calls are written against them, and a closed call is
+// settled before its replacement opens so the pair reads as a roll.
+const SAME_DAY_ORDER: Record<BrokerTradeKind, number> = {
+  buyStock: 0,
+  buyToClose: 1,
+  expired: 1,
+  assigned: 1,
+  sellToOpen: 2,
+  sellStock: 3,
+};
+
+export type BrokerTrade = {
+  line: number;
+  date: string;
+  kind: BrokerTradeKind;
+  symbol: string;
+  option: OptionContract | null;
+  quantity: number;
+  price: number;
+  fees: number;
+};
+
+export type BrokerCsv = {
+  headers: string[];
+  rows: Array<{ line: number; cells: string[] }>;
+};
+
+const countKnownHeaders = (cells: string[]) => {
+  const known = new Set(Object.values(GENERIC_COLUMNS).flat());
+  return cells.filter((cell) => known.has(normalizeHeader(cell))).length;
+};
+
+// Broker exports often open with account banners, so the header is the first line that names at
+// least three known columns.
+export const readBrokerCsv = (text: string): BrokerCsv | null => {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ line: index + 1, text: line }));
+  const headerIndex = lines.findIndex(
+    (line) => line.text.trim() && countKnownHeaders(splitCsvLine(line.text)) >= 3,
+  );
+  if (headerIndex < 0) {
+    return null;
+  }
+
+  return {
+    headers: splitCsvLine(lines[headerIndex].text),
+    rows: lines
+      .slice(headerIndex + 1)
+      .filter((line) => line.text.trim())
+      .map((line) => ({ line: line.line, cells: splitCsvLine(line.text) })),
+  };
+};
+
+const findColumns = (headers: string[], columns: Record<ImportField, string[]>) => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach((field) => {
+    const index = normalized.findIndex((header) => columns[field].includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  });
+  return mapping;
+};
+
+export const getMissingFields = (mapping: ColumnMapping) =>
+  REQUIRED_FIELDS.filter((field) => mapping[field] === null);
+
+export const detectBrokerLayout = (headers: string[]) =>
+  BROKER_LAYOUTS.find((layout) => {
+    const mapping = findColumns(headers, layout.columns);
+    return !getMissingFields(mapping).length && mapping.price !== null;
+  }) ?? null;
+
+export const getLayoutMapping = (headers: string[], layout: BrokerLayout | null) =>
+  findColumns(headers, layout ? layout.columns : GENERIC_COLUMNS);
+
+// Broker wording varies ("Sell to Open", "YOU SOLD OPENING TRANSACTION", "STO"), so actions are
+// matched on keywords. Assignment and expiration win over the buy/sell wording on the same row.
+export const classifyBrokerAction = (
+  action: string,
+  isOption: boolean,
+): BrokerTradeKind | null => {
+  const text = action.toLowerCase();
+  const isSell = /\b(sell|sold|sto)\b/.test(text);
+  const isBuy = /\b(buy|bought|btc|reinvest\w*)\b/.test(text);
+
+  if (isOption && /assign/.test(text)) return "assigned";
+  if (isOption && /expir/.test(text)) return "expired";
+  if (isOption) {
+    if (isSell && !/clos/.test(text)) return "sellToOpen";
+    if (isBuy && !/open/.test(text)) return "buyToClose";
+    return null;
+  }
+  if (isBuy) return "buyStock";
+  if (isSell) return "sellStock";
+  return null;
+};
+
+const parseTradeDate = (value: string) =>
+  normalizeDateInput(value.split(/\s+/)[0] ?? "") ?? normalizeDateInput(value.slice(0, 10));
+
+export const parseBrokerTrades = (csv: BrokerCsv, mapping: ColumnMapping) => {
+  const errors: string[] = [];
+  const missingFields = getMissingFields(mapping);
+  if (missingFields.length) {
+    const labels = missingFields.map((field) => IMPORT_FIELD_LABELS[field]).join(", ");
+    return {
+      trades: [],
+      errors: [`Map the ${labels} column${missingFields.length === 1 ? "" : "s"}`],
+    };
+  }
+
+  const trades: BrokerTrade[] = [];
+  csv.rows.forEach(({ line, cells }) => {
+    const readCell = (field: ImportField) => {
+      const index = mapping[field];
+      return index === null ? "" : (cells[index] ?? "");
+    };
+    const rawSymbol = readCell("symbol");
+    if (!rawSymbol) {
+      // Cash movements and summary rows have no symbol.
+      return;
+    }
+
+    const option = parseOptionSymbol(rawSymbol);
+    const kind = classifyBrokerAction(readCell("action"), option !== null);
+    if (!kind) {
+      return;
+    }
+
+    const date = parseTradeDate(readCell("date"));
+    const quantity = Math.abs(parseCsvNumber(readCell("quantity")));
+    const price = parseCsvNumber(readCell("price"));
+    const fees = Math.abs(parseCsvNumber(readCell("fees")));
+    if (!date) {
+      errors.push(`Line ${line}: "${readCell("date")}" is not a valid date`);
+      return;
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      errors.push(`Line ${line}: missing or invalid quantity`);
+      return;
+    }
+
+    trades.push({
+      line,
+      date,
+      kind,
+      symbol: option ? option.symbol : rawSymbol.trim().toUpperCase(),
+      option,
+      quantity,
+      price: Number.isFinite(price) ? price : 0,
+      fees: Number.isFinite(fees) ? fees : 0,
+    });
+  });
+
+  return {
+    trades: trades.sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        SAME_DAY_ORDER[a.kind] - SAME_DAY_ORDER[b.kind] ||
+        a.line - b.line,
+    ),
+    errors,
+  };
+};
+
+export type ReconcileResult = {
+  entries: JournalEntry[];
+  createdCount: number;
+  updatedCount: number;
+  messages: string[];
+};
+
+type Holding = { shares: number; cost: number; firstDate: string | null; lastPrice: number };
+
+const sellHolding = (holding: Holding, quantity: number) => {
+  if (holding.shares <= 0) {
+    return;
+  }
+  const sold = Math.min(quantity, holding.shares);
+  holding.cost -= (holding.cost / holding.shares) * sold;
+  holding.shares -= sold;
+  if (holding.shares === 0) {
+    holding.firstDate = null;
+  }
+};
+
+const formatAmount = (value: number) => String(Number(value.toFixed(4)));
+
+const matchesContract = (entry: JournalEntry, option: OptionContract) =>
+  entry.formState.symbol.trim().toUpperCase() === option.symbol &&
+  entry.formState.expirationDate === option.expirationDate &&
+  Number.parseFloat(entry.formState.strikePrice) === option.strikePrice &&
+  !entry.formState.ladder.length;
+
+const describeContract = (option: OptionContract) =>
+  `${option.symbol} ${option.strikePrice}C ${option.expirationDate}`;
+
+// Replays the trades in date order against the journal. A call sold to open creates the plan for
+// its contract or refreshes the existing one with the actual fill; closing trades set the status.
+// Share buys supply the purchase date and cost basis, and assignments and share sales reduce the
+// shares left to cover. Returns only the entries that changed.
+export const reconcileBrokerTrades = (
+  trades: BrokerTrade[],
+  existingEntries: JournalEntry[],
+): ReconcileResult => {
+  const entries = [...existingEntries];
+  const changedIds = new Set<string>();
+  const createdIds = new Set<string>();
+  const holdings = new Map<string, Holding>();
+  const closedOn = new Map<string, JournalEntry>();
+  // Shares already removed by an assignment, so the matching stock row isn't counted again.
+  const assignedOn = new Map<string, number>();
+  const messages: string[] = [];
+  const now = new Date().toISOString();
+
+  const saveEntry = (entry: JournalEntry) => {
+    const index = entries.findIndex((item) => item.id === entry.id);
+    const next = { ...entry, updatedAt: now };
+    if (index >= 0) {
+      entries[index] = next;
+    } else {
+      entries.push(next);
+    }
+    changedIds.add(entry.id);
+  };
+
+  const findPlan = (option: OptionContract) =>
+    [...entries]
+      .reverse()
+      .find((entry) => !entry.archived && matchesContract(entry, option));
+
+  trades.forEach((trade) => {
+    const holding = holdings.get(trade.symbol) ?? {
+      shares: 0,
+      cost: 0,
+      firstDate: null,
+      lastPrice: 0,
+    };
+
+    if (trade.kind === "buyStock" || trade.kind === "sellStock") {
+      if (trade.kind === "buyStock") {
+        holding.cost += trade.quantity * trade.price + trade.fees;
+        holding.shares += trade.quantity;
+        holding.firstDate = holding.firstDate ?? trade.date;
+      } else {
+        const assignedKey = `${trade.symbol}|${trade.date}`;
+        const alreadyRemoved = Math.min(assignedOn.get(assignedKey) ?? 0, trade.quantity);
+        assignedOn.set(assignedKey, (assignedOn.get(assignedKey) ?? 0) - alreadyRemoved);
+        sellHolding(holding, trade.quantity - alreadyRemoved);
+      }
+      holding.lastPrice = trade.price || holding.lastPrice;
+      holdings.set(trade.symbol, holding);
+      return;
+    }
+
+    const option = trade.option;
+    if (!option) {
+      return;
+    }
+    if (option.type === "put") {
+      messages.push(`Line ${trade.line}: skipped ${option.symbol} put; only calls become plans`);
+      return;
+    }
+
+    if (trade.kind === "assigned") {
+      const assignedShares = trade.quantity * SHARES_PER_CONTRACT;
+      const assignedKey = `${option.symbol}|${trade.date}`;
+      sellHolding(holding, assignedShares);
+      assignedOn.set(assignedKey, (assignedOn.get(assignedKey) ?? 0) + assignedShares);
+      holdings.set(option.symbol, holding);
+    }
+
+    const plan = findPlan(option);
+    if (trade.kind !== "sellToOpen") {
+      if (!plan) {
+        messages.push(`Line ${trade.line}: no plan for ${describeContract(option)} to close`);
+        return;
+      }
+      const status =
+        trade.kind === "buyToClose" ? "closed" : trade.kind === "expired" ? "expired" : "assigned";
+      saveEntry({ ...plan, status });
+      if (trade.kind === "buyToClose") {
+        closedOn.set(`${option.symbol}|${trade.date}`, plan);
+      }
+      return;
+    }
+
+    // Several fills for the same contract within one import average into a single plan.
+    const isFromThisImport =
+      plan !== undefined && changedIds.has(plan.id) && plan.status === "open";
+    const priorContracts = isFromThisImport ? Number.parseFloat(plan.formState.contracts) || 0 : 0;
+    const priorPremium = isFromThisImport ? Number.parseFloat(plan.formState.premium) || 0 : 0;
+    const priorFees = isFromThisImport
+      ? (Number.parseFloat(plan.formState.commissionPerContract) || 0) * priorContracts
+      : 0;
+    const contracts = priorContracts + trade.quantity;
+    const premium = (priorPremium * priorContracts + trade.price * trade.quantity) / contracts;
+    const fees = priorFees + trade.fees;
+    const baseState: FormState = plan?.formState ?? {
+      ...getDefaultFormState(),
+      dividendPerShare: "0",
+      dividendsExpected: "0",
+    };
+    const formState: FormState = {
+      ...baseState,
+      symbol: option.symbol,
+      strikePrice: formatAmount(option.strikePrice),
+      expirationDate: option.expirationDate,
+      premium: formatAmount(premium),
+      contracts: formatAmount(contracts),
+      shares: formatAmount(Math.max(holding.shares, contracts * SHARES_PER_CONTRACT)),
+      bid: "",
+      ask: "",
+      fillMode: "custom",
+    };
+    if (fees > 0) {
+      formState.commissionPerContract = formatAmount(fees / contracts);
+    }
+    if (!plan) {
+      // The export carries no quote, so the last share fill (or the strike) stands in for it.
+      formState.stockPrice = formatAmount(holding.lastPrice || option.strikePrice);
+    }
+    if (holding.shares > 0 && holding.firstDate) {
+      formState.sharePurchaseDate = holding.firstDate;
+      formState.taxCostBasis = formatAmount(holding.cost / holding.shares);
+    }
+
+    const entry = plan
+      ? { ...plan, formState, status: "open" as const, openDate: trade.date }
+      : createJournalEntry(formState, { openDate: trade.date });
+    if (!plan) {
+      createdIds.add(entry.id);
+    }
+    saveEntry(entry);
+
+    const rolledFrom = closedOn.get(`${option.symbol}|${trade.date}`);
+    if (rolledFrom && rolledFrom.id !== entry.id) {
+      const current = entries.find((item) => item.id === rolledFrom.id);
+      if (current) {
+        saveEntry({ ...current, status: "rolled" });
+      }
+    }
+  });
+
+  return {
+    entries: entries.filter((entry) => changedIds.has(entry.id)),
+    createdCount: createdIds.size,
+    updatedCount: Array.from(changedIds).filter((id) => !createdIds.has(id)).length,
+    messages,
+  };
+};
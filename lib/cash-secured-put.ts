@@ -0,0 +1,251 @@
+import { computeAnnualizedReturn } from "./covered-call";
+import { calculateDaysUntilExpiration, formatDateInput, isValidDateInput } from "./dates";
+import { probabilityAbove } from "./probability";
+import {
+  getTradeQualitySubtitle,
+  scoreFactors,
+  type FactorRule,
+  type TradeQuality,
+} from "./scoring";
+
+const PUT_FACTORS: Record<
+  "premiumPerDay" | "entryDiscount" | "returnOnCash" | "impliedVolatility" | "assignmentProbability",
+  FactorRule & { label: string }
+> = {
+  premiumPerDay: {
+    label: "Premium per day",
+    weight: 1,
+    bands: [
+      { below: 0.04, points: -15, note: "Premium/day is low" },
+      { below: 0.1, points: 0, note: "Premium/day is moderate" },
+      { below: 0.18, inclusive: true, points: 10, note: "Premium/day is attractive" },
+      { below: null, points: 15, note: "Premium/day is very high", elevatedRisk: true },
+    ],
+  },
+  entryDiscount: {
+    label: "Entry discount",
+    weight: 1,
+    bands: [
+      { below: 2, points: -15, note: "Little discount to today's price" },
+      { below: 5, inclusive: true, points: 0, note: "Entry discount is modest" },
+      { below: 10, inclusive: true, points: 10, note: "Entry discount is solid" },
+      { below: null, points: 15, note: "Entry discount is deep" },
+    ],
+  },
+  returnOnCash: {
+    label: "Annualized return on cash",
+    weight: 1,
+    bands: [
+      { below: 8, points: -10, note: "Return on cash is limited" },
+      { below: 15, points: 0, note: "Return on cash is moderate" },
+      { below: 30, inclusive: true, points: 10, note: "Return on cash is strong" },
+      { below: null, points: 15, note: "Return on cash is exceptional" },
+    ],
+  },
+  impliedVolatility: {
+    label: "Implied volatility",
+    weight: 1,
+    bands: [
+      { below: 15, points: -8, note: "IV is low for option income" },
+      { below: 25, inclusive: true, points: 0, note: "IV is typical" },
+      { below: 45, inclusive: true, points: 10, note: "IV supports stronger premium" },
+      { below: 65, inclusive: true, points: 5, note: "IV is elevated", elevatedRisk: true },
+      { below: null, points: -5, note: "IV is extremely elevated", elevatedRisk: true },
+    ],
+  },
+  assignmentProbability: {
+    label: "Assignment odds",
+    weight: 1,
+    bands: [
+      { below: 20, points: 0, note: "Assignment is unlikely" },
+      {
+        below: 40,
+        inclusive: true,
+        points: 5,
+        note: "Reasonable odds of owning shares at the discount",
+      },
+      { below: 60, inclusive: true, points: -5, note: "Assignment is about a coin flip" },
+      {
+        below: null,
+        points: -15,
+        note: "Put is likely to finish in the money",
+        elevatedRisk: true,
+      },
+    ],
+  },
+};
+
+export const evaluatePutTradeQuality = ({
+  premiumPerDayPct,
+  discountToSpotPct,
+  annualizedReturnPct,
+  impliedVolatilityPct,
+  assignmentProbabilityPct,
+}: {
+  premiumPerDayPct: number;
+  discountToSpotPct: number;
+  annualizedReturnPct: number;
+  impliedVolatilityPct: number;
+  assignmentProbabilityPct: number;
+}): TradeQuality => {
+  const values: Record<keyof typeof PUT_FACTORS, number> = {
+    premiumPerDay: premiumPerDayPct,
+    entryDiscount: discountToSpotPct,
+    returnOnCash: annualizedReturnPct,
+    impliedVolatility: impliedVolatilityPct,
+    assignmentProbability: assignmentProbabilityPct,
+  };
+
+  return scoreFactors(
+    50,
+    (Object.keys(PUT_FACTORS) as Array<keyof typeof PUT_FACTORS>).map((id) => ({
+      id,
+      value: values[id],
+      ...PUT_FACTORS[id],
+    })),
+  );
+};
+
+export const getDefaultPutFormState = () => {
+  const defaultExpiration = new Date();
+  defaultExpiration.setDate(defaultExpiration.getDate() + 30);
+
+  return {
+    symbol: "AAPL",
+    stockPrice: "100",
+    strikePrice: "95",
+    premium: "2.10",
+    shares: "100",
+    impliedVolatility: "30",
+    riskFreeRate: "4.5",
+    expirationDate: formatDateInput(defaultExpiration),
+  };
+};
+
+export type PutFormState = ReturnType<typeof getDefaultPutFormState>;
+
+export const getResetPutFormState = (): PutFormState => ({
+  symbol: "",
+  stockPrice: "0",
+  strikePrice: "0",
+  premium: "0",
+  shares: "0",
+  impliedVolatility: "30",
+  riskFreeRate: "4.5",
+  expirationDate: formatDateInput(new Date()),
+});
+
+const PUT_NUMBER_FIELDS: Array<keyof Omit<PutFormState, "symbol" | "expirationDate">> = [
+  "stockPrice",
+  "strikePrice",
+  "premium",
+  "shares",
+  "impliedVolatility",
+  "riskFreeRate",
+];
+
+export const sanitizePutFormState = (parsed: unknown, defaults: PutFormState): PutFormState => {
+  const source = (typeof parsed === "object" && parsed !== null ? parsed : {}) as Record<
+    string,
+    unknown
+  >;
+  const nextState: PutFormState = { ...defaults };
+
+  if (typeof source.symbol === "string") {
+    nextState.symbol = source.symbol.toUpperCase().slice(0, 10);
+  }
+
+  PUT_NUMBER_FIELDS.forEach((field) => {
+    const value = source[field];
+    if (typeof value === "string") {
+      nextState[field] = value;
+    } else if (typeof value === "number" && Number.isFinite(value)) {
+      nextState[field] = String(value);
+    }
+  });
+
+  if (typeof source.expirationDate === "string" && isValidDateInput(source.expirationDate)) {
+    nextState.expirationDate = source.expirationDate;
+  }
+
+  return nextState;
+};
+
+export const calculateCashSecuredPut = (formState: PutFormState) => {
+  const parsedStockPrice = Number.parseFloat(formState.stockPrice);
+  const parsedStrikePrice = Number.parseFloat(formState.strikePrice);
+  const parsedPremium = Number.parseFloat(formState.premium);
+  const parsedShares = Number.parseInt(formState.shares, 10);
+  const parsedImpliedVolatility = Number.parseFloat(formState.impliedVolatility);
+  const parsedRiskFreeRate = Number.parseFloat(formState.riskFreeRate);
+  const safeStockPrice = Number.isFinite(parsedStockPrice) ? parsedStockPrice : 0;
+  const safeStrikePrice = Number.isFinite(parsedStrikePrice) ? parsedStrikePrice : 0;
+  const safePremium = Number.isFinite(parsedPremium) ? parsedPremium : 0;
+  const safeShares = Number.isFinite(parsedShares) ? parsedShares : 0;
+  const safeImpliedVolatility = Number.isFinite(parsedImpliedVolatility)
+    ? Math.min(100, Math.max(5, parsedImpliedVolatility))
+    : 30;
+  const safeRiskFreeRate = Number.isFinite(parsedRiskFreeRate)
+    ? Math.min(20, Math.max(0, parsedRiskFreeRate))
+    : 0;
+  const daysUntilExpiration = calculateDaysUntilExpiration(formState.expirationDate);
+
+  const cashReserved = safeStrikePrice * safeShares;
+  const premiumTotal = safePremium * safeShares;
+  const effectivePurchasePrice = safeStrikePrice - safePremium;
+  const breakevenPrice = effectivePurchasePrice;
+  const returnOnCash = safeStrikePrice > 0 ? safePremium / safeStrikePrice : 0;
+  const annualizedReturn = computeAnnualizedReturn({
+    totalReturn: returnOnCash,
+    days: daysUntilExpiration,
+  });
+  const premiumPct = safeStrikePrice > 0 ? (safePremium / safeStrikePrice) * 100 : 0;
+  const premiumPerDayPct = daysUntilExpiration > 0 ? premiumPct / daysUntilExpiration : 0;
+  const strikeBelowSpotPct =
+    safeStockPrice > 0 ? ((safeStockPrice - safeStrikePrice) / safeStockPrice) * 100 : 0;
+  const discountToSpotPct =
+    safeStockPrice > 0 ? ((safeStockPrice - effectivePurchasePrice) / safeStockPrice) * 100 : 0;
+
+  const lognormalInputs = {
+    stockPrice: safeStockPrice,
+    daysUntilExpiration,
+    volatility: safeImpliedVolatility / 100,
+    riskFreeRate: safeRiskFreeRate / 100,
+    dividendYield: 0,
+  };
+  const assignmentProbability =
+    safeStrikePrice > 0 ? 1 - probabilityAbove(lognormalInputs, safeStrikePrice) : 0;
+  const profitProbability =
+    breakevenPrice > 0 ? probabilityAbove(lognormalInputs, breakevenPrice) : 1;
+
+  const tradeQuality = evaluatePutTradeQuality({
+    premiumPerDayPct,
+    discountToSpotPct,
+    annualizedReturnPct: annualizedReturn * 100,
+    impliedVolatilityPct: safeImpliedVolatility,
+    assignmentProbabilityPct: assignmentProbability * 100,
+  });
+
+  return {
+    safeStockPrice,
+    safeStrikePrice,
+    safePremium,
+    safeShares,
+    safeImpliedVolatility,
+    safeRiskFreeRate,
+    daysUntilExpiration,
+    cashReserved,
+    premiumTotal,
+    effectivePurchasePrice,
+    breakevenPrice,
+    returnOnCash,
+    annualizedReturn,
+    premiumPerDayPct,
+    strikeBelowSpotPct,
+    discountToSpotPct,
+    assignmentProbability,
+    profitProbability,
+    tradeQuality,
+    tradeQualitySubtitle: getTradeQualitySubtitle(tradeQuality),
+  };
+};
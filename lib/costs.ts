@@ -0,0 +1,128 @@
+export type FillMode = "mid" | "natural" | "custom";
+
+export const FILL_MODE_LABELS: Record<FillMode, string> = {
+  mid: "Mid",
+  natural: "Natural (bid)",
+  custom: "Custom (premium above)",
+};
+
+export const isFillMode = (value: string): value is FillMode =>
+  value === "mid" || value === "natural" || value === "custom";
+
+export type CostInputs = {
+  commissionPerContract: number;
+  commissionPerShare: number;
+  regulatoryFeePerContract: number;
+  assignmentFee: number;
+};
+
+export type CostLineItem = {
+  id: string;
+  label: string;
+  amount: number;
+};
+
+export type TradingCosts = {
+  entryCostsTotal: number;
+  assignmentCostsTotal: number;
+  totalCosts: number;
+  slippageTotal: number | null;
+  lineItems: CostLineItem[];
+};
+
+const toCost = (value: string) => {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? Math.max(0, parsed) : 0;
+};
+
+export const parseCostInputs = (values: {
+  commissionPerContract: string;
+  commissionPerShare: string;
+  regulatoryFeePerContract: string;
+  assignmentFee: string;
+}): CostInputs => ({
+  commissionPerContract: toCost(values.commissionPerContract),
+  commissionPerShare: toCost(values.commissionPerShare),
+  regulatoryFeePerContract: toCost(values.regulatoryFeePerContract),
+  assignmentFee: toCost(values.assignmentFee),
+});
+
+export const parseQuote = (bid: string, ask: string) => {
+  const parsedBid = Number.parseFloat(bid);
+  const parsedAsk = Number.parseFloat(ask);
+  if (
+    !Number.isFinite(parsedBid) ||
+    !Number.isFinite(parsedAsk) ||
+    parsedBid < 0 ||
+    parsedAsk < parsedBid
+  ) {
+    return null;
+  }
+
+  return { bid: parsedBid, ask: parsedAsk, mid: (parsedBid + parsedAsk) / 2 };
+};
+
+// Premium a sell order is assumed to fill at; null keeps the premium as entered.
+export const getFillPremium = (mode: FillMode, bid: string, ask: string) => {
+  const quote = parseQuote(bid, ask);
+  if (!quote || mode === "custom") {
+    return null;
+  }
+  return mode === "mid" ? quote.mid : quote.bid;
+};
+
+// Assignment is charged once per assignment event, not per contract.
+export const calculateTradingCosts = (
+  inputs: CostInputs,
+  {
+    shares,
+    callContracts,
+    putContracts,
+    premiumFilled,
+    quoteMid,
+    quotedShares,
+  }: {
+    shares: number;
+    callContracts: number;
+    putContracts: number;
+    premiumFilled: number;
+    quoteMid: number | null;
+    quotedShares: number;
+  },
+): TradingCosts => {
+  const optionContracts = callContracts + putContracts;
+  const lineItems: CostLineItem[] = [
+    {
+      id: "optionCommission",
+      label: `Option commission (${optionContracts} contract${optionContracts === 1 ? "" : "s"})`,
+      amount: inputs.commissionPerContract * optionContracts,
+    },
+    {
+      id: "regulatoryFees",
+      label: "Regulatory fees",
+      amount: inputs.regulatoryFeePerContract * optionContracts,
+    },
+    {
+      id: "stockCommission",
+      label: `Stock commission (${shares} shares)`,
+      amount: inputs.commissionPerShare * shares,
+    },
+  ].filter((item) => item.amount > 0);
+  const entryCostsTotal = lineItems.reduce((sum, item) => sum + item.amount, 0);
+  const assignmentCostsTotal = callContracts > 0 ? inputs.assignmentFee : 0;
+  if (assignmentCostsTotal > 0) {
+    lineItems.push({
+      id: "assignmentFee",
+      label: "Assignment fee (if called away)",
+      amount: assignmentCostsTotal,
+    });
+  }
+
+  return {
+    entryCostsTotal,
+    assignmentCostsTotal,
+    totalCosts: entryCostsTotal + assignmentCostsTotal,
+    slippageTotal: quoteMid === null ? null : (quoteMid - premiumFilled) * quotedShares,
+    lineItems,
+  };
+};
@@ -0,0 +1,769 @@
+import { DAYS_PER_YEAR, priceCall, pricePut } from "./black-scholes";
+import { calculateDaysUntilExpiration, formatDateInput, isValidDateInput } from "./dates";
+import {
+  calculateTradingCosts,
+  isFillMode,
+  parseCostInputs,
+  parseQuote,
+  type FillMode,
+} from "./costs";
+import { analyzeDividendRisk, isDividendInWindow, type ScheduledDividend } from "./dividends";
+import { createId } from "./ids";
+import {
+  COVERED_CALL_FACTOR_IDS,
+  COVERED_CALL_FACTOR_LABELS,
+  DEFAULT_SCORING_PROFILE,
+  getTradeQualitySubtitle,
+  scoreFactors,
+  type CoveredCallFactorId,
+  type ScoringProfile,
+  type TradeQuality,
+} from "./scoring";
+import {
+  calculateCoveredCallProbabilities,
+  expectedPriceAtExpiration,
+  expectedPutPayoff,
+} from "./probability";
+
+export const evaluateTradeQuality = (
+  {
+    premiumPerDayPct,
+    downsideToBreakEvenPct,
+    upsideCapPct,
+    totalReturnPct,
+    impliedVolatilityPct,
+    assignmentProbabilityPct,
+    maxLossPct = null,
+  }: {
+    premiumPerDayPct: number;
+    downsideToBreakEvenPct: number;
+    upsideCapPct: number;
+    totalReturnPct: number;
+    impliedVolatilityPct: number;
+    assignmentProbabilityPct: number;
+    maxLossPct?: number | null;
+  },
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): TradeQuality => {
+  // With a protective put the defined max loss replaces the breakeven cushion.
+  const values: Record<CoveredCallFactorId, number | null> = {
+    premiumPerDay: premiumPerDayPct,
+    downsideCushion: maxLossPct === null ? downsideToBreakEvenPct : null,
+    maxLoss: maxLossPct,
+    upsideRoom: upsideCapPct,
+    totalReturn: totalReturnPct,
+    impliedVolatility: impliedVolatilityPct,
+    assignmentProbability: assignmentProbabilityPct,
+  };
+
+  return scoreFactors(
+    profile.baseScore,
+    COVERED_CALL_FACTOR_IDS.flatMap((id) => {
+      const value = values[id];
+      return value === null
+        ? []
+        : [{ id, label: COVERED_CALL_FACTOR_LABELS[id], value, ...profile.factors[id] }];
+    }),
+  );
+};
+
+export const computeAnnualizedReturn = ({
+  totalReturn,
+  days,
+}: {
+  totalReturn: number;
+  days: number;
+}) => (days > 0 ? totalReturn * (365 / days) : 0);
+
+export const SHARES_PER_CONTRACT = 100;
+
+export type LadderLeg = {
+  id: string;
+  contracts: string;
+  strikePrice: string;
+  premium: string;
+};
+
+export type CallLot = {
+  contracts: number;
+  strikePrice: number;
+  premium: number;
+};
+
+export type DividendEvent = {
+  id: string;
+  exDate: string;
+  amount: string;
+};
+
+export const createLadderLeg = (
+  values: Partial<Omit<LadderLeg, "id">> = {},
+): LadderLeg => ({
+  id: createId(),
+  contracts: values.contracts ?? "1",
+  strikePrice: values.strikePrice ?? "",
+  premium: values.premium ?? "",
+});
+
+export const createDividendEvent = (
+  values: Partial<Omit<DividendEvent, "id">> = {},
+): DividendEvent => ({
+  id: createId(),
+  exDate: values.exDate ?? "",
+  amount: values.amount ?? "",
+});
+
+export const getDefaultFormState = () => {
+  const defaultExpiration = new Date();
+  defaultExpiration.setDate(defaultExpiration.getDate() + 30);
+
+  return {
+    symbol: "AAPL",
+    stockPrice: "95",
+    strikePrice: "105",
+    premium: "2.75",
+    dividendPerShare: "0.25",
+    dividendsExpected: "1",
+    shares: "100",
+    contracts: "",
+    ladder: [] as LadderLeg[],
+    dividends: [] as DividendEvent[],
+    impliedVolatility: "30",
+    riskFreeRate: "4.5",
+    adjustedBasis: "",
+    expirationDate: formatDateInput(defaultExpiration),
+    putStrikePrice: "",
+    putCost: "",
+    putExpirationDate: "",
+    atr14: "",
+    adx14: "",
+    rsi14: "",
+    ma20: "",
+    ma50: "",
+    ma200: "",
+    taxAccount: "",
+    sharePurchaseDate: "",
+    taxCostBasis: "",
+    federalRate: "24",
+    longTermRate: "15",
+    stateRate: "5",
+    commissionPerContract: "",
+    commissionPerShare: "",
+    regulatoryFeePerContract: "",
+    assignmentFee: "",
+    bid: "",
+    ask: "",
+    fillMode: "custom" as FillMode,
+  };
+};
+
+export type FormState = ReturnType<typeof getDefaultFormState>;
+
+export const getResetFormState = (): FormState => ({
+  symbol: "",
+  stockPrice: "0",
+  strikePrice: "0",
+  premium: "0",
+  dividendPerShare: "0",
+  dividendsExpected: "0",
+  shares: "0",
+  contracts: "",
+  ladder: [],
+  dividends: [],
+  impliedVolatility: "30",
+  riskFreeRate: "4.5",
+  adjustedBasis: "",
+  expirationDate: formatDateInput(new Date()),
+  putStrikePrice: "",
+  putCost: "",
+  putExpirationDate: "",
+  atr14: "",
+  adx14: "",
+  rsi14: "",
+  ma20: "",
+  ma50: "",
+  ma200: "",
+  taxAccount: "",
+  sharePurchaseDate: "",
+  taxCostBasis: "",
+  federalRate: "24",
+  longTermRate: "15",
+  stateRate: "5",
+  commissionPerContract: "",
+  commissionPerShare: "",
+  regulatoryFeePerContract: "",
+  assignmentFee: "",
+  bid: "",
+  ask: "",
+  fillMode: "custom",
+});
+
+export type FormStringField = Exclude<keyof FormState, "ladder" | "dividends">;
+
+const NUMBER_FIELDS: Array<
+  Exclude<
+    FormStringField,
+    | "symbol"
+    | "expirationDate"
+    | "putExpirationDate"
+    | "taxAccount"
+    | "sharePurchaseDate"
+    | "fillMode"
+  >
+> = [
+  "stockPrice",
+  "strikePrice",
+  "premium",
+  "dividendPerShare",
+  "dividendsExpected",
+  "shares",
+  "contracts",
+  "impliedVolatility",
+  "riskFreeRate",
+  "adjustedBasis",
+  "putStrikePrice",
+  "putCost",
+  "atr14",
+  "adx14",
+  "rsi14",
+  "ma20",
+  "ma50",
+  "ma200",
+  "taxCostBasis",
+  "federalRate",
+  "longTermRate",
+  "stateRate",
+  "commissionPerContract",
+  "commissionPerShare",
+  "regulatoryFeePerContract",
+  "assignmentFee",
+  "bid",
+  "ask",
+];
+
+const toFieldString = (value: unknown) =>
+  typeof value === "string"
+    ? value
+    : typeof value === "number" && Number.isFinite(value)
+      ? String(value)
+      : null;
+
+const sanitizeLadderLeg = (value: unknown): LadderLeg | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const source = value as Record<string, unknown>;
+  const contracts = toFieldString(source.contracts);
+  const strikePrice = toFieldString(source.strikePrice);
+  const premium = toFieldString(source.premium);
+  if (contracts === null || strikePrice === null) {
+    return null;
+  }
+
+  return {
+    id: typeof source.id === "string" && source.id ? source.id : createId(),
+    contracts,
+    strikePrice,
+    premium: premium ?? "",
+  };
+};
+
+const sanitizeDividendEvent = (value: unknown): DividendEvent | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const source = value as Record<string, unknown>;
+  const amount = toFieldString(source.amount);
+  if (typeof source.exDate !== "string" || amount === null) {
+    return null;
+  }
+
+  return {
+    id: typeof source.id === "string" && source.id ? source.id : createId(),
+    exDate: isValidDateInput(source.exDate) ? source.exDate : "",
+    amount,
+  };
+};
+
+export const sanitizeFormState = (parsed: unknown, defaults: FormState): FormState => {
+  const source = (typeof parsed === "object" && parsed !== null ? parsed : {}) as Record<
+    string,
+    unknown
+  >;
+  const nextState: FormState = { ...defaults };
+
+  if (typeof source.symbol === "string") {
+    nextState.symbol = source.symbol.toUpperCase().slice(0, 10);
+  }
+
+  NUMBER_FIELDS.forEach((field) => {
+    const value = toFieldString(source[field]);
+    if (value !== null) {
+      nextState[field] = value;
+    }
+  });
+
+  if (Array.isArray(source.ladder)) {
+    nextState.ladder = source.ladder
+      .map(sanitizeLadderLeg)
+      .filter((leg): leg is LadderLeg => leg !== null);
+  }
+
+  if (Array.isArray(source.dividends)) {
+    nextState.dividends = source.dividends
+      .map(sanitizeDividendEvent)
+      .filter((event): event is DividendEvent => event !== null);
+  }
+
+  if (typeof source.expirationDate === "string" && isValidDateInput(source.expirationDate)) {
+    nextState.expirationDate = source.expirationDate;
+  }
+
+  if (
+    typeof source.putExpirationDate === "string" &&
+    (!source.putExpirationDate || isValidDateInput(source.putExpirationDate))
+  ) {
+    nextState.putExpirationDate = source.putExpirationDate;
+  }
+
+  if (source.taxAccount === "" || source.taxAccount === "taxable" || source.taxAccount === "ira") {
+    nextState.taxAccount = source.taxAccount;
+  }
+
+  if (typeof source.fillMode === "string" && isFillMode(source.fillMode)) {
+    nextState.fillMode = source.fillMode;
+  }
+
+  if (
+    typeof source.sharePurchaseDate === "string" &&
+    (!source.sharePurchaseDate || isValidDateInput(source.sharePurchaseDate))
+  ) {
+    nextState.sharePurchaseDate = source.sharePurchaseDate;
+  }
+
+  return nextState;
+};
+
+const ZERO_COST_COLLAR_TOLERANCE = 0.05;
+
+const parseLadderLot = (leg: LadderLeg): CallLot | null => {
+  const contracts = Number.parseInt(leg.contracts, 10);
+  const strikePrice = Number.parseFloat(leg.strikePrice);
+  const premium = Number.parseFloat(leg.premium);
+
+  if (!Number.isFinite(contracts) || contracts <= 0) {
+    return null;
+  }
+  if (!Number.isFinite(strikePrice) || strikePrice <= 0) {
+    return null;
+  }
+
+  return { contracts, strikePrice, premium: Number.isFinite(premium) ? premium : 0 };
+};
+
+const parseDividendEvent = (event: DividendEvent): ScheduledDividend | null => {
+  const amount = Number.parseFloat(event.amount);
+  if (!event.exDate || !isValidDateInput(event.exDate) || !Number.isFinite(amount) || amount <= 0) {
+    return null;
+  }
+
+  return {
+    exDate: event.exDate,
+    amount,
+    daysUntilExDate: calculateDaysUntilExpiration(event.exDate),
+  };
+};
+
+// Fills lots in order until the shares run out, so the calls never exceed the stock held.
+const allocateCallLots = (lots: CallLot[], maxContracts: number) => {
+  let remaining = maxContracts;
+
+  return lots.map((lot) => {
+    const contracts = Math.min(lot.contracts, remaining);
+    remaining -= contracts;
+    return { ...lot, contracts };
+  });
+};
+
+export type CoveredCallCalculations = ReturnType<typeof calculateCoveredCall>;
+
+export const calculateCoveredCall = (
+  formState: FormState,
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+) => {
+  const {
+    stockPrice,
+    strikePrice,
+    premium,
+    dividendPerShare,
+    dividendsExpected,
+    shares,
+    contracts,
+    ladder,
+    dividends,
+    impliedVolatility,
+    riskFreeRate,
+    adjustedBasis,
+    expirationDate,
+    putStrikePrice,
+    putCost,
+    putExpirationDate,
+  } = formState;
+  const parsedStockPrice = Number.parseFloat(stockPrice);
+  const parsedStrikePrice = Number.parseFloat(strikePrice);
+  const parsedPremium = Number.parseFloat(premium);
+  const parsedDividendPerShare = Number.parseFloat(dividendPerShare);
+  const parsedDividendsExpected = Number.parseInt(dividendsExpected, 10);
+  const parsedShares = Number.parseInt(shares, 10);
+  const parsedContracts = Number.parseInt(contracts, 10);
+  const parsedImpliedVolatility = Number.parseFloat(impliedVolatility);
+  const parsedRiskFreeRate = Number.parseFloat(riskFreeRate);
+  const parsedAdjustedBasis = Number.parseFloat(adjustedBasis);
+  const parsedPutStrikePrice = Number.parseFloat(putStrikePrice);
+  const parsedPutCost = Number.parseFloat(putCost);
+  const safeStockPrice = Number.isFinite(parsedStockPrice)
+    ? parsedStockPrice
+    : 0;
+  const safeStrikePrice = Number.isFinite(parsedStrikePrice)
+    ? parsedStrikePrice
+    : 0;
+  const safePremium = Number.isFinite(parsedPremium) ? parsedPremium : 0;
+  const safeDividendPerShare = Number.isFinite(parsedDividendPerShare)
+    ? parsedDividendPerShare
+    : 0;
+  const safeDividendsExpected = Number.isFinite(parsedDividendsExpected)
+    ? parsedDividendsExpected
+    : 0;
+  const safeShares = Number.isFinite(parsedShares) ? parsedShares : 0;
+  const safeImpliedVolatility = Number.isFinite(parsedImpliedVolatility)
+    ? Math.min(100, Math.max(5, parsedImpliedVolatility))
+    : 30;
+  const safeRiskFreeRate = Number.isFinite(parsedRiskFreeRate)
+    ? Math.min(20, Math.max(0, parsedRiskFreeRate))
+    : 0;
+  const daysUntilExpiration = calculateDaysUntilExpiration(expirationDate);
+  const safePutStrikePrice =
+    Number.isFinite(parsedPutStrikePrice) && parsedPutStrikePrice > 0
+      ? parsedPutStrikePrice
+      : 0;
+  const hasProtectivePut = safePutStrikePrice > 0;
+  const safePutCost =
+    hasProtectivePut && Number.isFinite(parsedPutCost) ? Math.max(0, parsedPutCost) : 0;
+  const putDaysUntilExpiration = !hasProtectivePut
+    ? 0
+    : putExpirationDate
+      ? calculateDaysUntilExpiration(putExpirationDate)
+      : daysUntilExpiration;
+  const putExpiresBeforeCall =
+    hasProtectivePut && putDaysUntilExpiration < daysUntilExpiration;
+  const maxContracts = Math.floor(Math.max(0, safeShares) / SHARES_PER_CONTRACT);
+  const ladderLots = ladder
+    .map(parseLadderLot)
+    .filter((lot): lot is CallLot => lot !== null);
+  const ladderContracts = ladderLots.reduce((sum, lot) => sum + lot.contracts, 0);
+  const hasExplicitContracts = Number.isFinite(parsedContracts) && parsedContracts >= 0;
+  const primaryContracts = hasExplicitContracts
+    ? parsedContracts
+    : Math.max(0, maxContracts - ladderContracts);
+  const requestedContracts = primaryContracts + ladderContracts;
+  const allocatedLots = allocateCallLots(
+    [{ contracts: primaryContracts, strikePrice: safeStrikePrice, premium: safePremium }, ...ladderLots],
+    maxContracts,
+  );
+  const callLots = allocatedLots.filter((lot) => lot.contracts > 0);
+  const contractsSold = callLots.reduce((sum, lot) => sum + lot.contracts, 0);
+  const excessContracts = requestedContracts - contractsSold;
+  const contractsError =
+    excessContracts > 0
+      ? `${requestedContracts} contracts need ${requestedContracts * SHARES_PER_CONTRACT} shares but only ${safeShares} are owned; the extra ${excessContracts} are ignored.`
+      : null;
+  const coveredShares = contractsSold * SHARES_PER_CONTRACT;
+  const uncoveredShares = Math.max(0, safeShares - coveredShares);
+  const primaryCoveredShares = allocatedLots[0].contracts * SHARES_PER_CONTRACT;
+  const sumOverLots = (getValue: (lot: CallLot) => number) =>
+    callLots.reduce((sum, lot) => sum + getValue(lot) * lot.contracts, 0);
+  const blendedStrikePrice =
+    contractsSold > 0 ? sumOverLots((lot) => lot.strikePrice) / contractsSold : safeStrikePrice;
+  const blendedPremium =
+    contractsSold > 0 ? sumOverLots((lot) => lot.premium) / contractsSold : safePremium;
+  const lowestStrikePrice = callLots.length
+    ? Math.min(...callLots.map((lot) => lot.strikePrice))
+    : safeStrikePrice;
+  const hasLadder = callLots.length > 1;
+  const premiumTotal = sumOverLots((lot) => lot.premium) * SHARES_PER_CONTRACT;
+  const premiumPerShare = safeShares > 0 ? premiumTotal / safeShares : blendedPremium;
+  const isZeroCostCollar =
+    hasProtectivePut && Math.abs(premiumPerShare - safePutCost) <= ZERO_COST_COLLAR_TOLERANCE;
+  const quote = parseQuote(formState.bid, formState.ask);
+  const costs = calculateTradingCosts(parseCostInputs(formState), {
+    shares: Math.max(0, safeShares),
+    callContracts: contractsSold,
+    putContracts: hasProtectivePut ? Math.ceil(Math.max(0, safeShares) / SHARES_PER_CONTRACT) : 0,
+    premiumFilled: safePremium,
+    quoteMid: quote?.mid ?? null,
+    quotedShares: primaryCoveredShares,
+  });
+  // Entry costs come out of the premium for every share; the assignment fee only when called away.
+  const entryCostPerShare = safeShares > 0 ? costs.entryCostsTotal / safeShares : 0;
+  const assignmentCostPerShare =
+    coveredShares > 0 ? costs.assignmentCostsTotal / coveredShares : 0;
+  const netPremium = premiumPerShare - safePutCost - entryCostPerShare;
+  // A dated schedule replaces the flat estimate; only ex-dates inside the call's life count.
+  const scheduledDividends = dividends
+    .map(parseDividendEvent)
+    .filter((dividend): dividend is ScheduledDividend => dividend !== null)
+    .sort((a, b) => a.daysUntilExDate - b.daysUntilExDate);
+  const hasDividendSchedule = scheduledDividends.length > 0;
+  const countedDividends = scheduledDividends.filter((dividend) =>
+    isDividendInWindow(dividend.daysUntilExDate, daysUntilExpiration),
+  );
+  const dividendPerShareTotal = hasDividendSchedule
+    ? countedDividends.reduce((sum, dividend) => sum + dividend.amount, 0)
+    : safeDividendPerShare * safeDividendsExpected;
+  const grossCost = safeStockPrice * safeShares;
+  const putCostTotal = safePutCost * safeShares;
+  const netPremiumTotal = premiumTotal - putCostTotal - costs.entryCostsTotal;
+  const dividendsTotal = dividendPerShareTotal * safeShares;
+  const netCost = grossCost - netPremiumTotal;
+  const netCostPerShare = safeStockPrice - netPremium;
+  const adjustedBasisOverride =
+    Number.isFinite(parsedAdjustedBasis) && parsedAdjustedBasis > 0
+      ? parsedAdjustedBasis
+      : null;
+  // Profit is measured from the adjusted basis when one is given, so the payoff, max profit and
+  // breakeven all agree.
+  const costBasisPrice = adjustedBasisOverride ?? safeStockPrice;
+  const maxProfitPerShare =
+    blendedStrikePrice -
+    costBasisPrice +
+    blendedPremium -
+    safePutCost -
+    entryCostPerShare -
+    assignmentCostPerShare +
+    dividendPerShareTotal;
+  const maxProfitTotal = maxProfitPerShare * coveredShares;
+  const uncoveredDividendsTotal = dividendPerShareTotal * uncoveredShares;
+  const breakevenPrice = costBasisPrice - netPremium - dividendPerShareTotal;
+  const maxLossPerShare = hasProtectivePut
+    ? Math.max(0, breakevenPrice - safePutStrikePrice)
+    : Math.max(0, breakevenPrice);
+  const maxLossTotal = maxLossPerShare * safeShares;
+  const maxLossPct =
+    hasProtectivePut && !putExpiresBeforeCall && safeStockPrice > 0
+      ? (maxLossPerShare / safeStockPrice) * 100
+      : null;
+  const upsideCapValue = blendedStrikePrice - safeStockPrice;
+  const totalReturn =
+    safeStockPrice > 0 ? maxProfitPerShare / safeStockPrice : 0;
+  const premiumPct =
+    safeStockPrice > 0 ? (netPremium / safeStockPrice) * 100 : 0;
+  const premiumPerDayPct =
+    daysUntilExpiration > 0 ? premiumPct / daysUntilExpiration : 0;
+  const upsideCapPct =
+    safeStockPrice > 0 ? (upsideCapValue / safeStockPrice) * 100 : 0;
+  const downsideToBreakEvenPct =
+    safeStockPrice > 0 && Number.isFinite(breakevenPrice)
+      ? Math.max(
+          0,
+          ((safeStockPrice - breakevenPrice) / safeStockPrice) * 100,
+        )
+      : 0;
+  const annualizedReturn = computeAnnualizedReturn({
+    totalReturn,
+    days: daysUntilExpiration,
+  });
+  const dividendYield =
+    safeStockPrice > 0 && daysUntilExpiration > 0
+      ? (dividendPerShareTotal / safeStockPrice) *
+        (DAYS_PER_YEAR / daysUntilExpiration)
+      : 0;
+  const pricingAssumptions = {
+    stockPrice: safeStockPrice,
+    daysUntilExpiration,
+    volatility: safeImpliedVolatility / 100,
+    riskFreeRate: safeRiskFreeRate / 100,
+    dividendYield,
+  };
+  const callPricing = priceCall({ ...pricingAssumptions, strikePrice: safeStrikePrice });
+  const lotPricings = callLots.map((lot) =>
+    priceCall({ ...pricingAssumptions, strikePrice: lot.strikePrice }),
+  );
+  const premiumEdge = safePremium - callPricing.value;
+  const premiumEdgePct =
+    callPricing.value > 0 ? (premiumEdge / callPricing.value) * 100 : 0;
+  const putPricing = pricePut({
+    ...pricingAssumptions,
+    strikePrice: safePutStrikePrice,
+    daysUntilExpiration: putDaysUntilExpiration,
+  });
+  const effectivePutStrikePrice = putExpiresBeforeCall ? 0 : safePutStrikePrice;
+  const probabilities = calculateCoveredCallProbabilities({
+    ...pricingAssumptions,
+    strikePrice: lowestStrikePrice,
+    breakevenPrice,
+    premium: netPremium,
+    putStrikePrice: effectivePutStrikePrice,
+    dividendPerShare: dividendPerShareTotal,
+  });
+  const dividendRisks = analyzeDividendRisk(countedDividends, {
+    pricing: pricingAssumptions,
+    daysUntilExpiration,
+    callLots: callLots.map((lot) => ({
+      strikePrice: lot.strikePrice,
+      shares: lot.contracts * SHARES_PER_CONTRACT,
+    })),
+  });
+  const dividendAtRisk = dividendRisks.some((risk) => risk.isAtRisk);
+  const earlyExerciseProbability = Math.max(
+    0,
+    ...dividendRisks.map((risk) => risk.exerciseProbability),
+  );
+  // Early exercise happens the day before an ex-date, so that dividend and every later one is lost.
+  const earlyAssignmentDividend =
+    dividendRisks.find((risk) => risk.exerciseThreshold !== null) ?? null;
+  const dividendsForfeitedPerShare = earlyAssignmentDividend
+    ? countedDividends
+        .filter((dividend) => dividend.daysUntilExDate >= earlyAssignmentDividend.daysUntilExDate)
+        .reduce((sum, dividend) => sum + dividend.amount, 0)
+    : 0;
+  const earlyAssignmentProfitPerShare = maxProfitPerShare - dividendsForfeitedPerShare;
+  const earlyAssignmentProfitTotal = earlyAssignmentProfitPerShare * coveredShares;
+  const uncoveredExpectedProfitPerShare =
+    expectedPriceAtExpiration(pricingAssumptions) -
+    costBasisPrice +
+    dividendPerShareTotal -
+    safePutCost -
+    entryCostPerShare +
+    expectedPutPayoff(pricingAssumptions, effectivePutStrikePrice);
+  const expectedProfitTotal =
+    callLots.reduce(
+      (sum, lot) =>
+        sum +
+        calculateCoveredCallProbabilities({
+          ...pricingAssumptions,
+          strikePrice: lot.strikePrice,
+          breakevenPrice,
+          premium: lot.premium - safePutCost - entryCostPerShare,
+          putStrikePrice: effectivePutStrikePrice,
+          dividendPerShare: dividendPerShareTotal,
+        }).expectedProfitPerShare *
+          lot.contracts *
+          SHARES_PER_CONTRACT,
+      0,
+    ) +
+    uncoveredExpectedProfitPerShare * uncoveredShares -
+    (costBasisPrice - safeStockPrice) * coveredShares -
+    costs.assignmentCostsTotal * probabilities.assignmentProbability;
+  const expectedProfitPerShare =
+    safeShares > 0 ? expectedProfitTotal / safeShares : probabilities.expectedProfitPerShare;
+  const positionDelta =
+    safeShares * (1 + (hasProtectivePut ? putPricing.delta : 0)) -
+    lotPricings.reduce(
+      (sum, pricing, index) =>
+        sum + pricing.delta * callLots[index].contracts * SHARES_PER_CONTRACT,
+      0,
+    );
+  const dailyThetaTotal =
+    (hasProtectivePut ? putPricing.theta : 0) * safeShares -
+    lotPricings.reduce(
+      (sum, pricing, index) =>
+        sum + pricing.theta * callLots[index].contracts * SHARES_PER_CONTRACT,
+      0,
+    );
+  const tradeQuality = evaluateTradeQuality(
+    {
+      premiumPerDayPct,
+      downsideToBreakEvenPct,
+      upsideCapPct,
+      totalReturnPct: totalReturn * 100,
+      impliedVolatilityPct: safeImpliedVolatility,
+      assignmentProbabilityPct: probabilities.assignmentProbability * 100,
+      maxLossPct,
+    },
+    scoringProfile,
+  );
+  const tradeQualitySubtitle = getTradeQualitySubtitle(tradeQuality);
+
+  return {
+    safeStockPrice,
+    safeStrikePrice,
+    safePremium,
+    safeShares,
+    safeImpliedVolatility,
+    safeRiskFreeRate,
+    safeDividendsExpected,
+    adjustedBasisOverride,
+    costBasisPrice,
+    daysUntilExpiration,
+    hasProtectivePut,
+    safePutStrikePrice,
+    safePutCost,
+    putDaysUntilExpiration,
+    putExpiresBeforeCall,
+    maxContracts,
+    primaryContracts,
+    primaryCoveredShares,
+    requestedContracts,
+    contractsSold,
+    contractsError,
+    coveredShares,
+    uncoveredShares,
+    uncoveredDividendsTotal,
+    callLots,
+    hasLadder,
+    blendedStrikePrice,
+    blendedPremium,
+    lowestStrikePrice,
+    premiumPerShare,
+    netPremium,
+    netPremiumTotal,
+    quote,
+    costs,
+    putCostTotal,
+    isZeroCostCollar,
+    maxLossPerShare,
+    maxLossTotal,
+    maxLossPct,
+    dividendPerShareTotal,
+    hasDividendSchedule,
+    countedDividends,
+    ignoredDividendCount: scheduledDividends.length - countedDividends.length,
+    dividendRisks,
+    dividendAtRisk,
+    earlyExerciseProbability,
+    earlyAssignmentDividend,
+    dividendsForfeitedPerShare,
+    earlyAssignmentProfitPerShare,
+    earlyAssignmentProfitTotal,
+    grossCost,
+    netCost,
+    netCostPerShare,
+    premiumTotal,
+    dividendsTotal,
+    maxProfitPerShare,
+    maxProfitTotal,
+    breakevenPrice,
+    premiumPct,
+    premiumPerDayPct,
+    downsideToBreakEvenPct,
+    upsideCapValue,
+    upsideCapPct,
+    totalReturn,
+    annualizedReturn,
+    dividendYield,
+    pricingAssumptions,
+    callPricing,
+    putPricing,
+    premiumEdge,
+    premiumEdgePct,
+    probabilities,
+    expectedProfitTotal,
+    expectedProfitPerShare,
+    positionDelta,
+    dailyThetaTotal,
+    tradeQuality,
+    tradeQualitySubtitle,
+  };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { normalizeDateInput } from "./dates";
+
+describe("normalizeDateInput", () => {
+  it("pads ISO and US dates", () => {
+    expect(normalizeDateInput("2024-3-5")).toBe("2024-03-05");
+    expect(normalizeDateInput(" 3/5/2024 ")).toBe("2024-03-05");
+    expect(normalizeDateInput("12/20/24")).toBe("2024-12-20");
+  });
+
+  it("rejects dates that roll over into the next month", () => {
+    expect(normalizeDateInput("2024-02-31")).toBeNull();
+    expect(normalizeDateInput("2/31/24")).toBeNull();
+    expect(normalizeDateInput("2023-02-29")).toBeNull();
+    expect(normalizeDateInput("2024-04-31")).toBeNull();
+    expect(normalizeDateInput("2024-13-01")).toBeNull();
+  });
+
+  it("accepts leap days", () => {
+    expect(normalizeDateInput("2/29/2024")).toBe("2024-02-29");
+  });
+
+  it("returns null for other layouts", () => {
+    expect(normalizeDateInput("20240305")).toBeNull();
+    expect(normalizeDateInput("Mar 5, 2024")).toBeNull();
+  });
+});
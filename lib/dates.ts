@@ -0,0 +1,55 @@
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const formatDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+export const parseDateInput = (value: string) => new Date(`${value}T00:00:00`);
+
+export const isValidDateInput = (value: string) =>
+  !Number.isNaN(parseDateInput(value).getTime());
+
+export const calculateDaysUntilExpiration = (expirationDate: string) => {
+  const expiration = parseDateInput(expirationDate);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  if (Number.isNaN(expiration.getTime())) {
+    return 0;
+  }
+
+  const diffMs = expiration.getTime() - today.getTime();
+  return Math.max(0, Math.ceil(diffMs / MS_PER_DAY));
+};
+
+export const calculateDaysBetween = (start: string, end: string) =>
+  Math.max(
+    0,
+    Math.round((parseDateInput(end).getTime() - parseDateInput(start).getTime()) / MS_PER_DAY),
+  );
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Date parsing rolls "02/31" into March; an imported date has to exist as written.
+const toCalendarDate = (year: number, month: number, day: number) => {
+  const normalized = `${year}-${pad(month)}-${pad(day)}`;
+  const date = parseDateInput(normalized);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+    ? normalized
+    : null;
+};
+
+export const normalizeDateInput = (value: string) => {
+  const trimmed = value.trim();
+
+  const isoMatch = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(trimmed);
+  if (isoMatch) {
+    return toCalendarDate(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+  }
+
+  const usMatch = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(trimmed);
+  if (usMatch) {
+    const year = usMatch[3].length === 2 ? 2000 + Number(usMatch[3]) : Number(usMatch[3]);
+    return toCalendarDate(year, Number(usMatch[1]), Number(usMatch[2]));
+  }
+
+  return null;
+};
@@ -0,0 +1,58 @@
+const DB_NAME = "optionsplanner";
+const DB_VERSION = 2;
+
+export const ENTRY_STORE = "journalEntries";
+export const META_STORE = "meta";
+export const WHEEL_LEG_STORE = "wheelLegs";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const openPlannerDb = () => {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+        db.createObjectStore(ENTRY_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(WHEEL_LEG_STORE)) {
+        db.createObjectStore(WHEEL_LEG_STORE, { keyPath: "id" }).createIndex(
+          "symbol",
+          "symbol",
+        );
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+
+  return dbPromise;
+};
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { isDividendInWindow } from "./dividends";
+
+describe("isDividendInWindow", () => {
+  it("counts ex-dates after today up to and including expiration", () => {
+    expect(isDividendInWindow(1, 30)).toBe(true);
+    expect(isDividendInWindow(30, 30)).toBe(true);
+  });
+
+  it("skips ex-dates today or after expiration", () => {
+    expect(isDividendInWindow(0, 30)).toBe(false);
+    expect(isDividendInWindow(31, 30)).toBe(false);
+  });
+});
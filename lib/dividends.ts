@@ -0,0 +1,109 @@
+import { priceCall } from "./black-scholes";
+import { probabilityAbove, type LognormalInputs } from "./probability";
+
+export type ScheduledDividend = {
+  exDate: string;
+  amount: number;
+  daysUntilExDate: number;
+};
+
+export type DividendRisk = ScheduledDividend & {
+  // Lowest stock price at which the lowest-strike call is worth less than the dividend in time
+  // value on the eve of the ex-date, or null when that never happens.
+  exerciseThreshold: number | null;
+  exerciseProbability: number;
+  // Time value left at the current stock price on the eve of the ex-date.
+  timeValue: number;
+  isAtRisk: boolean;
+  sharesAtRisk: number;
+};
+
+const THRESHOLD_SEARCH_MULTIPLE = 5;
+const THRESHOLD_ITERATIONS = 40;
+
+// Counts only dividends that go ex after today and on or before expiration; later ones are paid
+// to whoever holds the shares after the call settles.
+export const isDividendInWindow = (daysUntilExDate: number, daysUntilExpiration: number) =>
+  daysUntilExDate > 0 && daysUntilExDate <= daysUntilExpiration;
+
+export const findExerciseThreshold = (
+  pricing: LognormalInputs,
+  strikePrice: number,
+  dividend: number,
+) => {
+  const timeValueAt = (stockPrice: number) =>
+    priceCall({ ...pricing, stockPrice, strikePrice }).timeValue;
+
+  if (strikePrice <= 0 || dividend <= 0) {
+    return null;
+  }
+
+  let low = strikePrice;
+  let high = strikePrice * THRESHOLD_SEARCH_MULTIPLE;
+  if (timeValueAt(high) >= dividend) {
+    return null;
+  }
+  if (timeValueAt(low) < dividend) {
+    return low;
+  }
+
+  for (let iteration = 0; iteration < THRESHOLD_ITERATIONS; iteration += 1) {
+    const middle = (low + high) / 2;
+    if (timeValueAt(middle) < dividend) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+
+  return high;
+};
+
+export const analyzeDividendRisk = (
+  dividends: ScheduledDividend[],
+  {
+    pricing,
+    daysUntilExpiration,
+    callLots,
+  }: {
+    pricing: LognormalInputs;
+    daysUntilExpiration: number;
+    callLots: Array<{ strikePrice: number; shares: number }>;
+  },
+): DividendRisk[] => {
+  const lowestStrike = callLots.length
+    ? Math.min(...callLots.map((lot) => lot.strikePrice))
+    : 0;
+
+  return dividends.map((dividend) => {
+    const eveDay = dividend.daysUntilExDate - 1;
+    const remaining = { ...pricing, daysUntilExpiration: daysUntilExpiration - eveDay };
+    const thresholds = callLots.map((lot) =>
+      findExerciseThreshold(remaining, lot.strikePrice, dividend.amount),
+    );
+    const lowestThreshold = lowestStrike
+      ? findExerciseThreshold(remaining, lowestStrike, dividend.amount)
+      : null;
+    const sharesAtRisk = callLots.reduce(
+      (sum, lot, index) =>
+        thresholds[index] !== null && pricing.stockPrice >= (thresholds[index] as number)
+          ? sum + lot.shares
+          : sum,
+      0,
+    );
+
+    return {
+      ...dividend,
+      exerciseThreshold: lowestThreshold,
+      exerciseProbability:
+        lowestThreshold === null
+          ? 0
+          : probabilityAbove({ ...pricing, daysUntilExpiration: eveDay }, lowestThreshold),
+      timeValue: lowestStrike
+        ? priceCall({ ...remaining, strikePrice: lowestStrike }).timeValue
+        : 0,
+      isAtRisk: sharesAtRisk > 0,
+      sharesAtRisk,
+    };
+  });
+};
@@ -0,0 +1,10 @@
+export const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 2,
+  }).format(value);
+
+export const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+export const formatPercentValue = (value: number) => `${value.toFixed(2)}%`;
+export const formatGreek = (value: number, digits = 2) => value.toFixed(digits);
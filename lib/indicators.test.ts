@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  averageDirectionalIndex,
+  averageTrueRange,
+  computeTechnicalIndicators,
+  relativeStrengthIndex,
+  simpleMovingAverage,
+} from "./indicators";
+import type { PriceBar } from "./price-history";
+
+const bar = (close: number, high = close + 1, low = close - 1): PriceBar => ({
+  date: "",
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1000,
+});
+
+const trending = (count: number, step: number) =>
+  Array.from({ length: count }, (_, index) => bar(100 + index * step));
+
+describe("simpleMovingAverage", () => {
+  it("averages the trailing window", () => {
+    const closes = Array.from({ length: 25 }, (_, index) => index + 1);
+    expect(simpleMovingAverage(closes, 20)).toBe(15.5);
+    expect(simpleMovingAverage(closes, 1)).toBe(25);
+  });
+
+  it("needs a full window", () => {
+    expect(simpleMovingAverage([1, 2, 3], 20)).toBeNull();
+  });
+});
+
+describe("relativeStrengthIndex", () => {
+  it("matches a hand-computed Wilder RSI", () => {
+    // Gains 1, 0, 1 and losses 0, 0.5, 0 smooth to 0.75 and 0.125: RS 6.
+    expect(relativeStrengthIndex([10, 11, 10.5, 11.5], 2)).toBeCloseTo(100 - 100 / 7, 9);
+  });
+
+  it("reads 100 for straight gains and 50 for a flat series", () => {
+    expect(relativeStrengthIndex(trending(20, 1).map((item) => item.close))).toBe(100);
+    expect(relativeStrengthIndex(Array(20).fill(100))).toBe(50);
+  });
+
+  it("needs one more close than the period", () => {
+    expect(relativeStrengthIndex(Array(14).fill(100))).toBeNull();
+    expect(relativeStrengthIndex(Array(15).fill(100))).toBe(50);
+  });
+});
+
+describe("averageTrueRange", () => {
+  it("uses gaps from the previous close", () => {
+    expect(averageTrueRange([bar(10, 11, 9), bar(12.5, 13, 12)], 1)).toBe(3);
+  });
+
+  it("smooths a constant range to that range", () => {
+    expect(averageTrueRange(trending(30, 0))).toBeCloseTo(2, 9);
+  });
+
+  it("returns null without enough bars", () => {
+    expect(averageTrueRange(trending(14, 1))).toBeNull();
+  });
+});
+
+describe("averageDirectionalIndex", () => {
+  it("reads 100 for a one-way trend and 0 for a flat market", () => {
+    expect(averageDirectionalIndex(trending(40, 1))).toBeCloseTo(100, 9);
+    expect(averageDirectionalIndex(trending(40, 0))).toBe(0);
+  });
+
+  it("needs two periods of bars", () => {
+    expect(averageDirectionalIndex(trending(27, 1))).toBeNull();
+    expect(averageDirectionalIndex(trending(28, 1))).not.toBeNull();
+  });
+});
+
+describe("computeTechnicalIndicators", () => {
+  it("fills every input from a long history", () => {
+    const indicators = computeTechnicalIndicators(trending(200, 0.5));
+    expect(indicators.stockPrice).toBe(199.5);
+    expect(indicators.ma20).toBeCloseTo(194.75, 9);
+    expect(indicators.ma200).toBeCloseTo(149.75, 9);
+    expect(indicators.atr).not.toBeNull();
+    expect(indicators.adx).not.toBeNull();
+    expect(indicators.rsi).toBe(100);
+  });
+
+  it("leaves out averages the history is too short for", () => {
+    const indicators = computeTechnicalIndicators(trending(30, 1));
+    expect(indicators.ma20).not.toBeNull();
+    expect(indicators.ma50).toBeNull();
+    expect(indicators.ma200).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import type { PriceBar } from "./price-history";
+import type { TechnicalInputs } from "./technical-score";
+
+export const INDICATOR_PERIOD = 14;
+
+const average = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Wilder smoothing: seed with the simple average, then blend in each new value at 1/period.
+const wilderSmooth = (values: number[], period: number) => {
+  if (values.length < period) {
+    return [];
+  }
+
+  const smoothed = [average(values.slice(0, period))];
+  for (let index = period; index < values.length; index += 1) {
+    const previous = smoothed[smoothed.length - 1];
+    smoothed.push((previous * (period - 1) + values[index]) / period);
+  }
+  return smoothed;
+};
+
+const last = (values: number[]) => (values.length ? values[values.length - 1] : null);
+
+export const simpleMovingAverage = (closes: number[], period: number) =>
+  closes.length >= period && period > 0 ? average(closes.slice(-period)) : null;
+
+export const relativeStrengthIndex = (closes: number[], period = INDICATOR_PERIOD) => {
+  const changes = closes.slice(1).map((close, index) => close - closes[index]);
+  const averageGain = last(wilderSmooth(changes.map((change) => Math.max(0, change)), period));
+  const averageLoss = last(wilderSmooth(changes.map((change) => Math.max(0, -change)), period));
+
+  if (averageGain === null || averageLoss === null) {
+    return null;
+  }
+  if (averageLoss === 0) {
+    return averageGain === 0 ? 50 : 100;
+  }
+
+  return 100 - 100 / (1 + averageGain / averageLoss);
+};
+
+const trueRanges = (bars: PriceBar[]) =>
+  bars
+    .slice(1)
+    .map((bar, index) =>
+      Math.max(
+        bar.high - bar.low,
+        Math.abs(bar.high - bars[index].close),
+        Math.abs(bar.low - bars[index].close),
+      ),
+    );
+
+export const averageTrueRange = (bars: PriceBar[], period = INDICATOR_PERIOD) =>
+  last(wilderSmooth(trueRanges(bars), period));
+
+export const averageDirectionalIndex = (bars: PriceBar[], period = INDICATOR_PERIOD) => {
+  const ranges = trueRanges(bars);
+  const plusMoves: number[] = [];
+  const minusMoves: number[] = [];
+
+  bars.slice(1).forEach((bar, index) => {
+    const upMove = bar.high - bars[index].high;
+    const downMove = bars[index].low - bar.low;
+    plusMoves.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    minusMoves.push(downMove > upMove && downMove > 0 ? downMove : 0);
+  });
+
+  const smoothedRanges = wilderSmooth(ranges, period);
+  const smoothedPlus = wilderSmooth(plusMoves, period);
+  const smoothedMinus = wilderSmooth(minusMoves, period);
+  const directionalIndexes = smoothedRanges.map((range, index) => {
+    const plusIndicator = range > 0 ? (smoothedPlus[index] / range) * 100 : 0;
+    const minusIndicator = range > 0 ? (smoothedMinus[index] / range) * 100 : 0;
+    const indicatorSum = plusIndicator + minusIndicator;
+    return indicatorSum > 0 ? (Math.abs(plusIndicator - minusIndicator) / indicatorSum) * 100 : 0;
+  });
+
+  return last(wilderSmooth(directionalIndexes, period));
+};
+
+export const computeTechnicalIndicators = (bars: PriceBar[]): TechnicalInputs => {
+  const closes = bars.map((bar) => bar.close);
+
+  return {
+    stockPrice: last(closes) ?? 0,
+    atr: averageTrueRange(bars),
+    adx: averageDirectionalIndex(bars),
+    rsi: relativeStrengthIndex(closes),
+    ma20: simpleMovingAverage(closes, 20),
+    ma50: simpleMovingAverage(closes, 50),
+    ma200: simpleMovingAverage(closes, 200),
+  };
+};
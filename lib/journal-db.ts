@@ -0,0 +1,74 @@
+import { getDefaultFormState, sanitizeFormState } from "./covered-call";
+import {
+  ENTRY_STORE,
+  META_STORE,
+  openPlannerDb,
+  requestToPromise,
+  transactionDone,
+} from "./db";
+import { createJournalEntry, sanitizeJournalEntry, type JournalEntry } from "./journal";
+
+const LEGACY_MIGRATION_KEY = "legacyInputsV1Migrated";
+
+export const LEGACY_STORAGE_KEY = "optionsplanner.coveredCall.inputs.v1";
+
+const readLegacyEntry = () => {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    const formState = sanitizeFormState(JSON.parse(stored), getDefaultFormState());
+    return createJournalEntry(formState);
+  } catch {
+    return null;
+  }
+};
+
+const migrateLegacyEntry = (db: IDBDatabase) => {
+  const transaction = db.transaction([ENTRY_STORE, META_STORE], "readwrite");
+  const metaStore = transaction.objectStore(META_STORE);
+  const request = metaStore.get(LEGACY_MIGRATION_KEY);
+
+  request.onsuccess = () => {
+    if (request.result) {
+      return;
+    }
+
+    const legacyEntry = readLegacyEntry();
+    if (legacyEntry) {
+      transaction.objectStore(ENTRY_STORE).put(legacyEntry);
+    }
+    metaStore.put(true, LEGACY_MIGRATION_KEY);
+  };
+
+  return transactionDone(transaction);
+};
+
+export const loadJournalEntries = async () => {
+  const db = await openPlannerDb();
+  await migrateLegacyEntry(db);
+
+  const transaction = db.transaction(ENTRY_STORE, "readonly");
+  const records = await requestToPromise(transaction.objectStore(ENTRY_STORE).getAll());
+  const defaults = getDefaultFormState();
+
+  return records
+    .map((record) => sanitizeJournalEntry(record, defaults))
+    .filter((entry): entry is JournalEntry => entry !== null);
+};
+
+export const saveJournalEntry = async (entry: JournalEntry) => {
+  const db = await openPlannerDb();
+  const transaction = db.transaction(ENTRY_STORE, "readwrite");
+  transaction.objectStore(ENTRY_STORE).put(entry);
+  await transactionDone(transaction);
+};
+
+export const deleteJournalEntry = async (id: string) => {
+  const db = await openPlannerDb();
+  const transaction = db.transaction(ENTRY_STORE, "readwrite");
+  transaction.objectStore(ENTRY_STORE).delete(id);
+  await transactionDone(transaction);
+};
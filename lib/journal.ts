@@ -0,0 +1,115 @@
+import { sanitizeAlertRule, type AlertRule } from "./alerts";
+import { sanitizeFormState, type FormState } from "./covered-call";
+import { formatDateInput, isValidDateInput } from "./dates";
+import { createId } from "./ids";
+
+export const POSITION_STATUSES = ["open", "expired", "assigned", "rolled", "closed"] as const;
+
+export type PositionStatus = (typeof POSITION_STATUSES)[number];
+
+export type JournalEntry = {
+  id: string;
+  name: string;
+  status: PositionStatus;
+  openDate: string;
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;
+  formState: FormState;
+  alertRules: AlertRule[];
+};
+
+export const getDefaultEntryName = (formState: FormState) => {
+  const symbol = formState.symbol.trim() || "Untitled";
+  return formState.strikePrice
+    ? `${symbol} ${formState.strikePrice}C ${formState.expirationDate}`
+    : symbol;
+};
+
+export const createJournalEntry = (
+  formState: FormState,
+  values: Partial<
+    Omit<JournalEntry, "id" | "createdAt" | "updatedAt" | "formState" | "alertRules">
+  > = {},
+): JournalEntry => {
+  const now = new Date().toISOString();
+
+  return {
+    id: createId(),
+    name: values.name ?? getDefaultEntryName(formState),
+    status: values.status ?? "open",
+    openDate: values.openDate ?? formatDateInput(new Date()),
+    archived: values.archived ?? false,
+    createdAt: now,
+    updatedAt: now,
+    formState,
+    alertRules: [],
+  };
+};
+
+export const duplicateJournalEntry = (entry: JournalEntry): JournalEntry => ({
+  ...createJournalEntry(
+    { ...entry.formState },
+    {
+      name: `${entry.name} (copy)`,
+      status: "open",
+      openDate: entry.openDate,
+    },
+  ),
+  alertRules: entry.alertRules.map((rule) => ({ ...rule, id: createId(), triggeredAt: null })),
+});
+
+export const isPositionStatus = (value: unknown): value is PositionStatus =>
+  POSITION_STATUSES.includes(value as PositionStatus);
+
+export const sanitizeJournalEntry = (
+  value: unknown,
+  defaults: FormState,
+): JournalEntry | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const source = value as Record<string, unknown>;
+  if (typeof source.id !== "string" || !source.id) {
+    return null;
+  }
+
+  const formState = sanitizeFormState(source.formState, defaults);
+  const now = new Date().toISOString();
+
+  return {
+    id: source.id,
+    name:
+      typeof source.name === "string" && source.name.trim()
+        ? source.name.trim()
+        : getDefaultEntryName(formState),
+    status: isPositionStatus(source.status) ? source.status : "open",
+    openDate:
+      typeof source.openDate === "string" && isValidDateInput(source.openDate)
+        ? source.openDate
+        : formatDateInput(new Date()),
+    archived: source.archived === true,
+    createdAt: typeof source.createdAt === "string" ? source.createdAt : now,
+    updatedAt: typeof source.updatedAt === "string" ? source.updatedAt : now,
+    formState,
+    alertRules: Array.isArray(source.alertRules)
+      ? source.alertRules
+          .map(sanitizeAlertRule)
+          .filter((rule): rule is AlertRule => rule !== null)
+      : [],
+  };
+};
+
+export const sortJournalEntries = (entries: JournalEntry[]) =>
+  [...entries].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const pickInitialEntry = (entries: JournalEntry[]) => {
+  const candidates = entries.filter((entry) => !entry.archived);
+  const pool = candidates.length ? candidates : entries;
+
+  return pool.reduce<JournalEntry | null>(
+    (latest, entry) => (!latest || entry.updatedAt > latest.updatedAt ? entry : latest),
+    null,
+  );
+};
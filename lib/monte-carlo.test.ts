@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { calculateCoveredCall, getDefaultFormState } from "./covered-call";
+import {
+  createSeededRandom,
+  getDefaultMonteCarloOptions,
+  simulateCoveredCall,
+  toMonteCarloPosition,
+  type MonteCarloPosition,
+} from "./monte-carlo";
+
+const POSITION: MonteCarloPosition = {
+  stockPrice: 100,
+  costBasis: 100,
+  shares: 100,
+  callLots: [{ contracts: 1, strikePrice: 105, premium: 2 }],
+  dividendPerShare: 0,
+  exDividends: [],
+  putStrikePrice: 0,
+  putCost: 0,
+  putDays: 0,
+  days: 30,
+  volatility: 0.3,
+  riskFreeRate: 0.04,
+  dividendYield: 0,
+  entryCosts: 0,
+  assignmentCosts: 0,
+};
+
+// Deep in the money with little time left, so a dividend is worth more than the time value.
+const DEEP_ITM: MonteCarloPosition = {
+  ...POSITION,
+  callLots: [{ contracts: 1, strikePrice: 60, premium: 40 }],
+  volatility: 0.2,
+  days: 10,
+};
+
+const options = (overrides: Partial<ReturnType<typeof getDefaultMonteCarloOptions>> = {}) => ({
+  ...getDefaultMonteCarloOptions(),
+  paths: 500,
+  ...overrides,
+});
+
+describe("createSeededRandom", () => {
+  it("replays the same sequence for the same seed", () => {
+    const first = createSeededRandom(7);
+    const second = createSeededRandom(7);
+    const values = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe("simulateCoveredCall", () => {
+  it("gives identical results for the same seed", () => {
+    expect(simulateCoveredCall(POSITION, options({ seed: 11 }))).toEqual(
+      simulateCoveredCall(POSITION, options({ seed: 11 })),
+    );
+    expect(simulateCoveredCall(POSITION, options({ seed: 11, model: "jump" }))).toEqual(
+      simulateCoveredCall(POSITION, options({ seed: 11, model: "jump" })),
+    );
+  });
+
+  it("gives different paths for a different seed", () => {
+    expect(simulateCoveredCall(POSITION, options({ seed: 1 })).mean).not.toBe(
+      simulateCoveredCall(POSITION, options({ seed: 2 })).mean,
+    );
+  });
+
+  it("caps the upside at the strike plus premium", () => {
+    const result = simulateCoveredCall(POSITION, options());
+    expect(result.percentile95).toBeLessThanOrEqual((105 - 100 + 2) * 100 + 1e-9);
+    expect(result.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(500);
+  });
+
+  it("measures P&L from the adjusted basis while paths start at the stock price", () => {
+    const position = toMonteCarloPosition(
+      calculateCoveredCall({ ...getDefaultFormState(), stockPrice: "100", adjustedBasis: "90" }),
+    );
+    expect(position.stockPrice).toBe(100);
+    expect(position.costBasis).toBe(90);
+
+    const atMarket = simulateCoveredCall(POSITION, options());
+    const adjusted = simulateCoveredCall({ ...POSITION, costBasis: 90 }, options());
+    expect(adjusted.mean).toBeCloseTo(atMarket.mean + 10 * 100, 6);
+    expect(adjusted.percentile95).toBeCloseTo(atMarket.percentile95 + 10 * 100, 6);
+  });
+
+  it("charges entry costs on every path and the assignment fee when called away", () => {
+    const base = simulateCoveredCall(DEEP_ITM, options());
+    const withCosts = simulateCoveredCall(
+      { ...DEEP_ITM, entryCosts: 5, assignmentCosts: 20 },
+      options(),
+    );
+    expect(withCosts.mean).toBeCloseTo(base.mean - 25, 6);
+
+    const otm = { ...POSITION, callLots: [{ contracts: 1, strikePrice: 1000, premium: 0.01 }] };
+    expect(simulateCoveredCall({ ...otm, entryCosts: 5, assignmentCosts: 20 }, options()).mean)
+      .toBeCloseTo(simulateCoveredCall(otm, options()).mean - 5, 6);
+  });
+
+  it("checks early exercise when the ex-date is tomorrow", () => {
+    const result = simulateCoveredCall(
+      { ...DEEP_ITM, dividendPerShare: 1 },
+      options({ exDividendDay: 1 }),
+    );
+    expect(result.earlyAssignmentProbability).toBe(1);
+  });
+
+  it("checks every dated ex-dividend in the window", () => {
+    const exDividends = [
+      { day: 3, amount: 0.01 },
+      { day: 8, amount: 1 },
+    ];
+    const late = simulateCoveredCall(
+      { ...DEEP_ITM, dividendPerShare: 1.01, exDividends },
+      options(),
+    );
+    expect(late.earlyAssignmentProbability).toBeGreaterThan(0.9);
+
+    const outside = simulateCoveredCall(
+      { ...DEEP_ITM, dividendPerShare: 1, exDividends: [{ day: 20, amount: 1 }] },
+      options(),
+    );
+    expect(outside.earlyAssignmentProbability).toBe(0);
+  });
+
+  it("forfeits dividends on shares called away early", () => {
+    const noDividend = simulateCoveredCall(DEEP_ITM, options());
+    const exercised = simulateCoveredCall(
+      { ...DEEP_ITM, dividendPerShare: 1, exDividends: [{ day: 5, amount: 1 }] },
+      options(),
+    );
+    expect(exercised.earlyAssignmentProbability).toBe(1);
+    expect(exercised.mean).toBeCloseTo(noDividend.mean, 0);
+  });
+});
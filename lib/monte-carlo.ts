@@ -0,0 +1,301 @@
+import { DAYS_PER_YEAR, priceCall } from "./black-scholes";
+import { SHARES_PER_CONTRACT, type CallLot, type CoveredCallCalculations } from "./covered-call";
+
+export type PriceModel = "gbm" | "jump";
+
+export type MonteCarloOptions = {
+  paths: number;
+  seed: number;
+  model: PriceModel;
+  // Days from today to an ex-date for the whole dividend when the plan has no dated schedule, or
+  // null to pay it unconditionally.
+  exDividendDay: number | null;
+  // Expected jumps per year and their log-size distribution for the jump model.
+  jumpsPerYear: number;
+  jumpMean: number;
+  jumpVolatility: number;
+};
+
+export type ExDividend = {
+  day: number;
+  amount: number;
+};
+
+export type MonteCarloPosition = {
+  // Paths start at the stock price; P&L is measured from the cost basis, which differs when an
+  // adjusted basis is applied.
+  stockPrice: number;
+  costBasis: number;
+  shares: number;
+  callLots: CallLot[];
+  dividendPerShare: number;
+  // Dated dividends that go ex before expiration; each one is a chance of early exercise.
+  exDividends: ExDividend[];
+  putStrikePrice: number;
+  putCost: number;
+  putDays: number;
+  days: number;
+  volatility: number;
+  riskFreeRate: number;
+  dividendYield: number;
+  // Commissions and fees to open, and the assignment fee charged if any call is exercised.
+  entryCosts: number;
+  assignmentCosts: number;
+};
+
+export type HistogramBin = {
+  from: number;
+  to: number;
+  count: number;
+};
+
+export type MonteCarloResult = {
+  paths: number;
+  mean: number;
+  median: number;
+  percentile5: number;
+  percentile95: number;
+  probabilityOfLoss: number;
+  earlyAssignmentProbability: number;
+  histogram: HistogramBin[];
+};
+
+export const PRICE_MODELS: PriceModel[] = ["gbm", "jump"];
+
+export const PRICE_MODEL_LABELS: Record<PriceModel, string> = {
+  gbm: "Lognormal (GBM)",
+  jump: "Fat-tailed (jump diffusion)",
+};
+
+export const isPriceModel = (value: string): value is PriceModel =>
+  PRICE_MODELS.includes(value as PriceModel);
+
+export const getDefaultMonteCarloOptions = (): MonteCarloOptions => ({
+  paths: 5000,
+  seed: 42,
+  model: "gbm",
+  exDividendDay: null,
+  jumpsPerYear: 3,
+  jumpMean: -0.04,
+  jumpVolatility: 0.08,
+});
+
+const HISTOGRAM_BINS = 30;
+
+// mulberry32: small, fast and good enough for simulation; the same seed always replays the same paths.
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const createNormalSampler = (random: () => number) => {
+  let spare: number | null = null;
+
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+
+    const radius = Math.sqrt(-2 * Math.log(1 - random()));
+    const angle = 2 * Math.PI * random();
+    spare = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  };
+};
+
+export const toMonteCarloPosition = (
+  calculations: CoveredCallCalculations,
+): MonteCarloPosition => ({
+  stockPrice: calculations.safeStockPrice,
+  costBasis: calculations.costBasisPrice,
+  shares: calculations.safeShares,
+  callLots: calculations.callLots,
+  dividendPerShare: calculations.dividendPerShareTotal,
+  exDividends: calculations.countedDividends.map((dividend) => ({
+    day: dividend.daysUntilExDate,
+    amount: dividend.amount,
+  })),
+  putStrikePrice: calculations.safePutStrikePrice,
+  putCost: calculations.safePutCost,
+  putDays: calculations.putDaysUntilExpiration,
+  days: calculations.daysUntilExpiration,
+  volatility: calculations.safeImpliedVolatility / 100,
+  riskFreeRate: calculations.safeRiskFreeRate / 100,
+  dividendYield: calculations.dividendYield,
+  entryCosts: calculations.costs.entryCostsTotal,
+  assignmentCosts: calculations.costs.assignmentCostsTotal,
+});
+
+const percentile = (sorted: number[], fraction: number) => {
+  if (!sorted.length) {
+    return 0;
+  }
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const buildHistogram = (sorted: number[], bins = HISTOGRAM_BINS): HistogramBin[] => {
+  if (!sorted.length) {
+    return [];
+  }
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / bins || 1;
+  const histogram = Array.from({ length: bins }, (_, index) => ({
+    from: min + width * index,
+    to: min + width * (index + 1),
+    count: 0,
+  }));
+
+  sorted.forEach((value) => {
+    histogram[Math.min(bins - 1, Math.floor((value - min) / width))].count += 1;
+  });
+
+  return histogram;
+};
+
+// Simulates daily paths to expiration and returns the distribution of total position P&L. Calls
+// are exercised early on the day before each ex-dividend date when their remaining time value is
+// worth less than that dividend, which forfeits it and every later dividend on those shares.
+export const simulateCoveredCall = (
+  position: MonteCarloPosition,
+  options: MonteCarloOptions,
+): MonteCarloResult => {
+  const random = createSeededRandom(options.seed);
+  const sampleNormal = createNormalSampler(random);
+  const days = Math.max(1, Math.round(position.days));
+  const dt = 1 / DAYS_PER_YEAR;
+  const variance = position.volatility * position.volatility;
+  const isJumpModel = options.model === "jump";
+  const jumpProbability = isJumpModel ? options.jumpsPerYear * dt : 0;
+  // Drift compensation keeps the expected forward price identical across models.
+  const jumpCompensation = isJumpModel
+    ? options.jumpsPerYear *
+      (Math.exp(options.jumpMean + 0.5 * options.jumpVolatility ** 2) - 1)
+    : 0;
+  const dailyDrift =
+    (position.riskFreeRate - position.dividendYield - jumpCompensation - 0.5 * variance) * dt;
+  const dailyVolatility = position.volatility * Math.sqrt(dt);
+  const exDividends = position.exDividends.length
+    ? position.exDividends
+    : options.exDividendDay !== null
+      ? [{ day: options.exDividendDay, amount: position.dividendPerShare }]
+      : [];
+  // Keyed by the eve of each ex-date; day 0 is today, checked at the current price.
+  const dividendsByEve = new Map<number, number>();
+  exDividends.forEach(({ day, amount }) => {
+    if (day >= 1 && day <= days && amount > 0) {
+      dividendsByEve.set(day - 1, (dividendsByEve.get(day - 1) ?? 0) + amount);
+    }
+  });
+  const hasExDates = exDividends.length > 0;
+  const putDay = position.putStrikePrice > 0 ? Math.min(days, Math.round(position.putDays)) : null;
+  const premiumTotal = position.callLots.reduce(
+    (sum, lot) => sum + lot.premium * lot.contracts * SHARES_PER_CONTRACT,
+    0,
+  );
+  const outcomes: number[] = [];
+  let earlyAssignedPaths = 0;
+
+  for (let path = 0; path < options.paths; path += 1) {
+    let price = position.stockPrice;
+    let putPayoff = 0;
+    let earlyAssignedShares = 0;
+    let earlyAssignedValue = 0;
+    let dividendsReceived = 0;
+    const openLots = [...position.callLots];
+
+    for (let day = 0; day <= days; day += 1) {
+      if (day > 0) {
+        let logReturn = dailyDrift + dailyVolatility * sampleNormal();
+        if (isJumpModel && random() < jumpProbability) {
+          logReturn += options.jumpMean + options.jumpVolatility * sampleNormal();
+        }
+        price *= Math.exp(logReturn);
+      }
+
+      if (day === putDay) {
+        putPayoff = Math.max(0, position.putStrikePrice - price);
+      }
+
+      const dividend = dividendsByEve.get(day);
+      if (dividend !== undefined) {
+        for (let index = openLots.length - 1; index >= 0; index -= 1) {
+          const lot = openLots[index];
+          if (price <= lot.strikePrice) {
+            continue;
+          }
+          const timeValue = priceCall({
+            stockPrice: price,
+            strikePrice: lot.strikePrice,
+            daysUntilExpiration: days - day,
+            volatility: position.volatility,
+            riskFreeRate: position.riskFreeRate,
+            dividendYield: position.dividendYield,
+          }).timeValue;
+          if (timeValue < dividend) {
+            const lotShares = lot.contracts * SHARES_PER_CONTRACT;
+            earlyAssignedShares += lotShares;
+            earlyAssignedValue += lot.strikePrice * lotShares;
+            openLots.splice(index, 1);
+          }
+        }
+        dividendsReceived += (position.shares - earlyAssignedShares) * dividend;
+      }
+    }
+
+    if (earlyAssignedShares) {
+      earlyAssignedPaths += 1;
+    }
+
+    const heldShares = position.shares - earlyAssignedShares;
+    const callsPayoff = openLots.reduce(
+      (sum, lot) =>
+        sum + Math.max(0, price - lot.strikePrice) * lot.contracts * SHARES_PER_CONTRACT,
+      0,
+    );
+    const isAssigned =
+      earlyAssignedShares > 0 || openLots.some((lot) => price > lot.strikePrice);
+    const dividends = hasExDates
+      ? dividendsReceived
+      : position.shares * position.dividendPerShare;
+
+    outcomes.push(
+      earlyAssignedValue +
+        heldShares * price -
+        position.shares * position.costBasis +
+        premiumTotal -
+        callsPayoff +
+        dividends +
+        (putPayoff - position.putCost) * position.shares -
+        position.entryCosts -
+        (isAssigned ? position.assignmentCosts : 0),
+    );
+  }
+
+  const sorted = outcomes.sort((a, b) => a - b);
+  const paths = sorted.length;
+
+  return {
+    paths,
+    mean: paths ? sorted.reduce((sum, value) => sum + value, 0) / paths : 0,
+    median: percentile(sorted, 0.5),
+    percentile5: percentile(sorted, 0.05),
+    percentile95: percentile(sorted, 0.95),
+    probabilityOfLoss: paths ? sorted.filter((value) => value < 0).length / paths : 0,
+    earlyAssignmentProbability: paths ? earlyAssignedPaths / paths : 0,
+    histogram: buildHistogram(sorted),
+  };
+};
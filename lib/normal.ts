@@ -0,0 +1,71 @@
+const INV_SQRT_2PI = 1 / Math.sqrt(2 * Math.PI);
+
+export const normalPdf = (x: number) => INV_SQRT_2PI * Math.exp(-0.5 * x * x);
+
+// Abramowitz & Stegun 26.2.17, accurate to roughly 7.5e-8.
+export const normalCdf = (x: number) => {
+  if (!Number.isFinite(x)) {
+    return x > 0 ? 1 : 0;
+  }
+
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly =
+    t *
+    (0.31938153 +
+      t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normalPdf(x) * poly;
+
+  return x >= 0 ? 1 - tail : tail;
+};
+
+// Acklam's rational approximation of the inverse normal CDF, accurate to roughly 1.2e-9.
+export const inverseNormalCdf = (p: number) => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [
+    -39.69683028665376,
+    220.9460984245205,
+    -275.9285104469687,
+    138.357751867269,
+    -30.66479806614716,
+    2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406,
+    161.5858368580409,
+    -155.6989798598866,
+    66.80131188771972,
+    -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293,
+    -0.3223964580411365,
+    -2.400758277161838,
+    -2.549732539343734,
+    4.374664141464968,
+    2.938163982698783,
+  ];
+  const d = [
+    0.007784695709041462,
+    0.3224671290700398,
+    2.445134137142996,
+    3.754408661907416,
+  ];
+  const lowTail = 0.02425;
+
+  if (p < lowTail || p > 1 - lowTail) {
+    const q = Math.sqrt(-2 * Math.log(p < lowTail ? p : 1 - p));
+    const value =
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < lowTail ? value : -value;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+};
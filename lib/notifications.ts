@@ -0,0 +1,37 @@
+import type { TriggeredAlert } from "./alerts";
+import { isServiceWorkerSupported } from "./service-worker";
+
+export type NotificationStatus = NotificationPermission | "unsupported";
+
+const isSupported = () => isServiceWorkerSupported() && "Notification" in window;
+
+export const getNotificationStatus = (): NotificationStatus =>
+  isSupported() ? Notification.permission : "unsupported";
+
+export const requestNotificationPermission = async (): Promise<NotificationStatus> => {
+  if (!isSupported()) {
+    return "unsupported";
+  }
+
+  return Notification.requestPermission();
+};
+
+// Notifications go through the service worker (registered by the root layout) so they still
+// show when the tab is in the background, and clicking one brings the planner back into focus.
+export const showAlertNotifications = async (alerts: TriggeredAlert[]) => {
+  if (!alerts.length || getNotificationStatus() !== "granted") {
+    return;
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  await Promise.all(
+    alerts.map((alert) =>
+      registration.showNotification(alert.entryName || "Position alert", {
+        body: alert.message,
+        tag: alert.ruleId,
+        icon: "/icon-192.png",
+        data: { url: "/covered-call" },
+      }),
+    ),
+  );
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatOccSymbol,
+  getPlanOccSymbol,
+  parseOptionSymbol,
+  validateOptionSymbol,
+} from "./occ-symbol";
+
+const AAPL_CALL = {
+  symbol: "AAPL",
+  expirationDate: "2024-12-20",
+  type: "call" as const,
+  strikePrice: 105,
+};
+
+describe("parseOptionSymbol", () => {
+  it("parses padded and unpadded OCC symbols", () => {
+    expect(parseOptionSymbol("AAPL  241220C00105000")).toEqual(AAPL_CALL);
+    expect(parseOptionSymbol("AAPL241220C00105000")).toEqual(AAPL_CALL);
+    expect(parseOptionSymbol("spy   250117p00450500")).toEqual({
+      symbol: "SPY",
+      expirationDate: "2025-01-17",
+      type: "put",
+      strikePrice: 450.5,
+    });
+  });
+
+  it("parses compact broker forms", () => {
+    expect(parseOptionSymbol(".AAPL241220C105")).toEqual(AAPL_CALL);
+    expect(parseOptionSymbol("-AAPL241220C105")).toEqual(AAPL_CALL);
+    expect(parseOptionSymbol("AAPL241220C102.5")?.strikePrice).toBe(102.5);
+  });
+
+  it("parses spelled-out forms", () => {
+    expect(parseOptionSymbol("AAPL 12/20/24 105 C")).toEqual(AAPL_CALL);
+    expect(parseOptionSymbol("AAPL 12/20/2024 105.00 CALL")).toEqual(AAPL_CALL);
+    expect(parseOptionSymbol("AAPL 12/20/2024 $105 P")?.type).toBe("put");
+  });
+
+  it("returns null for stock tickers and junk", () => {
+    expect(parseOptionSymbol("AAPL")).toBeNull();
+    expect(parseOptionSymbol("")).toBeNull();
+    expect(parseOptionSymbol("AAPL 241220X105")).toBeNull();
+  });
+});
+
+describe("validateOptionSymbol", () => {
+  it("rejects a put where a call is expected", () => {
+    const result = validateOptionSymbol("AAPL  241220P00105000", "call");
+    expect(result.contract).toBeNull();
+    expect(result.error).toMatch(/put/);
+  });
+
+  it("accepts a put where a put is expected", () => {
+    expect(validateOptionSymbol("AAPL 12/20/24 105 P", "put").error).toBeNull();
+  });
+
+  it("rejects dates that do not exist on the calendar", () => {
+    expect(validateOptionSymbol("AAPL  240230C00105000").error).toMatch(/240230/);
+    expect(validateOptionSymbol("AAPL 02/30/24 105 C").error).toMatch(/02\/30\/24/);
+    expect(validateOptionSymbol(".AAPL231329C105").error).toMatch(/not a valid/);
+  });
+
+  it("accepts leap days", () => {
+    expect(parseOptionSymbol("AAPL 02/29/24 105 C")?.expirationDate).toBe("2024-02-29");
+  });
+
+  it("rejects a zero strike", () => {
+    expect(validateOptionSymbol("AAPL  241220C00000000").error).toMatch(/strike/);
+  });
+});
+
+describe("formatOccSymbol", () => {
+  it("pads the root and encodes the strike in thousandths", () => {
+    expect(formatOccSymbol(AAPL_CALL)).toBe("AAPL  241220C00105000");
+    expect(formatOccSymbol({ ...AAPL_CALL, type: "put", strikePrice: 7.5 })).toBe(
+      "AAPL  241220P00007500",
+    );
+  });
+
+  it("round-trips through the parser", () => {
+    expect(parseOptionSymbol(formatOccSymbol(AAPL_CALL))).toEqual(AAPL_CALL);
+  });
+});
+
+describe("getPlanOccSymbol", () => {
+  it("formats plan fields", () => {
+    const values = { symbol: " aapl ", expirationDate: "2024-12-20", strikePrice: "105" };
+    expect(getPlanOccSymbol(values, "call")).toBe("AAPL  241220C00105000");
+  });
+
+  it("returns null for fields that cannot be listed", () => {
+    const values = { symbol: "AAPL", expirationDate: "2024-12-20", strikePrice: "105" };
+    expect(getPlanOccSymbol({ ...values, symbol: "TOOLONGX" }, "call")).toBeNull();
+    expect(getPlanOccSymbol({ ...values, expirationDate: "2024-02-30" }, "call")).toBeNull();
+    expect(getPlanOccSymbol({ ...values, strikePrice: "0" }, "call")).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { normalizeDateInput } from "./dates";
+
+export type OptionType = "call" | "put";
+
+export type OptionContract = {
+  symbol: string;
+  expirationDate: string;
+  type: OptionType;
+  strikePrice: number;
+};
+
+export type OptionSymbolResult =
+  | { contract: OptionContract; error: null }
+  | { contract: null; error: string };
+
+// OCC/OSI roots are at most six characters.
+const MAX_ROOT_LENGTH = 6;
+const MAX_OCC_STRIKE = 99999.999;
+
+// OCC/OSI: root padded to six characters, yymmdd, C or P, then the strike × 1000 in eight digits.
+const OCC_PATTERN = /^([A-Z][A-Z0-9.]{0,5})\s*(\d{6})([CP])(\d{8})$/;
+// Compact broker form with a plain strike, e.g. ".AAPL241220C105" or Fidelity's "-AAPL241220C105".
+const COMPACT_PATTERN = /^[-.]?([A-Z][A-Z0-9.]{0,5})(\d{6})([CP])(\d+(?:\.\d+)?)$/;
+// Spelled-out form, e.g. "AAPL 12/20/24 105 C" or Schwab's "AAPL 12/20/2024 105.00 C".
+const SPACED_PATTERN =
+  /^([A-Z][A-Z0-9.]{0,5})\s+(\d{1,2}\/\d{1,2}\/(?:\d{2}|\d{4}))\s+\$?(\d+(?:\.\d+)?)\s+(CALL|PUT|C|P)$/;
+
+type SymbolMatch = {
+  symbol: string;
+  rawDate: string;
+  expirationDate: string | null;
+  type: OptionType;
+  strikePrice: number;
+};
+
+const toOptionType = (letter: string): OptionType => (letter.startsWith("C") ? "call" : "put");
+
+const parseCompactDate = (value: string) =>
+  normalizeDateInput(`20${value.slice(0, 2)}-${value.slice(2, 4)}-${value.slice(4, 6)}`);
+
+const matchOptionSymbol = (value: string): SymbolMatch | null => {
+  const trimmed = value.trim().toUpperCase();
+
+  const occ = OCC_PATTERN.exec(trimmed);
+  if (occ) {
+    return {
+      symbol: occ[1],
+      rawDate: occ[2],
+      expirationDate: parseCompactDate(occ[2]),
+      type: toOptionType(occ[3]),
+      strikePrice: Number(occ[4]) / 1000,
+    };
+  }
+
+  const compact = COMPACT_PATTERN.exec(trimmed);
+  if (compact) {
+    return {
+      symbol: compact[1],
+      rawDate: compact[2],
+      expirationDate: parseCompactDate(compact[2]),
+      type: toOptionType(compact[3]),
+      strikePrice: Number(compact[4]),
+    };
+  }
+
+  const spaced = SPACED_PATTERN.exec(trimmed);
+  if (spaced) {
+    return {
+      symbol: spaced[1],
+      rawDate: spaced[2],
+      expirationDate: normalizeDateInput(spaced[2]),
+      type: toOptionType(spaced[4]),
+      strikePrice: Number(spaced[3]),
+    };
+  }
+
+  return null;
+};
+
+// Accepts OCC symbols and the common shorthand forms. Pass the option type a page plans to
+// reject the other kind.
+export const validateOptionSymbol = (
+  value: string,
+  expectedType?: OptionType,
+): OptionSymbolResult => {
+  if (!value.trim()) {
+    return { contract: null, error: "Enter a contract symbol." };
+  }
+
+  const match = matchOptionSymbol(value);
+  if (!match) {
+    return {
+      contract: null,
+      error: "Not a recognized contract symbol. Try AAPL  241220C00105000 or AAPL 12/20/24 105 C.",
+    };
+  }
+  if (!match.expirationDate) {
+    return { contract: null, error: `${match.rawDate} is not a valid expiration date.` };
+  }
+  if (!(match.strikePrice > 0)) {
+    return { contract: null, error: "The strike must be above zero." };
+  }
+  if (expectedType && match.type !== expectedType) {
+    return {
+      contract: null,
+      error: `That is a ${match.type}; this page plans ${expectedType}s.`,
+    };
+  }
+
+  const { symbol, expirationDate, type, strikePrice } = match;
+  return { contract: { symbol, expirationDate, type, strikePrice }, error: null };
+};
+
+// Returns null for anything that isn't a recognizable option, including plain stock tickers.
+export const parseOptionSymbol = (value: string): OptionContract | null =>
+  validateOptionSymbol(value).contract;
+
+export const formatOccSymbol = ({ symbol, expirationDate, type, strikePrice }: OptionContract) => {
+  const root = symbol.toUpperCase().padEnd(MAX_ROOT_LENGTH, " ");
+  const date = expirationDate.slice(2).replace(/-/g, "");
+  const strike = String(Math.round(strikePrice * 1000)).padStart(8, "0");
+  return `${root}${date}${type === "call" ? "C" : "P"}${strike}`;
+};
+
+// The OCC symbol for a plan's form fields, or null while they don't describe a listable contract.
+export const getPlanOccSymbol = (
+  values: { symbol: string; expirationDate: string; strikePrice: string },
+  type: OptionType,
+) => {
+  const symbol = values.symbol.trim().toUpperCase();
+  const strikePrice = Number.parseFloat(values.strikePrice);
+  const year = Number(values.expirationDate.slice(0, 4));
+
+  if (!symbol || symbol.length > MAX_ROOT_LENGTH || !/^[A-Z][A-Z0-9.]*$/.test(symbol)) {
+    return null;
+  }
+  if (
+    normalizeDateInput(values.expirationDate) !== values.expirationDate ||
+    year < 2000 ||
+    year > 2099
+  ) {
+    return null;
+  }
+  if (!Number.isFinite(strikePrice) || strikePrice <= 0 || strikePrice > MAX_OCC_STRIKE) {
+    return null;
+  }
+
+  return formatOccSymbol({ symbol, expirationDate: values.expirationDate, type, strikePrice });
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { createLadderLeg, getDefaultFormState } from "./covered-call";
+import { formatDateInput } from "./dates";
+import { createChainRow, evaluateChainRows } from "./option-chain";
+
+const daysFromToday = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return formatDateInput(date);
+};
+
+const formState = {
+  ...getDefaultFormState(),
+  stockPrice: "100",
+  shares: "300",
+  expirationDate: daysFromToday(30),
+};
+
+describe("evaluateChainRows", () => {
+  it("writes each row on every owned share, ignoring the form's contracts and ladder", () => {
+    const [result] = evaluateChainRows(
+      {
+        ...formState,
+        contracts: "1",
+        ladder: [createLadderLeg({ contracts: "1", strikePrice: "120", premium: "0.5" })],
+      },
+      [createChainRow({ strikePrice: "105", premium: "2", expirationDate: daysFromToday(30) })],
+    );
+
+    expect(result.calculations.contractsSold).toBe(3);
+    expect(result.calculations.hasLadder).toBe(false);
+    expect(result.calculations.blendedStrikePrice).toBe(105);
+  });
+
+  it("keeps the put on the form's expiry for rows that expire later", () => {
+    const [result] = evaluateChainRows(
+      { ...formState, putStrikePrice: "90", putCost: "1", putExpirationDate: "" },
+      [createChainRow({ strikePrice: "105", premium: "3", expirationDate: daysFromToday(60) })],
+    );
+
+    expect(result.calculations.putExpiresBeforeCall).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+import { calculateCoveredCall, type CoveredCallCalculations, type FormState } from "./covered-call";
+import { normalizeDateInput } from "./dates";
+import { createId } from "./ids";
+import type { ScoringProfile } from "./scoring";
+
+export type ChainRow = {
+  id: string;
+  strikePrice: string;
+  premium: string;
+  expirationDate: string;
+};
+
+export type ChainRowResult = {
+  row: ChainRow;
+  calculations: CoveredCallCalculations;
+};
+
+export type ChainSortKey =
+  | "expirationDate"
+  | "strikePrice"
+  | "annualizedReturn"
+  | "downsideToBreakEvenPct"
+  | "upsideCapPct"
+  | "score";
+
+export const createChainRow = (
+  values: Partial<Omit<ChainRow, "id">> = {},
+): ChainRow => ({
+  id: createId(),
+  strikePrice: values.strikePrice ?? "",
+  premium: values.premium ?? "",
+  expirationDate: values.expirationDate ?? "",
+});
+
+export const parseChainText = (text: string) => {
+  const rows: ChainRow[] = [];
+  const errors: string[] = [];
+
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .forEach((line, index) => {
+      if (!line) {
+        return;
+      }
+
+      const cells = line.split(/[\t,;]+|\s+/).filter(Boolean);
+      if (cells.length < 3) {
+        errors.push(`Line ${index + 1}: expected strike, premium and expiration`);
+        return;
+      }
+
+      const [strikeCell, premiumCell, dateCell] = cells;
+      const strikePrice = Number.parseFloat(strikeCell.replace("$", ""));
+      const premium = Number.parseFloat(premiumCell.replace("$", ""));
+      const expirationDate = normalizeDateInput(dateCell);
+
+      if (!Number.isFinite(strikePrice) || strikePrice <= 0) {
+        errors.push(`Line ${index + 1}: "${strikeCell}" is not a valid strike`);
+        return;
+      }
+      if (!Number.isFinite(premium) || premium < 0) {
+        errors.push(`Line ${index + 1}: "${premiumCell}" is not a valid premium`);
+        return;
+      }
+      if (!expirationDate) {
+        errors.push(`Line ${index + 1}: "${dateCell}" is not a valid date`);
+        return;
+      }
+
+      rows.push(
+        createChainRow({
+          strikePrice: String(strikePrice),
+          premium: String(premium),
+          expirationDate,
+        }),
+      );
+    });
+
+  return { rows, errors };
+};
+
+// Each row is a single call written on every owned share, so the form's ladder, contract count
+// and quote are left out. A put with no expiry of its own keeps the form's expiry rather than
+// following each row's.
+export const evaluateChainRows = (
+  formState: FormState,
+  rows: ChainRow[],
+  scoringProfile?: ScoringProfile,
+): ChainRowResult[] => {
+  const baseState: FormState = {
+    ...formState,
+    contracts: "",
+    ladder: [],
+    bid: "",
+    ask: "",
+    putExpirationDate: formState.putStrikePrice
+      ? formState.putExpirationDate || formState.expirationDate
+      : formState.putExpirationDate,
+  };
+
+  return rows.map((row) => ({
+    row,
+    calculations: calculateCoveredCall(
+      {
+        ...baseState,
+        strikePrice: row.strikePrice,
+        premium: row.premium,
+        expirationDate: row.expirationDate,
+      },
+      scoringProfile,
+    ),
+  }));
+};
+
+const getSortValue = ({ row, calculations }: ChainRowResult, key: ChainSortKey) => {
+  switch (key) {
+    case "expirationDate":
+      return row.expirationDate;
+    case "strikePrice":
+      return calculations.safeStrikePrice;
+    case "score":
+      return calculations.tradeQuality.score;
+    default:
+      return calculations[key];
+  }
+};
+
+export const sortChainResults = (
+  results: ChainRowResult[],
+  key: ChainSortKey,
+  direction: "asc" | "desc",
+) => {
+  const multiplier = direction === "asc" ? 1 : -1;
+
+  return [...results].sort((a, b) => {
+    const aValue = getSortValue(a, key);
+    const bValue = getSortValue(b, key);
+    if (aValue === bValue) {
+      return 0;
+    }
+    return (aValue < bValue ? -1 : 1) * multiplier;
+  });
+};
+
+export const findBestRowIdsByExpiration = (results: ChainRowResult[]) => {
+  const bestByExpiration = new Map<string, ChainRowResult>();
+
+  results.forEach((result) => {
+    if (!result.row.expirationDate || result.calculations.daysUntilExpiration <= 0) {
+      return;
+    }
+
+    const current = bestByExpiration.get(result.row.expirationDate);
+    const score = result.calculations.tradeQuality.score;
+    if (
+      !current ||
+      score > current.calculations.tradeQuality.score ||
+      (score === current.calculations.tradeQuality.score &&
+        result.calculations.annualizedReturn > current.calculations.annualizedReturn)
+    ) {
+      bestByExpiration.set(result.row.expirationDate, result);
+    }
+  });
+
+  return new Set(Array.from(bestByExpiration.values(), (result) => result.row.id));
+};
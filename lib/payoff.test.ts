@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { calculateCoveredCall, getDefaultFormState } from "./covered-call";
+import { coveredCallProfitAtExpiration, coveredCallProfitBeforeExpiration } from "./payoff";
+
+const POSITION = {
+  stockPrice: 100,
+  calls: [{ strikePrice: 105, premium: 2, coverage: 1 }],
+  dividendPerShare: 0,
+};
+
+describe("coveredCallProfitAtExpiration", () => {
+  it("caps profit at the strike plus premium", () => {
+    expect(coveredCallProfitAtExpiration(90, POSITION)).toBe(-8);
+    expect(coveredCallProfitAtExpiration(120, POSITION)).toBe(7);
+  });
+
+  it("deducts entry costs everywhere and the assignment fee only above the strike", () => {
+    const withCosts = { ...POSITION, entryCostPerShare: 0.1, assignmentCostPerShare: 0.2 };
+    expect(coveredCallProfitAtExpiration(100, withCosts)).toBeCloseTo(1.9);
+    expect(coveredCallProfitAtExpiration(120, withCosts)).toBeCloseTo(6.7);
+  });
+
+  it("crosses zero at the cost-inclusive breakeven", () => {
+    const calculations = calculateCoveredCall({
+      ...getDefaultFormState(),
+      commissionPerContract: "0.65",
+      commissionPerShare: "0.01",
+      regulatoryFeePerContract: "0.05",
+      assignmentFee: "15",
+    });
+    const profit = coveredCallProfitAtExpiration(calculations.breakevenPrice, {
+      stockPrice: calculations.safeStockPrice,
+      calls: [{ strikePrice: 105, premium: 2.75, coverage: 1 }],
+      dividendPerShare: calculations.dividendPerShareTotal,
+      entryCostPerShare: calculations.costs.entryCostsTotal / calculations.safeShares,
+      assignmentCostPerShare: calculations.costs.assignmentCostsTotal / calculations.safeShares,
+    });
+    expect(profit).toBeCloseTo(0, 9);
+  });
+
+  it("measures profit from an adjusted basis", () => {
+    const calculations = calculateCoveredCall({ ...getDefaultFormState(), adjustedBasis: "88" });
+    const position = {
+      stockPrice: calculations.costBasisPrice,
+      calls: [{ strikePrice: 105, premium: 2.75, coverage: 1 }],
+      dividendPerShare: calculations.dividendPerShareTotal,
+    };
+    expect(calculations.costBasisPrice).toBe(88);
+    expect(coveredCallProfitAtExpiration(calculations.breakevenPrice, position)).toBeCloseTo(0, 9);
+    expect(coveredCallProfitAtExpiration(120, position)).toBeCloseTo(
+      calculations.maxProfitPerShare,
+      9,
+    );
+  });
+});
+
+describe("coveredCallProfitBeforeExpiration", () => {
+  it("deducts entry costs from the marked value", () => {
+    const assumptions = { volatility: 0.3, riskFreeRate: 0.04, dividendYield: 0 };
+    const withoutCosts = coveredCallProfitBeforeExpiration(100, 10, POSITION, assumptions);
+    const withCosts = coveredCallProfitBeforeExpiration(
+      100,
+      10,
+      { ...POSITION, entryCostPerShare: 0.1, assignmentCostPerShare: 0.2 },
+      assumptions,
+    );
+    expect(withCosts).toBeCloseTo(withoutCosts - 0.1);
+  });
+});
@@ -0,0 +1,122 @@
+import { priceCall, pricePut } from "./black-scholes";
+
+export type ShortCallLeg = {
+  strikePrice: number;
+  premium: number;
+  // Fraction of the shares this call covers, 1 for a fully covered position.
+  coverage: number;
+};
+
+export type CoveredCallPosition = {
+  stockPrice: number;
+  calls: ShortCallLeg[];
+  dividendPerShare: number;
+  putStrikePrice?: number;
+  putCost?: number;
+  // Put expiration minus call expiration, in days.
+  putExtraDays?: number;
+  // Commissions and fees paid to open, spread over every share.
+  entryCostPerShare?: number;
+  // The assignment fee spread over every share, charged once any call finishes in the money.
+  assignmentCostPerShare?: number;
+};
+
+export type PricingAssumptions = {
+  volatility: number;
+  riskFreeRate: number;
+  dividendYield: number;
+};
+
+export type PayoffPoint = {
+  price: number;
+  profit: number;
+};
+
+export const coveredCallProfitAtExpiration = (
+  price: number,
+  {
+    stockPrice,
+    calls,
+    dividendPerShare,
+    putStrikePrice = 0,
+    putCost = 0,
+    putExtraDays = 0,
+    entryCostPerShare = 0,
+    assignmentCostPerShare = 0,
+  }: CoveredCallPosition,
+) => {
+  const putPayoff =
+    putStrikePrice > 0 && putExtraDays >= 0 ? Math.max(0, putStrikePrice - price) : 0;
+  const callsPayoff = calls.reduce(
+    (sum, call) => sum + (call.premium - Math.max(0, price - call.strikePrice)) * call.coverage,
+    0,
+  );
+  const assignmentCost = calls.some((call) => price > call.strikePrice)
+    ? assignmentCostPerShare
+    : 0;
+
+  return (
+    price -
+    stockPrice +
+    callsPayoff +
+    dividendPerShare +
+    putPayoff -
+    putCost -
+    entryCostPerShare -
+    assignmentCost
+  );
+};
+
+export const coveredCallProfitBeforeExpiration = (
+  price: number,
+  daysRemaining: number,
+  {
+    stockPrice,
+    calls,
+    putStrikePrice = 0,
+    putCost = 0,
+    putExtraDays = 0,
+    entryCostPerShare = 0,
+  }: CoveredCallPosition,
+  assumptions: PricingAssumptions,
+) => {
+  const callsValue = calls.reduce(
+    (sum, call) =>
+      sum +
+      (call.premium -
+        priceCall({
+          stockPrice: price,
+          strikePrice: call.strikePrice,
+          daysUntilExpiration: daysRemaining,
+          ...assumptions,
+        }).value) *
+        call.coverage,
+    0,
+  );
+  const putDaysRemaining = daysRemaining + putExtraDays;
+  const putValue =
+    putStrikePrice > 0 && putDaysRemaining > 0
+      ? pricePut({
+          stockPrice: price,
+          strikePrice: putStrikePrice,
+          daysUntilExpiration: putDaysRemaining,
+          ...assumptions,
+        }).value
+      : 0;
+
+  return price - stockPrice + callsValue + putValue - putCost - entryCostPerShare;
+};
+
+export const buildPriceGrid = (min: number, max: number, steps: number) => {
+  if (!(max > min) || steps < 1) {
+    return [min];
+  }
+
+  const stepSize = (max - min) / steps;
+  return Array.from({ length: steps + 1 }, (_, index) => min + stepSize * index);
+};
+
+export const buildPayoffCurve = (
+  prices: number[],
+  getProfit: (price: number) => number,
+): PayoffPoint[] => prices.map((price) => ({ price, profit: getProfit(price) }));
@@ -0,0 +1,188 @@
+import {
+  getDefaultFormState,
+  sanitizeFormState,
+  type FormState,
+  type FormStringField,
+} from "./covered-call";
+import { createId } from "./ids";
+import { sanitizeJournalEntry, type JournalEntry } from "./journal";
+
+export const PLAN_FILE_FORMAT = "optionsplanner.plans";
+export const PLAN_FILE_VERSION = 1;
+
+export type PlanFile = {
+  format: typeof PLAN_FILE_FORMAT;
+  version: typeof PLAN_FILE_VERSION;
+  exportedAt: string;
+  plans: JournalEntry[];
+};
+
+const ITEM_SEPARATOR = ",";
+const VALUE_SEPARATOR = "~";
+// Fields that always go into a link, since the recipient's defaults may differ (the default
+// expiration is relative to today).
+const ALWAYS_ENCODED: FormStringField[] = ["symbol", "expirationDate"];
+
+const getStringFields = (formState: FormState) =>
+  (Object.keys(formState) as Array<keyof FormState>).filter(
+    (field): field is FormStringField => field !== "ladder" && field !== "dividends",
+  );
+
+// Encodes a plan as query parameters. Fields left at their defaults are omitted, and ladder legs
+// and ex-dividend dates are packed as `contracts~strike~premium` and `exDate~amount` lists.
+export const encodePlanQuery = (formState: FormState) => {
+  const defaults = getDefaultFormState();
+  const params = new URLSearchParams();
+
+  getStringFields(formState).forEach((field) => {
+    if (ALWAYS_ENCODED.includes(field) || formState[field] !== defaults[field]) {
+      params.set(field, formState[field]);
+    }
+  });
+
+  if (formState.ladder.length) {
+    params.set(
+      "ladder",
+      formState.ladder
+        .map((leg) => [leg.contracts, leg.strikePrice, leg.premium].join(VALUE_SEPARATOR))
+        .join(ITEM_SEPARATOR),
+    );
+  }
+  if (formState.dividends.length) {
+    params.set(
+      "dividends",
+      formState.dividends
+        .map((event) => [event.exDate, event.amount].join(VALUE_SEPARATOR))
+        .join(ITEM_SEPARATOR),
+    );
+  }
+
+  return params.toString();
+};
+
+const splitList = (value: string) =>
+  value
+    .split(ITEM_SEPARATOR)
+    .filter(Boolean)
+    .map((item) => item.split(VALUE_SEPARATOR));
+
+// Returns null when the query carries no plan fields, so plain visits keep the saved plan.
+export const decodePlanQuery = (search: string, defaults: FormState): FormState | null => {
+  const params = new URLSearchParams(search);
+  const source: Record<string, unknown> = {};
+
+  getStringFields(defaults).forEach((field) => {
+    const value = params.get(field);
+    if (value !== null) {
+      source[field] = value;
+    }
+  });
+
+  const ladder = params.get("ladder");
+  if (ladder !== null) {
+    source.ladder = splitList(ladder).map(([contracts, strikePrice, premium]) => ({
+      contracts,
+      strikePrice,
+      premium,
+    }));
+  }
+  const dividends = params.get("dividends");
+  if (dividends !== null) {
+    source.dividends = splitList(dividends).map(([exDate, amount]) => ({ exDate, amount }));
+  }
+
+  return Object.keys(source).length ? sanitizeFormState(source, defaults) : null;
+};
+
+export const getPlanUrl = (
+  formState: FormState,
+  location: Pick<Location, "origin" | "pathname">,
+) => `${location.origin}${location.pathname}?${encodePlanQuery(formState)}`;
+
+export const createPlanFile = (entries: JournalEntry[]): PlanFile => ({
+  format: PLAN_FILE_FORMAT,
+  version: PLAN_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  plans: entries,
+});
+
+export const getPlanFileName = (entries: JournalEntry[]) => {
+  const date = new Date().toISOString().slice(0, 10);
+  if (entries.length !== 1) {
+    return `options-plans-${date}.json`;
+  }
+
+  const slug = entries[0].name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "plan"}-${date}.json`;
+};
+
+// Imported plans get fresh ids so they never overwrite positions already in the journal.
+export const parsePlanFile = (text: string) => {
+  const errors: string[] = [];
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { entries: [], errors: ["The file is not valid JSON"] };
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return { entries: [], errors: ["The file does not contain an exported plan"] };
+  }
+
+  const source = parsed as Record<string, unknown>;
+  if (source.format !== PLAN_FILE_FORMAT) {
+    return { entries: [], errors: ["The file is not an Options Planner export"] };
+  }
+  if (typeof source.version !== "number" || source.version > PLAN_FILE_VERSION) {
+    return {
+      entries: [],
+      errors: [`Unsupported export version ${String(source.version)}; update the app to import it`],
+    };
+  }
+  if (!Array.isArray(source.plans) || !source.plans.length) {
+    return { entries: [], errors: ["The export contains no plans"] };
+  }
+
+  const defaults = getDefaultFormState();
+  const now = new Date().toISOString();
+  const entries: JournalEntry[] = [];
+  source.plans.forEach((plan, index) => {
+    const label = `Plan ${index + 1}`;
+    if (typeof plan !== "object" || plan === null) {
+      errors.push(`${label}: not an object`);
+      return;
+    }
+    const { formState } = plan as Record<string, unknown>;
+    if (typeof formState !== "object" || formState === null) {
+      errors.push(`${label}: missing trade inputs`);
+      return;
+    }
+
+    const entry = sanitizeJournalEntry({ ...plan, id: createId() }, defaults);
+    if (!entry) {
+      errors.push(`${label}: could not be read`);
+      return;
+    }
+
+    const rawFields = formState as Record<string, unknown>;
+    const invalidFields = getStringFields(defaults).filter((field) => {
+      const raw = rawFields[field];
+      return (
+        field !== "symbol" &&
+        raw !== undefined &&
+        entry.formState[field] !== (typeof raw === "number" ? String(raw) : raw)
+      );
+    });
+    if (invalidFields.length) {
+      errors.push(`${entry.name}: ignored invalid ${invalidFields.join(", ")}`);
+    }
+    entries.push({ ...entry, createdAt: now, updatedAt: now });
+  });
+
+  return { entries, errors };
+};
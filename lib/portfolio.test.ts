@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { calculateCoveredCall, getDefaultFormState, type FormState } from "./covered-call";
+import { formatDateInput } from "./dates";
+import { createJournalEntry } from "./journal";
+import { getWeekStart, summarizePortfolio } from "./portfolio";
+
+const daysFromToday = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return formatDateInput(date);
+};
+
+const position = (overrides: Partial<FormState>) => ({
+  ...getDefaultFormState(),
+  stockPrice: "100",
+  strikePrice: "105",
+  premium: "2",
+  shares: "100",
+  expirationDate: daysFromToday(30),
+  ...overrides,
+});
+
+describe("getWeekStart", () => {
+  it("returns the Monday of the week", () => {
+    expect(getWeekStart("2024-06-05")).toBe("2024-06-03");
+    expect(getWeekStart("2024-06-03")).toBe("2024-06-03");
+    expect(getWeekStart("2024-06-09")).toBe("2024-06-03");
+  });
+});
+
+describe("summarizePortfolio", () => {
+  it("weights the annualized return by net cost and skips closed or archived positions", () => {
+    const first = position({ symbol: "AAPL" });
+    const second = position({ symbol: "MSFT", stockPrice: "50", strikePrice: "55", shares: "400" });
+    const summary = summarizePortfolio([
+      createJournalEntry(first),
+      createJournalEntry(second),
+      createJournalEntry(position({ symbol: "TSLA" }), { status: "closed" }),
+      createJournalEntry(position({ symbol: "NVDA" }), { archived: true }),
+    ]);
+    const a = calculateCoveredCall(first);
+    const b = calculateCoveredCall(second);
+
+    expect(summary.positions).toHaveLength(4);
+    expect(summary.openPositions).toHaveLength(2);
+    expect(summary.grossCost).toBeCloseTo(a.grossCost + b.grossCost);
+    expect(summary.weightedAnnualizedReturn).toBeCloseTo(
+      (a.annualizedReturn * a.netCost + b.annualizedReturn * b.netCost) / (a.netCost + b.netCost),
+    );
+  });
+
+  it("groups concentration by symbol regardless of case", () => {
+    const summary = summarizePortfolio([
+      createJournalEntry(position({ symbol: "aapl" })),
+      createJournalEntry(position({ symbol: " AAPL " })),
+      createJournalEntry(position({ symbol: "MSFT", shares: "200" })),
+    ]);
+
+    expect(summary.concentration.map(({ symbol, positions }) => [symbol, positions])).toEqual([
+      ["AAPL", 2],
+      ["MSFT", 1],
+    ]);
+    expect(summary.concentration[0].share).toBeCloseTo(0.5);
+  });
+
+  it("flags a week holding most of the covered shares as heavy", () => {
+    const summary = summarizePortfolio([
+      createJournalEntry(position({ shares: "300", expirationDate: daysFromToday(30) })),
+      createJournalEntry(position({ shares: "100", expirationDate: daysFromToday(44) })),
+    ]);
+
+    expect(summary.calendar).toHaveLength(2);
+    const [heavy, light] = summary.calendar;
+    expect(heavy.weekStart).toBe(getWeekStart(daysFromToday(30)));
+    expect(heavy.coveredShares).toBe(300);
+    expect(heavy.exposureShare).toBeCloseTo(0.75);
+    expect(heavy.isHeavy).toBe(true);
+    expect(light.exposureShare).toBeCloseTo(0.25);
+    expect(light.isHeavy).toBe(false);
+  });
+});
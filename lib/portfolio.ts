@@ -0,0 +1,169 @@
+import { calculateCoveredCall, type CoveredCallCalculations } from "./covered-call";
+import { isValidDateInput } from "./dates";
+import type { JournalEntry } from "./journal";
+
+export type PortfolioPosition = {
+  entry: JournalEntry;
+  calculations: CoveredCallCalculations;
+  isOpen: boolean;
+};
+
+export type SymbolConcentration = {
+  symbol: string;
+  positions: number;
+  grossCost: number;
+  share: number;
+};
+
+export type ExpirationGroup = {
+  expirationDate: string;
+  positions: PortfolioPosition[];
+  coveredShares: number;
+  expectedAssignedShares: number;
+  strikeNotional: number;
+};
+
+export type ExpirationWeek = {
+  weekStart: string;
+  expirations: ExpirationGroup[];
+  coveredShares: number;
+  expectedAssignedShares: number;
+  strikeNotional: number;
+  // Share of the portfolio's covered shares expiring this week.
+  exposureShare: number;
+  isHeavy: boolean;
+};
+
+export type PortfolioSummary = {
+  positions: PortfolioPosition[];
+  openPositions: PortfolioPosition[];
+  grossCost: number;
+  netCost: number;
+  premiumTotal: number;
+  netPremiumTotal: number;
+  dividendsTotal: number;
+  positionDelta: number;
+  dailyThetaTotal: number;
+  expectedProfitTotal: number;
+  weightedAnnualizedReturn: number;
+  concentration: SymbolConcentration[];
+  calendar: ExpirationWeek[];
+};
+
+// A week holding this share of the covered shares or more is flagged as heavy exposure.
+export const HEAVY_WEEK_EXPOSURE = 0.4;
+
+const sum = (positions: PortfolioPosition[], pick: (item: CoveredCallCalculations) => number) =>
+  positions.reduce((total, position) => total + pick(position.calculations), 0);
+
+// Monday of the expiration's week, worked in UTC so the date string never shifts a day.
+export const getWeekStart = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+};
+
+const groupByExpiration = (positions: PortfolioPosition[]) => {
+  const groups = new Map<string, ExpirationGroup>();
+
+  positions.forEach((position) => {
+    const { expirationDate } = position.entry.formState;
+    const { coveredShares, blendedStrikePrice, probabilities } = position.calculations;
+    const group = groups.get(expirationDate) ?? {
+      expirationDate,
+      positions: [],
+      coveredShares: 0,
+      expectedAssignedShares: 0,
+      strikeNotional: 0,
+    };
+
+    group.positions.push(position);
+    group.coveredShares += coveredShares;
+    group.expectedAssignedShares += coveredShares * probabilities.assignmentProbability;
+    group.strikeNotional += coveredShares * blendedStrikePrice;
+    groups.set(expirationDate, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) =>
+    a.expirationDate.localeCompare(b.expirationDate),
+  );
+};
+
+const buildCalendar = (positions: PortfolioPosition[]): ExpirationWeek[] => {
+  const totalCoveredShares = sum(positions, (item) => item.coveredShares);
+  const weeks = new Map<string, ExpirationWeek>();
+
+  groupByExpiration(
+    positions.filter((position) => isValidDateInput(position.entry.formState.expirationDate)),
+  ).forEach((group) => {
+    const weekStart = getWeekStart(group.expirationDate);
+    const week = weeks.get(weekStart) ?? {
+      weekStart,
+      expirations: [],
+      coveredShares: 0,
+      expectedAssignedShares: 0,
+      strikeNotional: 0,
+      exposureShare: 0,
+      isHeavy: false,
+    };
+
+    week.expirations.push(group);
+    week.coveredShares += group.coveredShares;
+    week.expectedAssignedShares += group.expectedAssignedShares;
+    week.strikeNotional += group.strikeNotional;
+    week.exposureShare = totalCoveredShares > 0 ? week.coveredShares / totalCoveredShares : 0;
+    week.isHeavy = week.exposureShare >= HEAVY_WEEK_EXPOSURE;
+    weeks.set(weekStart, week);
+  });
+
+  return Array.from(weeks.values());
+};
+
+const buildConcentration = (positions: PortfolioPosition[], grossCost: number) => {
+  const bySymbol = new Map<string, SymbolConcentration>();
+
+  positions.forEach((position) => {
+    const symbol = position.entry.formState.symbol.trim().toUpperCase() || "—";
+    const item = bySymbol.get(symbol) ?? { symbol, positions: 0, grossCost: 0, share: 0 };
+    item.positions += 1;
+    item.grossCost += position.calculations.grossCost;
+    item.share = grossCost > 0 ? item.grossCost / grossCost : 0;
+    bySymbol.set(symbol, item);
+  });
+
+  return Array.from(bySymbol.values()).sort((a, b) => b.grossCost - a.grossCost);
+};
+
+// Evaluates every saved position; totals, concentration and the calendar cover open, unarchived
+// ones only. The annualized return is weighted by each position's net cost.
+export const summarizePortfolio = (entries: JournalEntry[]): PortfolioSummary => {
+  const positions = entries.map((entry) => ({
+    entry,
+    calculations: calculateCoveredCall(entry.formState),
+    isOpen: entry.status === "open" && !entry.archived,
+  }));
+  const openPositions = positions.filter((position) => position.isOpen);
+  const grossCost = sum(openPositions, (item) => item.grossCost);
+  const netCost = sum(openPositions, (item) => item.netCost);
+  const weightedReturnTotal = sum(
+    openPositions,
+    (item) => item.annualizedReturn * Math.max(0, item.netCost),
+  );
+  const returnWeight = sum(openPositions, (item) => Math.max(0, item.netCost));
+
+  return {
+    positions,
+    openPositions,
+    grossCost,
+    netCost,
+    premiumTotal: sum(openPositions, (item) => item.premiumTotal),
+    netPremiumTotal: sum(openPositions, (item) => item.netPremiumTotal),
+    dividendsTotal: sum(openPositions, (item) => item.dividendsTotal),
+    positionDelta: sum(openPositions, (item) => item.positionDelta),
+    dailyThetaTotal: sum(openPositions, (item) => item.dailyThetaTotal),
+    expectedProfitTotal: sum(openPositions, (item) => item.expectedProfitTotal),
+    weightedAnnualizedReturn: returnWeight > 0 ? weightedReturnTotal / returnWeight : 0,
+    concentration: buildConcentration(openPositions, grossCost),
+    calendar: buildCalendar(openPositions),
+  };
+};
@@ -0,0 +1,124 @@
+import { normalizeDateInput } from "./dates";
+
+export type PriceBar = {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+};
+
+type PriceColumn = keyof PriceBar;
+
+// Header spellings seen in Yahoo Finance, Nasdaq and common broker downloads.
+const COLUMN_ALIASES: Record<PriceColumn, string[]> = {
+  date: ["date", "datetime", "time", "timestamp", "trade date"],
+  open: ["open", "open price"],
+  high: ["high", "high price"],
+  low: ["low", "low price"],
+  close: ["close", "close/last", "last", "last price", "close price", "price"],
+  volume: ["volume", "vol", "vol."],
+};
+
+const REQUIRED_COLUMNS: PriceColumn[] = ["date", "high", "low", "close"];
+
+export const splitCsvLine = (line: string) => {
+  const cells: string[] = [];
+  let current = "";
+  let isQuoted = false;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === '"') {
+      if (isQuoted && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else {
+        isQuoted = !isQuoted;
+      }
+    } else if (char === "," && !isQuoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+
+  return cells;
+};
+
+export const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[*"]/g, "").trim();
+
+export const parseCsvNumber = (value: string) => {
+  const cleaned = value.replace(/[$,\s]/g, "");
+  if (!cleaned || cleaned.toLowerCase() === "null") {
+    return Number.NaN;
+  }
+  return Number.parseFloat(cleaned);
+};
+
+const parseBarDate = (value: string) =>
+  normalizeDateInput(value) ?? normalizeDateInput(value.slice(0, 10));
+
+export const parsePriceHistoryCsv = (text: string) => {
+  const errors: string[] = [];
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+
+  if (!lines.length) {
+    return { bars: [], errors: ["The file is empty"] };
+  }
+
+  const headers = splitCsvLine(lines[0]).map(normalizeHeader);
+  const columnIndexes = {} as Record<PriceColumn, number>;
+  (Object.keys(COLUMN_ALIASES) as PriceColumn[]).forEach((column) => {
+    columnIndexes[column] = headers.findIndex((header) =>
+      COLUMN_ALIASES[column].includes(header),
+    );
+  });
+
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => columnIndexes[column] < 0);
+  if (missingColumns.length) {
+    return {
+      bars: [],
+      errors: [`Missing ${missingColumns.join(", ")} column${missingColumns.length === 1 ? "" : "s"}`],
+    };
+  }
+
+  const barsByDate = new Map<string, PriceBar>();
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    const readCell = (column: PriceColumn) =>
+      columnIndexes[column] >= 0 ? cells[columnIndexes[column]] ?? "" : "";
+    const date = parseBarDate(readCell("date"));
+    const high = parseCsvNumber(readCell("high"));
+    const low = parseCsvNumber(readCell("low"));
+    const close = parseCsvNumber(readCell("close"));
+    const open = parseCsvNumber(readCell("open"));
+    const volume = parseCsvNumber(readCell("volume"));
+
+    if (!date) {
+      errors.push(`Line ${index + 2}: "${readCell("date")}" is not a valid date`);
+      return;
+    }
+    if (![high, low, close].every((value) => Number.isFinite(value) && value > 0)) {
+      errors.push(`Line ${index + 2}: missing or invalid prices`);
+      return;
+    }
+
+    barsByDate.set(date, {
+      date,
+      open: Number.isFinite(open) ? open : close,
+      high,
+      low,
+      close,
+      volume: Number.isFinite(volume) ? volume : 0,
+    });
+  });
+
+  const bars = Array.from(barsByDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+  return { bars, errors };
+};
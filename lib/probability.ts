@@ -0,0 +1,136 @@
+import { yearsFromDays } from "./black-scholes";
+import { normalCdf } from "./normal";
+
+export type LognormalInputs = {
+  stockPrice: number;
+  daysUntilExpiration: number;
+  volatility: number;
+  riskFreeRate: number;
+  dividendYield: number;
+};
+
+export type CoveredCallProbabilities = {
+  assignmentProbability: number;
+  profitProbability: number;
+  touchProbability: number;
+  expectedProfitPerShare: number;
+};
+
+const getLognormalTerms = ({
+  stockPrice,
+  daysUntilExpiration,
+  volatility,
+  riskFreeRate,
+  dividendYield,
+}: LognormalInputs) => {
+  const years = yearsFromDays(daysUntilExpiration);
+  const isDegenerate = stockPrice <= 0 || years <= 0 || volatility <= 0;
+
+  return {
+    years,
+    isDegenerate,
+    volSqrtYears: volatility * Math.sqrt(years),
+    logDrift: (riskFreeRate - dividendYield - 0.5 * volatility * volatility) * years,
+  };
+};
+
+export const probabilityAbove = (inputs: LognormalInputs, price: number) => {
+  const { isDegenerate, volSqrtYears, logDrift } = getLognormalTerms(inputs);
+
+  if (price <= 0) {
+    return 1;
+  }
+  if (isDegenerate) {
+    return inputs.stockPrice > price ? 1 : 0;
+  }
+
+  return normalCdf((Math.log(inputs.stockPrice / price) + logDrift) / volSqrtYears);
+};
+
+export const probabilityOfTouching = (inputs: LognormalInputs, barrier: number) => {
+  const { years, isDegenerate, volSqrtYears, logDrift } = getLognormalTerms(inputs);
+
+  if (barrier <= inputs.stockPrice) {
+    return 1;
+  }
+  if (isDegenerate) {
+    return 0;
+  }
+
+  const distance = Math.log(barrier / inputs.stockPrice);
+  const driftRate = logDrift / years;
+  const variance = inputs.volatility * inputs.volatility;
+  const probability =
+    normalCdf((logDrift - distance) / volSqrtYears) +
+    Math.exp((2 * driftRate * distance) / variance) *
+      normalCdf((-distance - logDrift) / volSqrtYears);
+
+  return Math.min(1, Math.max(0, probability));
+};
+
+// E[min(S_T, K)] under the lognormal model, i.e. the expected value of a share that is called away at K.
+const expectedCappedPrice = (inputs: LognormalInputs, strikePrice: number) => {
+  const { years, isDegenerate, volSqrtYears, logDrift } = getLognormalTerms(inputs);
+  const forward =
+    inputs.stockPrice * Math.exp((inputs.riskFreeRate - inputs.dividendYield) * years);
+
+  if (strikePrice <= 0) {
+    return 0;
+  }
+  if (isDegenerate) {
+    return Math.min(forward, strikePrice);
+  }
+
+  const d2 = (Math.log(inputs.stockPrice / strikePrice) + logDrift) / volSqrtYears;
+  const d1 = d2 + volSqrtYears;
+
+  return forward * normalCdf(-d1) + strikePrice * normalCdf(d2);
+};
+
+export const expectedPriceAtExpiration = (inputs: LognormalInputs) =>
+  inputs.stockPrice *
+  Math.exp((inputs.riskFreeRate - inputs.dividendYield) * yearsFromDays(inputs.daysUntilExpiration));
+
+// E[max(K - S_T, 0)], the expected payoff of a long put held to expiration.
+export const expectedPutPayoff = (inputs: LognormalInputs, strikePrice: number) => {
+  const { years, isDegenerate, volSqrtYears, logDrift } = getLognormalTerms(inputs);
+  const forward =
+    inputs.stockPrice * Math.exp((inputs.riskFreeRate - inputs.dividendYield) * years);
+
+  if (strikePrice <= 0) {
+    return 0;
+  }
+  if (isDegenerate) {
+    return Math.max(0, strikePrice - forward);
+  }
+
+  const d2 = (Math.log(inputs.stockPrice / strikePrice) + logDrift) / volSqrtYears;
+  const d1 = d2 + volSqrtYears;
+
+  return strikePrice * normalCdf(-d2) - forward * normalCdf(-d1);
+};
+
+export const calculateCoveredCallProbabilities = ({
+  strikePrice,
+  breakevenPrice,
+  premium,
+  dividendPerShare,
+  putStrikePrice = 0,
+  ...inputs
+}: LognormalInputs & {
+  strikePrice: number;
+  breakevenPrice: number;
+  premium: number;
+  dividendPerShare: number;
+  putStrikePrice?: number;
+}): CoveredCallProbabilities => ({
+  assignmentProbability: probabilityAbove(inputs, strikePrice),
+  profitProbability: probabilityAbove(inputs, breakevenPrice),
+  touchProbability: probabilityOfTouching(inputs, strikePrice),
+  expectedProfitPerShare:
+    expectedCappedPrice(inputs, strikePrice) -
+    inputs.stockPrice +
+    premium +
+    dividendPerShare +
+    expectedPutPayoff(inputs, putStrikePrice),
+});
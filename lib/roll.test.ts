@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { getDefaultFormState } from "./covered-call";
+import { calculateRoll, getDefaultRollInputs } from "./roll";
+
+const formState = {
+  ...getDefaultFormState(),
+  stockPrice: "100",
+  strikePrice: "105",
+  premium: "2",
+  shares: "100",
+};
+
+describe("calculateRoll", () => {
+  it("measures the return on the net debit rather than the stock price", () => {
+    const roll = calculateRoll(formState, {
+      ...getDefaultRollInputs(formState),
+      costToClose: "3",
+      newStrikePrice: "110",
+      newPremium: "2.5",
+    });
+
+    expect(roll.netCreditPerShare).toBeCloseTo(-0.5);
+    expect(roll.incrementalCapitalPerShare).toBeCloseTo(0.5);
+    expect(roll.incrementalProfitPerShare).toBeCloseTo(4.5);
+    expect(roll.incrementalReturn).toBeCloseTo(9);
+  });
+
+  it("reports no return on capital for a credit roll", () => {
+    const roll = calculateRoll(formState, {
+      ...getDefaultRollInputs(formState),
+      costToClose: "1",
+      newPremium: "2",
+    });
+
+    expect(roll.incrementalCapitalPerShare).toBe(0);
+    expect(roll.incrementalReturn).toBeNull();
+    expect(roll.incrementalAnnualizedReturn).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  calculateCoveredCall,
+  computeAnnualizedReturn,
+  type FormState,
+} from "./covered-call";
+import type { ScoringProfile } from "./scoring";
+
+export type RollInputs = {
+  currentStrikePrice: string;
+  originalPremium: string;
+  costToClose: string;
+  newStrikePrice: string;
+  newExpirationDate: string;
+  newPremium: string;
+};
+
+const toSafeNumber = (value: string) => {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export const getDefaultRollInputs = (formState: FormState): RollInputs => ({
+  currentStrikePrice: formState.strikePrice,
+  originalPremium: formState.premium,
+  costToClose: "",
+  newStrikePrice: formState.strikePrice,
+  newExpirationDate: formState.expirationDate,
+  newPremium: "",
+});
+
+export const calculateRoll = (
+  formState: FormState,
+  inputs: RollInputs,
+  scoringProfile?: ScoringProfile,
+) => {
+  const originalPremium = toSafeNumber(inputs.originalPremium);
+  const costToClose = toSafeNumber(inputs.costToClose);
+  const newPremium = toSafeNumber(inputs.newPremium);
+  const netCreditPerShare = newPremium - costToClose;
+  const premiumAfterRoll = originalPremium + netCreditPerShare;
+
+  const before = calculateCoveredCall(
+    {
+      ...formState,
+      strikePrice: inputs.currentStrikePrice,
+      premium: inputs.originalPremium,
+    },
+    scoringProfile,
+  );
+  const after = calculateCoveredCall(
+    {
+      ...formState,
+      strikePrice: inputs.newStrikePrice,
+      premium: String(premiumAfterRoll),
+      expirationDate: inputs.newExpirationDate,
+    },
+    scoringProfile,
+  );
+  const newLeg = calculateCoveredCall(
+    {
+      ...formState,
+      strikePrice: inputs.newStrikePrice,
+      premium: inputs.newPremium,
+      expirationDate: inputs.newExpirationDate,
+    },
+    scoringProfile,
+  );
+
+  const addedDays = after.daysUntilExpiration - before.daysUntilExpiration;
+  const incrementalProfitPerShare = after.maxProfitPerShare - before.maxProfitPerShare;
+  // The shares are already owned, so the only new money a roll commits is its net debit. A credit
+  // roll commits none and has no return on capital to report.
+  const incrementalCapitalPerShare = Math.max(0, -netCreditPerShare);
+  const incrementalReturn =
+    incrementalCapitalPerShare > 0 ? incrementalProfitPerShare / incrementalCapitalPerShare : null;
+
+  return {
+    before,
+    after,
+    newLeg,
+    netCreditPerShare,
+    netCreditTotal: netCreditPerShare * before.primaryCoveredShares,
+    premiumAfterRoll,
+    addedDays,
+    incrementalProfitPerShare,
+    incrementalProfitTotal: after.maxProfitTotal - before.maxProfitTotal,
+    incrementalCapitalPerShare,
+    incrementalReturn,
+    incrementalAnnualizedReturn:
+      incrementalReturn === null
+        ? null
+        : computeAnnualizedReturn({ totalReturn: incrementalReturn, days: addedDays }),
+  };
+};
@@ -0,0 +1,46 @@
+import {
+  DEFAULT_SCORING_PROFILE_ID,
+  sanitizeScoringProfile,
+  type ScoringProfile,
+} from "./scoring";
+
+export const SCORING_STORAGE_KEY = "optionsplanner.scoringProfiles.v1";
+
+export type ScoringSettings = {
+  activeProfileId: string;
+  customProfiles: ScoringProfile[];
+};
+
+export const getDefaultScoringSettings = (): ScoringSettings => ({
+  activeProfileId: DEFAULT_SCORING_PROFILE_ID,
+  customProfiles: [],
+});
+
+export const loadScoringSettings = (): ScoringSettings => {
+  const defaults = getDefaultScoringSettings();
+  const stored = localStorage.getItem(SCORING_STORAGE_KEY);
+  if (!stored) {
+    return defaults;
+  }
+
+  try {
+    const parsed = JSON.parse(stored) as Record<string, unknown>;
+    return {
+      activeProfileId:
+        typeof parsed.activeProfileId === "string"
+          ? parsed.activeProfileId
+          : defaults.activeProfileId,
+      customProfiles: Array.isArray(parsed.customProfiles)
+        ? parsed.customProfiles
+            .map(sanitizeScoringProfile)
+            .filter((profile): profile is ScoringProfile => profile !== null)
+        : [],
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveScoringSettings = (settings: ScoringSettings) => {
+  localStorage.setItem(SCORING_STORAGE_KEY, JSON.stringify(settings));
+};
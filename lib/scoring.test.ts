@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { evaluateTradeQuality } from "./covered-call";
+import { findScoreBand, sanitizeScoringProfile, DEFAULT_SCORING_PROFILE } from "./scoring";
+
+const BASE_INPUTS = {
+  premiumPerDayPct: 0.1,
+  downsideToBreakEvenPct: 3,
+  upsideCapPct: 5,
+  totalReturnPct: 10,
+  impliedVolatilityPct: 20,
+  assignmentProbabilityPct: 25,
+};
+
+const factorPoints = (inputs: Partial<typeof BASE_INPUTS> & { maxLossPct?: number | null }) =>
+  Object.fromEntries(
+    evaluateTradeQuality({ ...BASE_INPUTS, ...inputs }).factors.map((factor) => [
+      factor.id,
+      factor.points,
+    ]),
+  );
+
+describe("findScoreBand", () => {
+  const bands = [
+    { below: 5, points: 1, note: "" },
+    { below: 8, inclusive: true, points: 2, note: "" },
+    { below: null, points: 3, note: "" },
+  ];
+
+  it("treats edges as exclusive unless the band is inclusive", () => {
+    expect(findScoreBand(bands, 5)?.points).toBe(2);
+    expect(findScoreBand(bands, 8)?.points).toBe(2);
+    expect(findScoreBand(bands, 8.01)?.points).toBe(3);
+  });
+});
+
+describe("default profile", () => {
+  it("keeps the original inclusive edges", () => {
+    expect(factorPoints({ premiumPerDayPct: 0.2 }).premiumPerDay).toBe(10);
+    expect(factorPoints({ downsideToBreakEvenPct: 5 }).downsideCushion).toBe(0);
+    expect(factorPoints({ downsideToBreakEvenPct: 8 }).downsideCushion).toBe(10);
+    expect(factorPoints({ upsideCapPct: 3 }).upsideRoom).toBe(-5);
+    expect(factorPoints({ upsideCapPct: 7 }).upsideRoom).toBe(5);
+    expect(factorPoints({ totalReturnPct: 20 }).totalReturn).toBe(10);
+    expect(factorPoints({ totalReturnPct: 35 }).totalReturn).toBe(15);
+    expect(factorPoints({ impliedVolatilityPct: 25 }).impliedVolatility).toBe(0);
+    expect(factorPoints({ impliedVolatilityPct: 45 }).impliedVolatility).toBe(10);
+    expect(factorPoints({ impliedVolatilityPct: 65 }).impliedVolatility).toBe(5);
+    expect(factorPoints({ assignmentProbabilityPct: 35 }).assignmentProbability).toBe(0);
+    expect(factorPoints({ assignmentProbabilityPct: 65 }).assignmentProbability).toBe(-15);
+    expect(factorPoints({ maxLossPct: 3 }).maxLoss).toBe(15);
+    expect(factorPoints({ maxLossPct: 12 }).maxLoss).toBe(0);
+  });
+
+  it("keeps the original exclusive edges", () => {
+    expect(factorPoints({ premiumPerDayPct: 0.05 }).premiumPerDay).toBe(0);
+    expect(factorPoints({ downsideToBreakEvenPct: 2 }).downsideCushion).toBe(0);
+    expect(factorPoints({ totalReturnPct: 12 }).totalReturn).toBe(10);
+    expect(factorPoints({ impliedVolatilityPct: 15 }).impliedVolatility).toBe(0);
+    expect(factorPoints({ assignmentProbabilityPct: 15 }).assignmentProbability).toBe(0);
+  });
+
+  it("survives a save and load", () => {
+    const restored = sanitizeScoringProfile(JSON.parse(JSON.stringify(DEFAULT_SCORING_PROFILE)));
+    expect(restored?.factors).toEqual(DEFAULT_SCORING_PROFILE.factors);
+  });
+});
@@ -0,0 +1,360 @@
+import { createId } from "./ids";
+
+export type TradeQualityFactor = {
+  id: string;
+  label: string;
+  value: number;
+  weight: number;
+  // Weighted contribution to the score.
+  points: number;
+  note: string;
+};
+
+export type TradeQuality = {
+  score: number;
+  label: "Strong" | "Reasonable" | "Borderline" | "Weak";
+  notes: string[];
+  hasElevatedRiskWarning: boolean;
+  baseScore: number;
+  factors: TradeQualityFactor[];
+};
+
+// A band applies when the factor value is below `below` (or equal to it when `inclusive`); the
+// last band should use null to catch everything above.
+export type ScoreBand = {
+  below: number | null;
+  inclusive?: boolean;
+  points: number;
+  note: string;
+  elevatedRisk?: boolean;
+};
+
+export type FactorRule = {
+  weight: number;
+  bands: ScoreBand[];
+};
+
+export type ScoringFactorInput = FactorRule & {
+  id: string;
+  label: string;
+  value: number;
+};
+
+export const getTradeQualityLabel = (score: number): TradeQuality["label"] =>
+  score >= 80
+    ? "Strong"
+    : score >= 65
+      ? "Reasonable"
+      : score >= 50
+        ? "Borderline"
+        : "Weak";
+
+export const getTradeQualitySubtitle = (tradeQuality: TradeQuality) =>
+  [
+    tradeQuality.notes[0],
+    tradeQuality.notes[1],
+    tradeQuality.hasElevatedRiskWarning
+      ? "elevated vol/event risk possible"
+      : null,
+  ]
+    .filter(Boolean)
+    .join("; ");
+
+export const findScoreBand = (bands: ScoreBand[], value: number) =>
+  bands.find(
+    (band) =>
+      band.below === null ||
+      value < band.below ||
+      (band.inclusive === true && value === band.below),
+  ) ?? null;
+
+export const scoreFactors = (baseScore: number, inputs: ScoringFactorInput[]): TradeQuality => {
+  let hasElevatedRiskWarning = false;
+  const factors = inputs.map((input): TradeQualityFactor => {
+    const band = findScoreBand(input.bands, input.value);
+    if (band?.elevatedRisk) {
+      hasElevatedRiskWarning = true;
+    }
+
+    return {
+      id: input.id,
+      label: input.label,
+      value: input.value,
+      weight: input.weight,
+      points: (band?.points ?? 0) * input.weight,
+      note: band?.note ?? "",
+    };
+  });
+
+  const rawScore = baseScore + factors.reduce((sum, factor) => sum + factor.points, 0);
+  const clampedScore = Math.max(0, Math.min(100, Math.round(rawScore)));
+  const notes = factors
+    .filter((factor) => factor.points !== 0 && factor.note)
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points))
+    .slice(0, 2)
+    .map((factor) => factor.note);
+
+  return {
+    score: clampedScore,
+    label: getTradeQualityLabel(clampedScore),
+    notes,
+    hasElevatedRiskWarning,
+    baseScore,
+    factors,
+  };
+};
+
+export const COVERED_CALL_FACTOR_IDS = [
+  "premiumPerDay",
+  "downsideCushion",
+  "maxLoss",
+  "upsideRoom",
+  "totalReturn",
+  "impliedVolatility",
+  "assignmentProbability",
+] as const;
+
+export type CoveredCallFactorId = (typeof COVERED_CALL_FACTOR_IDS)[number];
+
+export const COVERED_CALL_FACTOR_LABELS: Record<CoveredCallFactorId, string> = {
+  premiumPerDay: "Premium per day",
+  downsideCushion: "Downside cushion",
+  maxLoss: "Max loss with put",
+  upsideRoom: "Upside to strike",
+  totalReturn: "Max return",
+  impliedVolatility: "Implied volatility",
+  assignmentProbability: "Assignment odds",
+};
+
+export type ScoringProfile = {
+  id: string;
+  name: string;
+  isBuiltIn: boolean;
+  baseScore: number;
+  factors: Record<CoveredCallFactorId, FactorRule>;
+};
+
+// The original hard-coded thresholds, including which edges were inclusive, so existing plans keep
+// their scores under the default profile.
+const INCOME_FACTORS: Record<CoveredCallFactorId, FactorRule> = {
+  premiumPerDay: {
+    weight: 1,
+    bands: [
+      { below: 0.05, points: -15, note: "Premium/day is low" },
+      { below: 0.12, points: 0, note: "Premium/day is moderate" },
+      { below: 0.2, inclusive: true, points: 10, note: "Premium/day is attractive" },
+      { below: null, points: 15, note: "Premium/day is very high", elevatedRisk: true },
+    ],
+  },
+  downsideCushion: {
+    weight: 1,
+    bands: [
+      { below: 2, points: -20, note: "Thin downside cushion" },
+      { below: 5, inclusive: true, points: 0, note: "Downside cushion is modest" },
+      { below: 8, inclusive: true, points: 10, note: "Downside cushion is solid" },
+      { below: null, points: 15, note: "Downside cushion is strong" },
+    ],
+  },
+  maxLoss: {
+    weight: 1,
+    bands: [
+      { below: 3, inclusive: true, points: 15, note: "Max loss is tightly capped by the put" },
+      { below: 7, inclusive: true, points: 10, note: "Max loss is defined by the put" },
+      { below: 12, inclusive: true, points: 0, note: "Put floor is moderately below the stock" },
+      { below: null, points: -10, note: "Put floor is far below the stock" },
+    ],
+  },
+  upsideRoom: {
+    weight: 1,
+    bands: [
+      { below: 1, points: -10, note: "Upside is very capped" },
+      { below: 3, inclusive: true, points: -5, note: "Upside is capped" },
+      { below: 7, inclusive: true, points: 5, note: "Upside room is fair" },
+      { below: null, points: 10, note: "Upside room is healthy" },
+    ],
+  },
+  totalReturn: {
+    weight: 1,
+    bands: [
+      { below: 8, points: -10, note: "Max return potential is limited" },
+      { below: 12, points: 0, note: "Return potential is moderate" },
+      { below: 20, inclusive: true, points: 10, note: "Return potential is strong" },
+      { below: 35, inclusive: true, points: 15, note: "Return potential is very strong" },
+      { below: null, points: 20, note: "Return potential is exceptional" },
+    ],
+  },
+  impliedVolatility: {
+    weight: 1,
+    bands: [
+      { below: 15, points: -8, note: "IV is low for option income" },
+      { below: 25, inclusive: true, points: 0, note: "IV is typical" },
+      { below: 45, inclusive: true, points: 10, note: "IV supports stronger premium" },
+      { below: 65, inclusive: true, points: 5, note: "IV is elevated", elevatedRisk: true },
+      { below: null, points: -5, note: "IV is extremely elevated", elevatedRisk: true },
+    ],
+  },
+  assignmentProbability: {
+    weight: 1,
+    bands: [
+      { below: 15, points: 5, note: "Assignment is unlikely" },
+      { below: 35, inclusive: true, points: 0, note: "Assignment odds are moderate" },
+      { below: 50, inclusive: true, points: -5, note: "Meaningful chance of being called away" },
+      { below: 65, inclusive: true, points: -15, note: "Call-away is more likely than not" },
+      { below: null, points: -25, note: "Call-away is very likely" },
+    ],
+  },
+};
+
+const withWeights = (
+  weights: Partial<Record<CoveredCallFactorId, number>>,
+  bandOverrides: Partial<Record<CoveredCallFactorId, ScoreBand[]>> = {},
+) =>
+  Object.fromEntries(
+    COVERED_CALL_FACTOR_IDS.map((id) => [
+      id,
+      {
+        weight: weights[id] ?? INCOME_FACTORS[id].weight,
+        bands: bandOverrides[id] ?? INCOME_FACTORS[id].bands,
+      },
+    ]),
+  ) as Record<CoveredCallFactorId, FactorRule>;
+
+export const BUILT_IN_SCORING_PROFILES: ScoringProfile[] = [
+  {
+    id: "conservative",
+    name: "Conservative",
+    isBuiltIn: true,
+    baseScore: 50,
+    factors: withWeights(
+      {
+        premiumPerDay: 0.75,
+        downsideCushion: 1.5,
+        maxLoss: 1.5,
+        totalReturn: 0.5,
+        assignmentProbability: 1.5,
+      },
+      {
+        impliedVolatility: [
+          { below: 15, points: -5, note: "IV is low for option income" },
+          { below: 30, points: 5, note: "IV is calm" },
+          { below: 45, points: 0, note: "IV is above average", elevatedRisk: true },
+          { below: null, points: -15, note: "IV signals event risk", elevatedRisk: true },
+        ],
+      },
+    ),
+  },
+  {
+    id: "income",
+    name: "Income",
+    isBuiltIn: true,
+    baseScore: 50,
+    factors: withWeights({}),
+  },
+  {
+    id: "aggressive",
+    name: "Aggressive",
+    isBuiltIn: true,
+    baseScore: 50,
+    factors: withWeights(
+      {
+        premiumPerDay: 1.5,
+        downsideCushion: 0.5,
+        maxLoss: 0.5,
+        totalReturn: 1.5,
+        assignmentProbability: 0.5,
+      },
+      {
+        impliedVolatility: [
+          { below: 15, points: -10, note: "IV is too low to sell" },
+          { below: 25, points: 0, note: "IV is typical" },
+          { below: 65, points: 10, note: "IV pays well", elevatedRisk: true },
+          { below: null, points: 5, note: "IV is extremely elevated", elevatedRisk: true },
+        ],
+      },
+    ),
+  },
+];
+
+export const DEFAULT_SCORING_PROFILE_ID = "income";
+
+export const DEFAULT_SCORING_PROFILE = BUILT_IN_SCORING_PROFILES.find(
+  (profile) => profile.id === DEFAULT_SCORING_PROFILE_ID,
+) as ScoringProfile;
+
+export const createCustomScoringProfile = (
+  source: ScoringProfile,
+  name: string,
+): ScoringProfile => ({
+  id: createId(),
+  name,
+  isBuiltIn: false,
+  baseScore: source.baseScore,
+  factors: JSON.parse(JSON.stringify(source.factors)) as Record<CoveredCallFactorId, FactorRule>,
+});
+
+const sanitizeScoreBand = (value: unknown): ScoreBand | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const source = value as Record<string, unknown>;
+  const below =
+    source.below === null
+      ? null
+      : typeof source.below === "number" && Number.isFinite(source.below)
+        ? source.below
+        : undefined;
+  if (below === undefined || typeof source.points !== "number" || !Number.isFinite(source.points)) {
+    return null;
+  }
+
+  return {
+    below,
+    points: source.points,
+    note: typeof source.note === "string" ? source.note : "",
+    ...(source.inclusive === true ? { inclusive: true } : {}),
+    ...(source.elevatedRisk === true ? { elevatedRisk: true } : {}),
+  };
+};
+
+export const sanitizeScoringProfile = (value: unknown): ScoringProfile | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const source = value as Record<string, unknown>;
+  const factorsSource =
+    typeof source.factors === "object" && source.factors !== null
+      ? (source.factors as Record<string, unknown>)
+      : null;
+  if (typeof source.id !== "string" || typeof source.name !== "string" || !factorsSource) {
+    return null;
+  }
+
+  const factors = {} as Record<CoveredCallFactorId, FactorRule>;
+  for (const id of COVERED_CALL_FACTOR_IDS) {
+    const rule = factorsSource[id] as Record<string, unknown> | undefined;
+    const bands = Array.isArray(rule?.bands)
+      ? rule.bands.map(sanitizeScoreBand).filter((band): band is ScoreBand => band !== null)
+      : [];
+    factors[id] =
+      bands.length && typeof rule?.weight === "number" && Number.isFinite(rule.weight)
+        ? { weight: rule.weight, bands }
+        : INCOME_FACTORS[id];
+  }
+
+  return {
+    id: source.id,
+    name: source.name.slice(0, 40) || "Custom",
+    isBuiltIn: false,
+    baseScore:
+      typeof source.baseScore === "number" && Number.isFinite(source.baseScore)
+        ? source.baseScore
+        : 50,
+    factors,
+  };
+};
+
+export const resolveScoringProfile = (customProfiles: ScoringProfile[], id: string) =>
+  [...BUILT_IN_SCORING_PROFILES, ...customProfiles].find((profile) => profile.id === id) ??
+  DEFAULT_SCORING_PROFILE;
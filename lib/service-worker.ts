@@ -0,0 +1,49 @@
+export const SERVICE_WORKER_URL = "/sw.js";
+
+// Development builds register the worker without caching so edits show up on reload.
+const APP_VERSION =
+  process.env.NODE_ENV === "production" ? (process.env.NEXT_PUBLIC_BUILD_ID ?? "dev") : "dev";
+
+export const isServiceWorkerSupported = () =>
+  typeof window !== "undefined" && "serviceWorker" in navigator;
+
+export const registerServiceWorker = () =>
+  isServiceWorkerSupported()
+    ? navigator.serviceWorker.register(
+        `${SERVICE_WORKER_URL}?v=${encodeURIComponent(APP_VERSION)}`,
+      )
+    : Promise.reject(new Error("Service workers are not available"));
+
+// Calls `onUpdate` when an installed update is waiting behind the current worker; returns an
+// unsubscribe function.
+export const onServiceWorkerUpdate = (
+  registration: ServiceWorkerRegistration,
+  onUpdate: (worker: ServiceWorker) => void,
+) => {
+  const notifyIfWaiting = () => {
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      onUpdate(registration.waiting);
+    }
+  };
+
+  const handleUpdateFound = () => {
+    registration.installing?.addEventListener("statechange", notifyIfWaiting);
+  };
+
+  notifyIfWaiting();
+  registration.addEventListener("updatefound", handleUpdateFound);
+  return () => registration.removeEventListener("updatefound", handleUpdateFound);
+};
+
+export const activateServiceWorker = (worker: ServiceWorker) => {
+  worker.postMessage({ type: "SKIP_WAITING" });
+};
+
+// Asks the browser not to evict saved plans under storage pressure. Browsers may decline.
+export const requestPersistentStorage = async () => {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) {
+    return false;
+  }
+
+  return (await navigator.storage.persisted()) || navigator.storage.persist();
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { calculateCoveredCall, createLadderLeg, getDefaultFormState } from "./covered-call";
+import { formatDateInput } from "./dates";
+import { roundToStrikeIncrement, strikeForDelta, suggestStrikes } from "./strike-suggestions";
+
+const daysFromToday = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return formatDateInput(date);
+};
+
+const formState = {
+  ...getDefaultFormState(),
+  stockPrice: "100",
+  shares: "300",
+  expirationDate: daysFromToday(30),
+};
+
+describe("strikeForDelta", () => {
+  it("returns a strike above the stock price for an out-of-the-money delta", () => {
+    const strike = strikeForDelta(
+      {
+        stockPrice: 100,
+        daysUntilExpiration: 30,
+        volatility: 0.3,
+        riskFreeRate: 0.045,
+        dividendYield: 0,
+      },
+      0.25,
+    );
+    expect(strike).toBeGreaterThan(100);
+  });
+});
+
+describe("suggestStrikes", () => {
+  it("scores each strike as a single call, ignoring the form's ladder, contracts and quote", () => {
+    const laddered = {
+      ...formState,
+      contracts: "1",
+      ladder: [createLadderLeg({ contracts: "1", strikePrice: "95", premium: "6" })],
+      bid: "1",
+      ask: "1.2",
+    };
+    const suggestions = suggestStrikes(laddered, calculateCoveredCall(laddered), {
+      atr: null,
+      atrMultiple: 2,
+    });
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    suggestions.forEach(({ strikePrice, premium, calculations }) => {
+      expect(strikePrice).toBe(roundToStrikeIncrement(strikePrice, 100));
+      expect(calculations.contractsSold).toBe(3);
+      expect(calculations.hasLadder).toBe(false);
+      expect(calculations.lowestStrikePrice).toBe(strikePrice);
+      expect(calculations.blendedPremium).toBeCloseTo(premium);
+    });
+  });
+});
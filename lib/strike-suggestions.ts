@@ -0,0 +1,117 @@
+import { priceCall, yearsFromDays, type BlackScholesInputs } from "./black-scholes";
+import {
+  calculateCoveredCall,
+  type CoveredCallCalculations,
+  type FormState,
+} from "./covered-call";
+import { inverseNormalCdf } from "./normal";
+import type { ScoringProfile } from "./scoring";
+
+export type StrikeSuggestion = {
+  strikePrice: number;
+  premium: number;
+  delta: number;
+  labels: string[];
+  calculations: CoveredCallCalculations;
+};
+
+export const TARGET_DELTAS = [0.15, 0.25, 0.35];
+
+export const DEFAULT_ATR_MULTIPLE = 2;
+
+export const getStrikeIncrement = (stockPrice: number) =>
+  stockPrice < 25 ? 0.5 : stockPrice < 200 ? 1 : 5;
+
+export const roundToStrikeIncrement = (price: number, stockPrice: number) => {
+  const increment = getStrikeIncrement(stockPrice);
+  return Math.round(price / increment) * increment;
+};
+
+// Inverts the Black-Scholes call delta, e^(-qT)·N(d1), for the strike that produces it.
+export const strikeForDelta = (
+  {
+    stockPrice,
+    daysUntilExpiration,
+    volatility,
+    riskFreeRate,
+    dividendYield,
+  }: Omit<BlackScholesInputs, "strikePrice">,
+  delta: number,
+) => {
+  const years = yearsFromDays(daysUntilExpiration);
+  if (stockPrice <= 0 || years <= 0 || volatility <= 0) {
+    return null;
+  }
+
+  const adjustedDelta = delta * Math.exp(dividendYield * years);
+  if (adjustedDelta <= 0 || adjustedDelta >= 1) {
+    return null;
+  }
+
+  const d1 = inverseNormalCdf(adjustedDelta);
+  const volSqrtYears = volatility * Math.sqrt(years);
+  return (
+    stockPrice *
+    Math.exp(
+      (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * years - d1 * volSqrtYears,
+    )
+  );
+};
+
+export const suggestStrikes = (
+  formState: FormState,
+  calculations: CoveredCallCalculations,
+  { atr, atrMultiple }: { atr: number | null; atrMultiple: number },
+  scoringProfile?: ScoringProfile,
+): StrikeSuggestion[] => {
+  const pricing = calculations.pricingAssumptions;
+  const { stockPrice, volatility } = pricing;
+  if (stockPrice <= 0 || calculations.daysUntilExpiration <= 0 || volatility <= 0) {
+    return [];
+  }
+
+  const oneSigmaMove =
+    stockPrice * volatility * Math.sqrt(yearsFromDays(calculations.daysUntilExpiration));
+  const targets: Array<{ label: string; strikePrice: number | null }> = [
+    ...TARGET_DELTAS.map((delta) => ({
+      label: `${delta.toFixed(2)} delta`,
+      strikePrice: strikeForDelta(pricing, delta),
+    })),
+    { label: "1σ expected move", strikePrice: stockPrice + oneSigmaMove },
+    ...(atr !== null && atr > 0 && atrMultiple > 0
+      ? [{ label: `${atrMultiple}× ATR`, strikePrice: stockPrice + atr * atrMultiple }]
+      : []),
+  ];
+
+  const byStrike = new Map<number, string[]>();
+  targets.forEach(({ label, strikePrice }) => {
+    if (strikePrice === null || !Number.isFinite(strikePrice)) {
+      return;
+    }
+    const rounded = roundToStrikeIncrement(strikePrice, stockPrice);
+    if (rounded <= 0) {
+      return;
+    }
+    byStrike.set(rounded, [...(byStrike.get(rounded) ?? []), label]);
+  });
+
+  // Each suggestion is a single call on every owned share, priced by the model rather than quoted.
+  const baseState: FormState = { ...formState, contracts: "", ladder: [], bid: "", ask: "" };
+
+  return [...byStrike.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([strikePrice, labels]) => {
+      const callPricing = priceCall({ ...pricing, strikePrice });
+      const premium = Math.round(callPricing.value * 100) / 100;
+      return {
+        strikePrice,
+        premium,
+        delta: callPricing.delta,
+        labels,
+        calculations: calculateCoveredCall(
+          { ...baseState, strikePrice: String(strikePrice), premium: premium.toFixed(2) },
+          scoringProfile,
+        ),
+      };
+    });
+};
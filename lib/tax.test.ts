@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { calculateCoveredCall, getDefaultFormState, type FormState } from "./covered-call";
+import { formatDateInput } from "./dates";
+import { calculateTaxOutcome, classifyCoveredCall } from "./tax";
+
+const daysFromToday = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return formatDateInput(date);
+};
+
+// Short-term 24% + 5% state, long-term 15% + 5% state.
+const formState: FormState = {
+  ...getDefaultFormState(),
+  stockPrice: "100",
+  strikePrice: "105",
+  premium: "2",
+  shares: "100",
+  dividendPerShare: "0",
+  expirationDate: daysFromToday(60),
+  taxAccount: "taxable",
+  sharePurchaseDate: daysFromToday(-10),
+  federalRate: "24",
+  longTermRate: "15",
+  stateRate: "5",
+};
+
+const outcomeFor = (overrides: Partial<FormState> = {}) => {
+  const state = { ...formState, ...overrides };
+  const outcome = calculateTaxOutcome(state, calculateCoveredCall(state));
+  if (!outcome) {
+    throw new Error("Expected a tax outcome");
+  }
+  return outcome;
+};
+
+describe("classifyCoveredCall", () => {
+  it("qualifies out-of-the-money calls over 30 days and rejects short or deep calls", () => {
+    const base = { stockPrice: 100, strikePrice: 105, daysUntilExpiration: 60 };
+    expect(classifyCoveredCall(base)).toBe("qualified");
+    expect(classifyCoveredCall({ ...base, strikePrice: 99 })).toBe("qualifiedInTheMoney");
+    expect(classifyCoveredCall({ ...base, strikePrice: 90 })).toBe("unqualified");
+    expect(classifyCoveredCall({ ...base, daysUntilExpiration: 30 })).toBe("unqualified");
+  });
+});
+
+describe("calculateTaxOutcome", () => {
+  it("returns null without an account", () => {
+    const state = { ...formState, taxAccount: "" };
+    expect(calculateTaxOutcome(state, calculateCoveredCall(state))).toBeNull();
+  });
+
+  it("taxes an expired call's premium as a short-term gain", () => {
+    const { expired } = outcomeFor();
+    expect(expired.preTaxProfit).toBeCloseTo(200);
+    expect(expired.tax).toBeCloseTo(58);
+    expect(expired.afterTaxProfit).toBeCloseTo(142);
+    expect(expired.isLongTerm).toBe(false);
+  });
+
+  it("taxes a short-term assignment at the short-term rate", () => {
+    const outcome = outcomeFor();
+    expect(outcome.status).toBe("qualified");
+    expect(outcome.assigned.preTaxProfit).toBeCloseTo(700);
+    expect(outcome.assigned.tax).toBeCloseTo(203);
+    expect(outcome.assigned.isLongTerm).toBe(false);
+  });
+
+  it("taxes a long-term assignment at the long-term rate", () => {
+    const { assigned, longTermDate } = outcomeFor({ sharePurchaseDate: daysFromToday(-400) });
+    expect(assigned.tax).toBeCloseTo(140);
+    expect(assigned.isLongTerm).toBe(true);
+    expect(longTermDate).toBeNull();
+  });
+
+  it("lets a qualified call's holding period run into long term", () => {
+    const outcome = outcomeFor({ sharePurchaseDate: daysFromToday(-340) });
+    expect(outcome.isHoldingPeriodSuspended).toBe(false);
+    expect(outcome.holdingDaysAtExpiration).toBe(400);
+    expect(outcome.assigned.isLongTerm).toBe(true);
+  });
+
+  it("suspends the holding period for an in-the-money call", () => {
+    const outcome = outcomeFor({ strikePrice: "99", sharePurchaseDate: daysFromToday(-340) });
+    expect(outcome.status).toBe("qualifiedInTheMoney");
+    expect(outcome.isHoldingPeriodSuspended).toBe(true);
+    expect(outcome.holdingDaysAtExpiration).toBe(340);
+    expect(outcome.assigned.isLongTerm).toBe(false);
+    expect(outcome.warnings).toContain(
+      "Without the suspension, an assignment would have been a long-term gain.",
+    );
+  });
+
+  it("warns that a call expiring within 30 days is not qualified", () => {
+    const outcome = outcomeFor({ expirationDate: daysFromToday(20) });
+    expect(outcome.status).toBe("unqualified");
+    expect(outcome.warnings).toContain("Not a qualified covered call: it expires within 30 days.");
+  });
+
+  it("measures the assigned gain from the tax cost basis", () => {
+    const outcome = outcomeFor({ taxCostBasis: "80" });
+    expect(outcome.costBasis).toBe(80);
+    expect(outcome.assigned.tax).toBeCloseTo((25 * 100 + 200) * 0.29);
+    expect(outcome.expired.tax).toBeCloseTo(58);
+  });
+
+  it("charges no tax in an IRA", () => {
+    const outcome = outcomeFor({ taxAccount: "ira" });
+    expect(outcome.expired.tax).toBe(0);
+    expect(outcome.assigned.tax).toBe(0);
+  });
+});
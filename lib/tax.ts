@@ -0,0 +1,246 @@
+import {
+  computeAnnualizedReturn,
+  type CoveredCallCalculations,
+  type FormState,
+} from "./covered-call";
+import { calculateDaysBetween, formatDateInput, isValidDateInput, parseDateInput } from "./dates";
+import { getStrikeIncrement } from "./strike-suggestions";
+
+export type TaxAccount = "taxable" | "ira";
+
+export const TAX_ACCOUNT_LABELS: Record<TaxAccount, string> = {
+  taxable: "Taxable brokerage",
+  ira: "IRA (tax-deferred)",
+};
+
+export const isTaxAccount = (value: string): value is TaxAccount =>
+  value === "taxable" || value === "ira";
+
+export type CoveredCallTaxStatus = "qualified" | "qualifiedInTheMoney" | "unqualified";
+
+export const TAX_STATUS_LABELS: Record<CoveredCallTaxStatus, string> = {
+  qualified: "Qualified covered call",
+  qualifiedInTheMoney: "Qualified, in the money",
+  unqualified: "Not a qualified covered call",
+};
+
+export type TaxScenario = {
+  preTaxProfit: number;
+  tax: number;
+  afterTaxProfit: number;
+  isLongTerm: boolean;
+  afterTaxReturn: number;
+  afterTaxAnnualizedReturn: number;
+};
+
+export type TaxOutcome = {
+  account: TaxAccount;
+  shortTermRate: number;
+  longTermRate: number;
+  costBasis: number;
+  holdingDaysToday: number;
+  holdingDaysAtExpiration: number;
+  longTermDate: string | null;
+  status: CoveredCallTaxStatus;
+  benchmarkStrike: number;
+  isHoldingPeriodSuspended: boolean;
+  afterTaxPremium: number;
+  expired: TaxScenario;
+  assigned: TaxScenario;
+  warnings: string[];
+};
+
+// Held more than one year counts as long term.
+export const LONG_TERM_HOLDING_DAYS = 365;
+// Qualified dividend treatment needs more than 60 days of (unsuspended) holding.
+export const QUALIFIED_DIVIDEND_HOLDING_DAYS = 60;
+const QUALIFIED_MIN_DAYS = 30;
+
+const toRate = (value: string) => {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? Math.min(100, Math.max(0, parsed)) / 100 : 0;
+};
+
+// Approximates the lowest qualified benchmark: the highest listed strike below the stock price,
+// one strike lower for calls over 90 days (within 10 points up to $150), and at least 85% of
+// the price for stocks at $25 or less.
+export const getLowestQualifiedBenchmark = (stockPrice: number, daysUntilExpiration: number) => {
+  const increment = getStrikeIncrement(stockPrice);
+  const highestBelow = Math.ceil(stockPrice / increment) * increment - increment;
+
+  if (stockPrice <= 25) {
+    return Math.max(highestBelow, stockPrice * 0.85);
+  }
+  if (daysUntilExpiration > 90) {
+    const secondBelow = highestBelow - increment;
+    return stockPrice <= 150 && secondBelow < stockPrice - 10 ? highestBelow : secondBelow;
+  }
+  return highestBelow;
+};
+
+export const classifyCoveredCall = ({
+  stockPrice,
+  strikePrice,
+  daysUntilExpiration,
+}: {
+  stockPrice: number;
+  strikePrice: number;
+  daysUntilExpiration: number;
+}): CoveredCallTaxStatus => {
+  if (daysUntilExpiration <= QUALIFIED_MIN_DAYS) {
+    return "unqualified";
+  }
+  if (strikePrice < getLowestQualifiedBenchmark(stockPrice, daysUntilExpiration)) {
+    return "unqualified";
+  }
+  return strikePrice < stockPrice ? "qualifiedInTheMoney" : "qualified";
+};
+
+const toScenario = (
+  preTaxProfit: number,
+  tax: number,
+  isLongTerm: boolean,
+  capital: number,
+  days: number,
+): TaxScenario => {
+  const afterTaxProfit = preTaxProfit - tax;
+  const afterTaxReturn = capital > 0 ? afterTaxProfit / capital : 0;
+
+  return {
+    preTaxProfit,
+    tax,
+    afterTaxProfit,
+    isLongTerm,
+    afterTaxReturn,
+    afterTaxAnnualizedReturn: computeAnnualizedReturn({ totalReturn: afterTaxReturn, days }),
+  };
+};
+
+// Projects taxes on the covered shares for the two outcomes at expiration. Premium from an
+// expired call is a short-term gain; on assignment it joins the sale proceeds and takes the
+// stock's holding period, which in-the-money and unqualified calls suspend.
+export const calculateTaxOutcome = (
+  formState: FormState,
+  calculations: CoveredCallCalculations,
+  today = formatDateInput(new Date()),
+): TaxOutcome | null => {
+  if (!isTaxAccount(formState.taxAccount)) {
+    return null;
+  }
+
+  const account = formState.taxAccount;
+  const isTaxable = account === "taxable";
+  const stateRate = toRate(formState.stateRate);
+  const shortTermRate = isTaxable ? toRate(formState.federalRate) + stateRate : 0;
+  const longTermRate = isTaxable ? toRate(formState.longTermRate) + stateRate : 0;
+  const parsedBasis = Number.parseFloat(formState.taxCostBasis);
+  const costBasis =
+    Number.isFinite(parsedBasis) && parsedBasis > 0
+      ? parsedBasis
+      : (calculations.adjustedBasisOverride ?? calculations.safeStockPrice);
+  const hasPurchaseDate =
+    Boolean(formState.sharePurchaseDate) && isValidDateInput(formState.sharePurchaseDate);
+  const holdingDaysToday = hasPurchaseDate
+    ? calculateDaysBetween(formState.sharePurchaseDate, today)
+    : 0;
+  const isAlreadyLongTerm = holdingDaysToday > LONG_TERM_HOLDING_DAYS;
+  const status = classifyCoveredCall({
+    stockPrice: calculations.safeStockPrice,
+    strikePrice: calculations.lowestStrikePrice,
+    daysUntilExpiration: calculations.daysUntilExpiration,
+  });
+  const isHoldingPeriodSuspended = !isAlreadyLongTerm && status !== "qualified";
+  const holdingDaysAtExpiration = isHoldingPeriodSuspended
+    ? holdingDaysToday
+    : holdingDaysToday + calculations.daysUntilExpiration;
+  const isAssignmentLongTerm = holdingDaysAtExpiration > LONG_TERM_HOLDING_DAYS;
+  const dividendRate =
+    holdingDaysAtExpiration > QUALIFIED_DIVIDEND_HOLDING_DAYS ? longTermRate : shortTermRate;
+  const longTermDate = (() => {
+    if (!hasPurchaseDate || isAlreadyLongTerm) {
+      return null;
+    }
+    const date = parseDateInput(formState.sharePurchaseDate);
+    date.setDate(date.getDate() + LONG_TERM_HOLDING_DAYS + 1);
+    return formatDateInput(date);
+  })();
+
+  const { coveredShares, daysUntilExpiration } = calculations;
+  const capital = calculations.safeStockPrice * coveredShares;
+  const entryCosts =
+    calculations.safeShares > 0
+      ? (calculations.costs.entryCostsTotal * coveredShares) / calculations.safeShares
+      : 0;
+  const netPremium =
+    calculations.premiumTotal - calculations.safePutCost * coveredShares - entryCosts;
+  const dividends = calculations.dividendPerShareTotal * coveredShares;
+  const dividendTax = dividends * dividendRate;
+  const premiumTax = netPremium * shortTermRate;
+  const realizedGain =
+    (calculations.blendedStrikePrice - costBasis) * coveredShares +
+    netPremium -
+    calculations.costs.assignmentCostsTotal;
+  const assignedTax =
+    realizedGain * (isAssignmentLongTerm ? longTermRate : shortTermRate) + dividendTax;
+
+  const warnings: string[] = [];
+  if (!hasPurchaseDate && isTaxable) {
+    warnings.push("Add the share purchase date; without it the shares are treated as bought today.");
+  }
+  if (!isTaxable) {
+    warnings.push("No tax is due inside the IRA; withdrawals are taxed under the account's rules.");
+  } else if (status === "unqualified") {
+    warnings.push(
+      calculations.daysUntilExpiration <= QUALIFIED_MIN_DAYS
+        ? "Not a qualified covered call: it expires within 30 days."
+        : "Not a qualified covered call: the strike is deep in the money.",
+    );
+    warnings.push(
+      isAlreadyLongTerm
+        ? "Straddle rules can defer a loss on the call and make later dividends non-qualified."
+        : "Straddle rules suspend the stock's holding period while the call is open.",
+    );
+  } else if (status === "qualifiedInTheMoney" && !isAlreadyLongTerm) {
+    warnings.push("In-the-money qualified call: the holding period is suspended while it is open.");
+  }
+  if (isTaxable && isHoldingPeriodSuspended && !isAssignmentLongTerm && longTermDate) {
+    const unsuspendedDays = holdingDaysToday + calculations.daysUntilExpiration;
+    if (unsuspendedDays > LONG_TERM_HOLDING_DAYS) {
+      warnings.push("Without the suspension, an assignment would have been a long-term gain.");
+    }
+  } else if (!isAssignmentLongTerm && longTermDate && isTaxable) {
+    warnings.push(`Shares turn long-term on ${longTermDate}; assignment before then is short-term.`);
+  }
+
+  return {
+    account,
+    shortTermRate,
+    longTermRate,
+    costBasis,
+    holdingDaysToday,
+    holdingDaysAtExpiration,
+    longTermDate,
+    status,
+    benchmarkStrike: getLowestQualifiedBenchmark(
+      calculations.safeStockPrice,
+      calculations.daysUntilExpiration,
+    ),
+    isHoldingPeriodSuspended,
+    afterTaxPremium: netPremium - premiumTax,
+    expired: toScenario(
+      netPremium + dividends,
+      premiumTax + dividendTax,
+      false,
+      capital,
+      daysUntilExpiration,
+    ),
+    assigned: toScenario(
+      calculations.maxProfitTotal,
+      assignedTax,
+      isAssignmentLongTerm,
+      capital,
+      daysUntilExpiration,
+    ),
+    warnings,
+  };
+};
@@ -0,0 +1,145 @@
+export type TechnicalInputs = {
+  stockPrice: number;
+  atr: number | null;
+  adx: number | null;
+  rsi: number | null;
+  ma20: number | null;
+  ma50: number | null;
+  ma200: number | null;
+};
+
+export type TechnicalScore = {
+  score: number;
+  grade: "A" | "B" | "C" | "D" | "F";
+  notes: string[];
+};
+
+export const getTechnicalGrade = (score: number): TechnicalScore["grade"] => {
+  if (score >= 85) return "A";
+  if (score >= 70) return "B";
+  if (score >= 55) return "C";
+  if (score >= 40) return "D";
+  return "F";
+};
+
+export const evaluateTechnicalScore = ({
+  stockPrice,
+  atr,
+  adx,
+  rsi,
+  ma20,
+  ma50,
+  ma200,
+}: TechnicalInputs): TechnicalScore | null => {
+  const hasAtLeastOneMa = ma20 !== null || ma50 !== null || ma200 !== null;
+  if (rsi === null || adx === null || !hasAtLeastOneMa || stockPrice <= 0) {
+    return null;
+  }
+
+  let rsiScore = 0;
+  let adxScore = 0;
+  let maScore = 0;
+  let atrScore = 0;
+
+  let momentumNote = "";
+  if (rsi >= 45 && rsi <= 60) {
+    rsiScore = 30;
+    momentumNote = `Momentum is balanced (RSI ${rsi.toFixed(1)})`;
+  } else if (rsi > 60 && rsi <= 70) {
+    rsiScore = 22;
+    momentumNote = `Momentum is strong but getting extended (RSI ${rsi.toFixed(1)})`;
+  } else if (rsi >= 30 && rsi < 45) {
+    rsiScore = 18;
+    momentumNote = `Momentum is soft but not oversold (RSI ${rsi.toFixed(1)})`;
+  } else if (rsi > 70 && rsi <= 80) {
+    rsiScore = 12;
+    momentumNote = `Overbought risk is elevated (RSI ${rsi.toFixed(1)})`;
+  } else if (rsi >= 20 && rsi < 30) {
+    rsiScore = 14;
+    momentumNote = `Oversold bounce potential exists (RSI ${rsi.toFixed(1)})`;
+  } else if (rsi > 80) {
+    rsiScore = 6;
+    momentumNote = `Momentum is extremely overbought (RSI ${rsi.toFixed(1)})`;
+  } else {
+    rsiScore = 8;
+    momentumNote = `Momentum is deeply oversold (RSI ${rsi.toFixed(1)})`;
+  }
+
+  let trendStrengthNote = "";
+  if (adx < 15) {
+    adxScore = 6;
+    trendStrengthNote = `Trend strength is weak (ADX ${adx.toFixed(1)})`;
+  } else if (adx < 20) {
+    adxScore = 12;
+    trendStrengthNote = `Trend strength is building (ADX ${adx.toFixed(1)})`;
+  } else if (adx < 25) {
+    adxScore = 18;
+    trendStrengthNote = `Trend strength is moderate (ADX ${adx.toFixed(1)})`;
+  } else if (adx < 35) {
+    adxScore = 25;
+    trendStrengthNote = `Trend strength is strong (ADX ${adx.toFixed(1)})`;
+  } else if (adx < 45) {
+    adxScore = 22;
+    trendStrengthNote = `Trend is very strong, but late-cycle risk exists (ADX ${adx.toFixed(1)})`;
+  } else {
+    adxScore = 18;
+    trendStrengthNote = `Trend is extreme with reversal risk (ADX ${adx.toFixed(1)})`;
+  }
+
+  if (ma200 !== null) {
+    maScore += stockPrice > ma200 ? 10 : 2;
+  }
+  if (ma50 !== null) {
+    maScore += stockPrice > ma50 ? 8 : 2;
+  }
+  if (ma20 !== null) {
+    maScore += stockPrice > ma20 ? 6 : 2;
+  }
+
+  let alignmentNote: string | null = null;
+  if (ma20 !== null && ma50 !== null && ma200 !== null) {
+    if (ma20 > ma50 && ma50 > ma200) {
+      maScore += 11;
+      alignmentNote = "Moving averages are bullishly aligned (20 > 50 > 200)";
+    } else if (ma20 < ma50 && ma50 < ma200) {
+      alignmentNote = "Moving averages are bearishly aligned (20 < 50 < 200)";
+    } else {
+      maScore += 5;
+      alignmentNote = "Moving averages show mixed trend alignment";
+    }
+  }
+
+  maScore = Math.min(35, maScore);
+
+  let volatilityNote: string | null = null;
+  if (atr !== null) {
+    const atrPct = (atr / stockPrice) * 100;
+    if (atrPct < 1) {
+      atrScore = 10;
+      volatilityNote = `Volatility is stable (ATR ${atrPct.toFixed(2)}% of price)`;
+    } else if (atrPct < 2) {
+      atrScore = 8;
+      volatilityNote = `Volatility is controlled (ATR ${atrPct.toFixed(2)}% of price)`;
+    } else if (atrPct < 3.5) {
+      atrScore = 5;
+      volatilityNote = `Volatility is moderate (ATR ${atrPct.toFixed(2)}% of price)`;
+    } else if (atrPct < 5) {
+      atrScore = 3;
+      volatilityNote = `Volatility is elevated (ATR ${atrPct.toFixed(2)}% of price)`;
+    } else {
+      atrScore = 1;
+      volatilityNote = `Volatility is high (ATR ${atrPct.toFixed(2)}% of price)`;
+    }
+  }
+
+  const score = Math.max(0, Math.min(100, rsiScore + adxScore + maScore + atrScore));
+  const notes = [trendStrengthNote, momentumNote, alignmentNote, volatilityNote].filter(
+    (note): note is string => Boolean(note),
+  );
+
+  return {
+    score,
+    grade: getTechnicalGrade(score),
+    notes: notes.slice(0, 4),
+  };
+};
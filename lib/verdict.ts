@@ -0,0 +1,206 @@
+import { DAYS_PER_YEAR, TRADING_DAYS_PER_YEAR } from "./black-scholes";
+import type { CoveredCallCalculations } from "./covered-call";
+import { getTradeQualityLabel, type TradeQuality } from "./scoring";
+import type { TechnicalInputs, TechnicalScore } from "./technical-score";
+
+export type TrendBias = "bullish" | "bearish" | "mixed" | "unknown";
+
+export type VerdictSuggestion = {
+  id: string;
+  tone: "positive" | "caution" | "warning";
+  text: string;
+};
+
+export type VerdictAdjustment = {
+  id: string;
+  label: string;
+  points: number;
+};
+
+export type CombinedVerdict = {
+  score: number;
+  label: TradeQuality["label"];
+  trend: TrendBias;
+  tradeWeight: number;
+  technicalWeight: number;
+  adjustments: VerdictAdjustment[];
+  rationale: string[];
+  suggestions: VerdictSuggestion[];
+};
+
+const TRADE_WEIGHT = 0.65;
+
+export const getTrendBias = ({ stockPrice, ma20, ma50, ma200 }: TechnicalInputs): TrendBias => {
+  if (ma20 !== null && ma50 !== null && ma200 !== null) {
+    if (ma20 > ma50 && ma50 > ma200) return "bullish";
+    if (ma20 < ma50 && ma50 < ma200) return "bearish";
+    return "mixed";
+  }
+
+  const averages = [ma20, ma50, ma200].filter((value): value is number => value !== null);
+  if (!averages.length) {
+    return "unknown";
+  }
+  if (averages.every((value) => stockPrice > value)) return "bullish";
+  if (averages.every((value) => stockPrice < value)) return "bearish";
+  return "mixed";
+};
+
+// Typical move over the option's life: the daily ATR scaled by the square root of trading days.
+export const getAtrMoveToExpiration = (atr: number, daysUntilExpiration: number) =>
+  atr * Math.sqrt(Math.max(1, (daysUntilExpiration * TRADING_DAYS_PER_YEAR) / DAYS_PER_YEAR));
+
+// Blends trade quality with the technical score, then nudges the result by how well the chart
+// suits a covered call: momentum into a near strike favors selling, a strong uptrend argues for
+// more upside room, and a bearish trend or a thin cushion relative to ATR counts against it.
+export const evaluateCombinedVerdict = (
+  calculations: CoveredCallCalculations,
+  technicals: TechnicalInputs,
+  technicalScore: TechnicalScore | null,
+): CombinedVerdict => {
+  const { rsi, adx, atr } = technicals;
+  const tradeScore = calculations.tradeQuality.score;
+  const technicalWeight = technicalScore ? 1 - TRADE_WEIGHT : 0;
+  const tradeWeight = 1 - technicalWeight;
+  const trend = getTrendBias(technicals);
+  const stockPrice = calculations.safeStockPrice;
+  const strikeDistance = calculations.lowestStrikePrice - stockPrice;
+  const strikeDistancePct = stockPrice > 0 ? (strikeDistance / stockPrice) * 100 : 0;
+  const isNearTheMoney = strikeDistancePct < 3;
+  const isStrongTrend = adx !== null && adx >= 25;
+  const isWeakTrend = adx !== null && adx < 20;
+  const adjustments: VerdictAdjustment[] = [];
+  const suggestions: VerdictSuggestion[] = [];
+
+  if (rsi !== null && rsi > 70) {
+    if (isNearTheMoney) {
+      adjustments.push({
+        id: "overboughtNearStrike",
+        label: `Overbought (RSI ${rsi.toFixed(0)}) with a near-the-money strike`,
+        points: 8,
+      });
+      suggestions.push({
+        id: "overboughtNearStrike",
+        tone: "positive",
+        text: "Stretched momentum makes a near strike attractive; a pullback lets the call expire.",
+      });
+    } else {
+      adjustments.push({
+        id: "overbought",
+        label: `Overbought (RSI ${rsi.toFixed(0)})`,
+        points: 4,
+      });
+    }
+  } else if (rsi !== null && rsi < 30) {
+    adjustments.push({
+      id: "oversold",
+      label: `Oversold (RSI ${rsi.toFixed(0)})`,
+      points: -4,
+    });
+    suggestions.push({
+      id: "oversold",
+      tone: "caution",
+      text: "Oversold stocks often bounce; consider a higher strike or waiting before selling.",
+    });
+  }
+
+  if (trend === "bullish" && isStrongTrend && isNearTheMoney) {
+    adjustments.push({
+      id: "bullishMomentum",
+      label: "Strong bullish trend can carry through the strike",
+      points: -8,
+    });
+    suggestions.push({
+      id: "higherStrike",
+      tone: "warning",
+      text: "Bullish momentum argues for a further out-of-the-money strike; consider a higher strike.",
+    });
+  } else if (trend === "bullish" && isStrongTrend) {
+    suggestions.push({
+      id: "uptrendRoom",
+      tone: "positive",
+      text: "The strike leaves room for the uptrend to run.",
+    });
+  } else if (trend === "bearish") {
+    adjustments.push({
+      id: "bearishTrend",
+      label: "Bearish moving-average alignment",
+      points: isStrongTrend ? -12 : -8,
+    });
+    suggestions.push({
+      id: "downsideRisk",
+      tone: "warning",
+      text: calculations.hasProtectivePut
+        ? "Trend is down; the protective put limits the damage, but premium alone won't."
+        : "Trend is down; premium won't offset a sustained decline. Consider a protective put.",
+    });
+  }
+
+  if (isWeakTrend && (rsi === null || (rsi >= 40 && rsi <= 60))) {
+    adjustments.push({
+      id: "rangeBound",
+      label: "Weak trend favors premium harvesting",
+      points: 6,
+    });
+    suggestions.push({
+      id: "harvestPremium",
+      tone: "positive",
+      text: "Range-bound action suits selling calls; a nearer strike or shorter expiry collects more premium.",
+    });
+  }
+
+  if (atr !== null && atr > 0 && calculations.daysUntilExpiration > 0) {
+    const expectedMove = getAtrMoveToExpiration(atr, calculations.daysUntilExpiration);
+    const cushion = stockPrice - calculations.breakevenPrice;
+    if (!calculations.hasProtectivePut && cushion < expectedMove * 0.5) {
+      adjustments.push({
+        id: "thinCushion",
+        label: "Downside cushion below half the expected ATR move",
+        points: -6,
+      });
+      suggestions.push({
+        id: "thinCushion",
+        tone: "warning",
+        text: `Downside cushion is thin relative to ATR (${cushion.toFixed(2)} vs a ${expectedMove.toFixed(2)} typical move).`,
+      });
+    }
+    if (strikeDistance > 0 && strikeDistance < atr) {
+      suggestions.push({
+        id: "strikeWithinAtr",
+        tone: "caution",
+        text: "The strike is within one day's average range; consider a higher strike if you want to keep the shares.",
+      });
+    } else if (strikeDistance > expectedMove * 1.5 && calculations.premiumPerDayPct < 0.05) {
+      suggestions.push({
+        id: "lowerStrike",
+        tone: "caution",
+        text: "The strike sits well beyond the expected ATR move for little premium; a lower strike pays more.",
+      });
+    }
+  }
+
+  const blended = technicalScore
+    ? tradeScore * tradeWeight + technicalScore.score * technicalWeight
+    : tradeScore;
+  const adjustmentTotal = adjustments.reduce((sum, item) => sum + item.points, 0);
+  const score = Math.max(0, Math.min(100, Math.round(blended + adjustmentTotal)));
+
+  const rationale = [
+    `Trade quality ${tradeScore}/100 (${calculations.tradeQuality.label}) at ${Math.round(tradeWeight * 100)}% weight`,
+    technicalScore
+      ? `Technical grade ${technicalScore.grade} (${technicalScore.score.toFixed(0)}/100) at ${Math.round(technicalWeight * 100)}% weight`
+      : "No technical score yet; add RSI, ADX and a moving average to include it",
+    ...adjustments.map((item) => `${item.label}: ${item.points > 0 ? "+" : ""}${item.points}`),
+  ];
+
+  return {
+    score,
+    label: getTradeQualityLabel(score),
+    trend,
+    tradeWeight,
+    technicalWeight,
+    adjustments,
+    rationale,
+    suggestions,
+  };
+};
@@ -0,0 +1,28 @@
+import { WHEEL_LEG_STORE, openPlannerDb, requestToPromise, transactionDone } from "./db";
+import { sanitizeWheelLeg, type WheelLeg } from "./wheel";
+
+export const loadWheelLegs = async (symbol?: string) => {
+  const db = await openPlannerDb();
+  const store = db.transaction(WHEEL_LEG_STORE, "readonly").objectStore(WHEEL_LEG_STORE);
+  const records = await requestToPromise(
+    symbol ? store.index("symbol").getAll(symbol.toUpperCase()) : store.getAll(),
+  );
+
+  return records
+    .map((record) => sanitizeWheelLeg(record))
+    .filter((leg): leg is WheelLeg => leg !== null);
+};
+
+export const saveWheelLeg = async (leg: WheelLeg) => {
+  const db = await openPlannerDb();
+  const transaction = db.transaction(WHEEL_LEG_STORE, "readwrite");
+  transaction.objectStore(WHEEL_LEG_STORE).put(leg);
+  await transactionDone(transaction);
+};
+
+export const deleteWheelLeg = async (id: string) => {
+  const db = await openPlannerDb();
+  const transaction = db.transaction(WHEEL_LEG_STORE, "readwrite");
+  transaction.objectStore(WHEEL_LEG_STORE).delete(id);
+  await transactionDone(transaction);
+};
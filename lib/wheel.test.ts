@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { createWheelLeg, summarizeWheel, type WheelLeg } from "./wheel";
+
+const leg = (values: Partial<WheelLeg> & Pick<WheelLeg, "kind" | "date">) =>
+  createWheelLeg({ symbol: "AAPL", strikePrice: 0, premium: 0, shares: 100, ...values });
+
+const ASSIGNED = [
+  leg({ kind: "sell-put", date: "2024-01-02", strikePrice: 100, premium: 2 }),
+  leg({ kind: "put-assigned", date: "2024-01-19", strikePrice: 100 }),
+];
+
+describe("summarizeWheel", () => {
+  it("nets every premium collected into the adjusted basis", () => {
+    const summary = summarizeWheel(
+      [...ASSIGNED, leg({ kind: "sell-call", date: "2024-01-22", strikePrice: 105, premium: 1.5 })],
+      "2024-02-01",
+    );
+    expect(summary.sharesHeld).toBe(100);
+    expect(summary.adjustedCostBasis).toBeCloseTo(96.5);
+  });
+
+  it("leaves the open call's premium out of the basis handed to the planner", () => {
+    const summary = summarizeWheel(
+      [
+        ...ASSIGNED,
+        leg({ kind: "sell-call", date: "2024-01-22", strikePrice: 105, premium: 1.5 }),
+        leg({ kind: "sell-call", date: "2024-02-20", strikePrice: 105, premium: 1 }),
+      ],
+      "2024-03-01",
+    );
+    expect(summary.adjustedCostBasis).toBeCloseTo(95.5);
+    expect(summary.basisBeforeOpenCall).toBeCloseTo(96.5);
+  });
+
+  it("treats a bought-back call as closed", () => {
+    const summary = summarizeWheel(
+      [
+        ...ASSIGNED,
+        leg({ kind: "sell-call", date: "2024-01-22", strikePrice: 105, premium: 1.5 }),
+        leg({ kind: "buy-to-close", date: "2024-02-01", premium: 0.5 }),
+      ],
+      "2024-02-01",
+    );
+    expect(summary.adjustedCostBasis).toBeCloseTo(97);
+    expect(summary.basisBeforeOpenCall).toBeCloseTo(97);
+  });
+
+  it("closes the cycle when the shares are called away", () => {
+    const summary = summarizeWheel(
+      [
+        ...ASSIGNED,
+        leg({ kind: "sell-call", date: "2024-01-22", strikePrice: 105, premium: 1.5 }),
+        leg({ kind: "called-away", date: "2024-02-16", strikePrice: 105 }),
+      ],
+      "2024-02-16",
+    );
+    expect(summary.adjustedCostBasis).toBeNull();
+    expect(summary.basisBeforeOpenCall).toBeNull();
+    expect(summary.cycles[0].realizedPnl).toBeCloseTo(850);
+  });
+});
@@ -0,0 +1,217 @@
+import { computeAnnualizedReturn } from "./covered-call";
+import { calculateDaysBetween, formatDateInput, isValidDateInput } from "./dates";
+import { createId } from "./ids";
+
+export const WHEEL_LEG_KINDS = [
+  "sell-put",
+  "put-assigned",
+  "sell-call",
+  "buy-to-close",
+  "called-away",
+] as const;
+
+export type WheelLegKind = (typeof WHEEL_LEG_KINDS)[number];
+
+export const WHEEL_LEG_LABELS: Record<WheelLegKind, string> = {
+  "sell-put": "Sell put",
+  "put-assigned": "Put assigned",
+  "sell-call": "Sell call",
+  "buy-to-close": "Buy to close",
+  "called-away": "Called away",
+};
+
+export type WheelLeg = {
+  id: string;
+  symbol: string;
+  kind: WheelLegKind;
+  date: string;
+  strikePrice: number;
+  premium: number;
+  shares: number;
+  createdAt: string;
+};
+
+export type WheelCycle = {
+  index: number;
+  startDate: string;
+  endDate: string | null;
+  premiumCollected: number;
+  capital: number;
+  realizedPnl: number;
+  isClosed: boolean;
+};
+
+export type WheelSummary = {
+  cycles: WheelCycle[];
+  sharesHeld: number;
+  adjustedCostBasis: number | null;
+  // The basis before the premium of the call still open, for planning that call without counting
+  // its premium twice.
+  basisBeforeOpenCall: number | null;
+  cumulativePremium: number;
+  realizedPnl: number;
+  capitalDeployed: number;
+  daysActive: number;
+  totalReturn: number;
+  annualizedYield: number;
+};
+
+export const isWheelLegKind = (value: unknown): value is WheelLegKind =>
+  WHEEL_LEG_KINDS.includes(value as WheelLegKind);
+
+export const createWheelLeg = (values: Omit<WheelLeg, "id" | "createdAt">): WheelLeg => ({
+  ...values,
+  id: createId(),
+  createdAt: new Date().toISOString(),
+});
+
+export const sanitizeWheelLeg = (value: unknown): WheelLeg | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+
+  const source = value as Record<string, unknown>;
+  const toNumber = (field: unknown) =>
+    typeof field === "number" && Number.isFinite(field) ? field : 0;
+
+  if (
+    typeof source.id !== "string" ||
+    typeof source.symbol !== "string" ||
+    !isWheelLegKind(source.kind) ||
+    typeof source.date !== "string" ||
+    !isValidDateInput(source.date)
+  ) {
+    return null;
+  }
+
+  return {
+    id: source.id,
+    symbol: source.symbol.toUpperCase().slice(0, 10),
+    kind: source.kind,
+    date: source.date,
+    strikePrice: toNumber(source.strikePrice),
+    premium: toNumber(source.premium),
+    shares: Math.max(0, Math.round(toNumber(source.shares))),
+    createdAt: typeof source.createdAt === "string" ? source.createdAt : new Date().toISOString(),
+  };
+};
+
+export const sortWheelLegs = (legs: WheelLeg[]) =>
+  [...legs].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt),
+  );
+
+type OpenCycle = WheelCycle & {
+  sharesHeld: number;
+  stockCost: number;
+  // Premium of the calls sold on the latest sell date that haven't been bought back; an earlier
+  // call followed by a new sale is taken to have expired.
+  openCallPremium: number;
+  openCallDate: string | null;
+};
+
+const toWheelCycle = (
+  { sharesHeld, stockCost, openCallPremium, openCallDate, ...cycle }: OpenCycle,
+  endDate: string | null,
+): WheelCycle => ({
+  ...cycle,
+  endDate,
+  realizedPnl: cycle.realizedPnl + cycle.premiumCollected,
+  isClosed: endDate !== null,
+});
+
+export const summarizeWheel = (
+  legs: WheelLeg[],
+  asOf = formatDateInput(new Date()),
+): WheelSummary => {
+  const cycles: WheelCycle[] = [];
+  let current: OpenCycle | null = null;
+
+  for (const leg of sortWheelLegs(legs)) {
+    if (!current) {
+      current = {
+        index: cycles.length + 1,
+        startDate: leg.date,
+        endDate: null,
+        premiumCollected: 0,
+        capital: 0,
+        realizedPnl: 0,
+        isClosed: false,
+        sharesHeld: 0,
+        stockCost: 0,
+        openCallPremium: 0,
+        openCallDate: null,
+      };
+    }
+
+    switch (leg.kind) {
+      case "sell-put":
+        current.premiumCollected += leg.premium * leg.shares;
+        current.capital = Math.max(current.capital, leg.strikePrice * leg.shares);
+        break;
+      case "sell-call":
+        current.premiumCollected += leg.premium * leg.shares;
+        if (current.openCallDate !== leg.date) {
+          current.openCallPremium = 0;
+          current.openCallDate = leg.date;
+        }
+        current.openCallPremium += leg.premium * leg.shares;
+        break;
+      case "buy-to-close":
+        current.premiumCollected -= leg.premium * leg.shares;
+        current.openCallPremium = 0;
+        current.openCallDate = null;
+        break;
+      case "put-assigned":
+        current.sharesHeld += leg.shares;
+        current.stockCost += leg.strikePrice * leg.shares;
+        current.capital = Math.max(current.capital, current.stockCost);
+        break;
+      case "called-away": {
+        const sharesSold = Math.min(leg.shares, current.sharesHeld);
+        const costSold =
+          current.sharesHeld > 0 ? (current.stockCost * sharesSold) / current.sharesHeld : 0;
+        current.realizedPnl += leg.strikePrice * sharesSold - costSold;
+        current.sharesHeld -= sharesSold;
+        current.stockCost -= costSold;
+        current.openCallPremium = 0;
+        current.openCallDate = null;
+
+        if (current.sharesHeld === 0) {
+          cycles.push(toWheelCycle(current, leg.date));
+          current = null;
+        }
+        break;
+      }
+    }
+  }
+
+  const open: OpenCycle | null = current;
+  if (open) {
+    cycles.push(toWheelCycle(open, null));
+  }
+
+  const sharesHeld = open?.sharesHeld ?? 0;
+  const cumulativePremium = cycles.reduce((sum, cycle) => sum + cycle.premiumCollected, 0);
+  const realizedPnl = cycles.reduce((sum, cycle) => sum + cycle.realizedPnl, 0);
+  const capitalDeployed = cycles.reduce((max, cycle) => Math.max(max, cycle.capital), 0);
+  const daysActive = cycles.length ? calculateDaysBetween(cycles[0].startDate, asOf) : 0;
+  const totalReturn = capitalDeployed > 0 ? realizedPnl / capitalDeployed : 0;
+
+  return {
+    cycles,
+    sharesHeld,
+    adjustedCostBasis:
+      open && sharesHeld > 0 ? (open.stockCost - open.premiumCollected) / sharesHeld : null,
+    basisBeforeOpenCall:
+      open && sharesHeld > 0
+        ? (open.stockCost - open.premiumCollected + open.openCallPremium) / sharesHeld
+        : null,
+    cumulativePremium,
+    realizedPnl,
+    capitalDeployed,
+    daysActive,
+    totalReturn,
+    annualizedYield: computeAnnualizedReturn({ totalReturn, days: daysActive }),
+  };
+};
@@ -0,0 +1,32 @@
+import { execSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+
+// The build id also versions the service worker, so each deploy installs a fresh offline cache.
+// Next loads this file again in its build workers, so the id is derived from the source being
+// built (a BUILD_ID from the deploy, else the commit, else the package version) and every load
+// agrees on it.
+const getBuildId = () => {
+  if (process.env.BUILD_ID) {
+    return process.env.BUILD_ID;
+  }
+
+  try {
+    return execSync("git rev-parse --short HEAD", { stdio: ["ignore", "pipe", "ignore"] })
+      .toString()
+      .trim();
+  } catch {
+    return JSON.parse(readFileSync(new URL("./package.json", import.meta.url), "utf8")).version;
+  }
+};
+
+const buildId = getBuildId();
+
+/** @type {import('next').NextConfig} */
+const nextConfig = {
+  generateBuildId: () => buildId,
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
+};
+
+export default nextConfig;
@@ -0,0 +1,136 @@
+// Options Planner service worker: keeps the planner usable offline and shows position alerts
+// raised by the planner.
+//
+// Each build registers this script as /sw.js?v=<build id>, so a deploy installs a new worker with
+// its own cache. The new worker waits until the page asks it to take over, then drops the caches
+// of older versions. Plans live in IndexedDB and localStorage, which this worker never touches.
+
+const VERSION = new URL(self.location.href).searchParams.get("v") || "dev";
+const CACHE_PREFIX = "optionsplanner-";
+const CACHE_NAME = `${CACHE_PREFIX}${VERSION}`;
+// Development builds change on every edit, so they are never cached.
+const IS_CACHING = VERSION !== "dev";
+
+const ROUTES = ["/", "/covered-call", "/cash-secured-put", "/wheel", "/portfolio"];
+const ASSETS = [
+  "/site.webmanifest",
+  "/icon.svg",
+  "/icon-192.png",
+  "/icon-512.png",
+  "/icon-maskable-192.png",
+  "/icon-maskable-512.png",
+  "/apple-touch-icon.png",
+];
+const STATIC_ASSET_PATTERN = /\/_next\/static\/[^"'\s\\)]+/g;
+
+// Caches each route's HTML along with the scripts, styles and fonts it references, so every page
+// works offline on the first visit after install, not only the ones already opened.
+const precache = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  const staticUrls = new Set();
+
+  await Promise.all(
+    ROUTES.map(async (route) => {
+      const response = await fetch(route, { cache: "reload" });
+      if (!response.ok) {
+        throw new Error(`Could not precache ${route} (${response.status})`);
+      }
+      const html = await response.clone().text();
+      (html.match(STATIC_ASSET_PATTERN) || []).forEach((url) => staticUrls.add(url));
+      await cache.put(route, response);
+    }),
+  );
+
+  await cache.addAll(ASSETS);
+  // A missing chunk shouldn't fail the install; it gets cached on first use instead.
+  await Promise.allSettled([...staticUrls].map((url) => cache.add(url)));
+};
+
+const deleteOldCaches = async () => {
+  const names = await caches.keys();
+  await Promise.all(
+    names
+      .filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+      .map((name) => caches.delete(name)),
+  );
+};
+
+// Pages go to the network first so an online visit always sees the latest deploy; the cached
+// copy (keyed without the query, so shared plan links work offline) is the fallback.
+const handleNavigation = async (request) => {
+  const url = new URL(request.url);
+  const cache = await caches.open(CACHE_NAME);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok && ROUTES.includes(url.pathname)) {
+      await cache.put(url.pathname, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(url.pathname)) || (await cache.match("/"));
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+// Build assets are content-hashed, so a cached copy never goes stale.
+const handleAsset = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request, { ignoreSearch: true });
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener("install", (event) => {
+  if (IS_CACHING) {
+    event.waitUntil(precache());
+  } else {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(deleteOldCaches().then(() => self.clients.claim()));
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (!IS_CACHING || request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith("/_next/static/") || ASSETS.includes(url.pathname)) {
+    event.respondWith(handleAsset(request));
+  }
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || "/";
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((item) => new URL(item.url).pathname === url);
+      return client ? client.focus() : self.clients.openWindow(url);
+    }),
+  );
+});
@@ -11,6 +11,15 @@ const targets = [
   { file: "icon-512.png", size: 512 },
 ];
 
+// Maskable icons need a full-bleed background; launchers crop them to a shape that only
+// guarantees the centre 80% stays visible.
+const maskableTargets = [
+  { file: "icon-maskable-192.png", size: 192 },
+  { file: "icon-maskable-512.png", size: 512 },
+];
+const MASKABLE_SAFE_ZONE = 0.8;
+const MASKABLE_BACKGROUND = "#e3eff6";
+
 async function generateIcons() {
   const svgBuffer = await fs.readFile(sourcePath);
 
@@ -26,6 +35,26 @@ async function generateIcons() {
       console.log(`Generated ${path.relative(process.cwd(), outputPath)} (${size}x${size})`);
     }),
   );
+
+  await Promise.all(
+    maskableTargets.map(async ({ file, size }) => {
+      const outputPath = path.join(publicDir, file);
+      const iconSize = Math.round(size * MASKABLE_SAFE_ZONE);
+      const inset = Math.round((size - iconSize) / 2);
+      const icon = await sharp(svgBuffer).resize(iconSize, iconSize).png().toBuffer();
+
+      await sharp({
+        create: { width: size, height: size, channels: 4, background: MASKABLE_BACKGROUND },
+      })
+        .composite([{ input: icon, top: inset, left: inset }])
+        .png({ compressionLevel: 9 })
+        .toFile(outputPath);
+
+      console.log(
+        `Generated ${path.relative(process.cwd(), outputPath)} (${size}x${size}, maskable)`,
+      );
+    }),
+  );
 }
 
 generateIcons().catch((error) => {